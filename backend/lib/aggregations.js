@@ -0,0 +1,184 @@
+/**
+ * Result Aggregations
+ *
+ * Compact breakdowns of an execution's stored results, so clients can
+ * compare runs, filter them and draw charts without downloading every threat.
+ */
+
+const { parseTimestamp } = require('./threatQuery');
+
+const DEFAULT_TOP_LIMIT = 10;
+
+// Timeline bucket sizes for aggregateResults - keys are UTC ISO prefixes
+const TIME_BUCKETS = ['hour', 'day', 'week', 'month'];
+
+const RISK_RANGES = [
+  { range: '0-20', max: 20 },
+  { range: '20-40', max: 40 },
+  { range: '40-60', max: 60 },
+  { range: '60-80', max: 80 },
+  { range: '80-100', max: Infinity }
+];
+
+/**
+ * Count results by the value of one field
+ * @param {Array} results - Stored ThreatData records
+ * @param {string} field - Field to group on (e.g. 'Severity Level')
+ * @returns {object} value -> count (missing values count as 'Unknown')
+ */
+function countBy(results, field) {
+  const counts = {};
+  for (const result of results) {
+    const value = result[field] || 'Unknown';
+    counts[value] = (counts[value] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Largest entries of a count map
+ * @param {object} counts - value -> count
+ * @param {number} [limit]
+ * @returns {Array<{value: string, count: number}>} Sorted by count, descending
+ */
+function topCounts(counts, limit = DEFAULT_TOP_LIMIT) {
+  return Object.entries(counts)
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+/**
+ * Severity mix and top attack types of an execution's results
+ * @param {Array} results - Stored ThreatData records
+ * @param {object} [options]
+ * @param {number} [options.topLimit] - How many attack types to return
+ */
+function breakdownResults(results, { topLimit = DEFAULT_TOP_LIMIT } = {}) {
+  return {
+    total_results: results.length,
+    severity: countBy(results, 'Severity Level'),
+    classification: countBy(results, 'consensus_classification'),
+    top_attack_types: topCounts(countBy(results, 'Attack Type'), topLimit)
+  };
+}
+
+/**
+ * Top values of several fields at once - the facet counts of a query
+ * @param {Array} results - Matching ThreatData records
+ * @param {Array<{name: string, field: string}>} facets - Response key and field to count
+ * @param {number} [limit] - Values per facet
+ * @returns {object} name -> Array<{value, count}>
+ */
+function facetCounts(results, facets, limit = DEFAULT_TOP_LIMIT) {
+  const counts = {};
+  for (const { name, field } of facets) {
+    counts[name] = topCounts(countBy(results, field), limit);
+  }
+  return counts;
+}
+
+function bucketKey(time, bucket) {
+  switch (bucket) {
+    case 'hour':
+      return `${new Date(time).toISOString().slice(0, 13)}:00`;
+    case 'week': {
+      // Weeks start on Monday
+      const daysSinceMonday = (new Date(time).getUTCDay() + 6) % 7;
+      return new Date(time - daysSinceMonday * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    }
+    case 'month':
+      return new Date(time).toISOString().slice(0, 7);
+    default:
+      return new Date(time).toISOString().slice(0, 10);
+  }
+}
+
+function riskScoreOf(result) {
+  const score = Number(result.final_risk_score);
+  return Number.isFinite(score) ? score : 0;
+}
+
+function average(total, count) {
+  return count > 0 ? Math.round((total / count) * 10) / 10 : 0;
+}
+
+/**
+ * Every chart facet of a set of results in one pass-friendly payload:
+ * totals, a severity timeline, hour-of-day pattern, category counts,
+ * top ports / source IPs / countries and the risk score distribution
+ * @param {Array} results - ThreatData records (one or several executions)
+ * @param {object} [options]
+ * @param {string} [options.bucket] - Timeline bucket: hour | day | week | month
+ * @param {number} [options.last] - Only return the most recent N timeline buckets
+ * @param {number} [options.topLimit] - Entries in the top-N lists
+ */
+function aggregateResults(results, { bucket = 'day', last, topLimit = DEFAULT_TOP_LIMIT } = {}) {
+  const timeline = new Map();
+  const hourOfDay = {};
+  const ports = {};
+  const countries = {};
+  let undated = 0;
+  let blocked = 0;
+  let riskTotal = 0;
+  const riskCounts = RISK_RANGES.map(() => 0);
+
+  for (const result of results) {
+    const score = riskScoreOf(result);
+    riskTotal += score;
+    riskCounts[RISK_RANGES.findIndex(({ max }) => score <= max)] += 1;
+    if (result['Action Taken'] === 'Blocked') blocked += 1;
+
+    const time = parseTimestamp(result.Timestamp ?? '');
+    if (time === null) {
+      undated += 1;
+    } else {
+      const key = bucketKey(time, bucket);
+      const entry = timeline.get(key) || { bucket: key, count: 0, high: 0, medium: 0, low: 0 };
+      entry.count += 1;
+      const severity = String(result['Severity Level'] || '').toLowerCase();
+      if (severity === 'high' || severity === 'medium' || severity === 'low') entry[severity] += 1;
+      timeline.set(key, entry);
+
+      const hour = `${String(new Date(time).getUTCHours()).padStart(2, '0')}:00`;
+      hourOfDay[hour] = (hourOfDay[hour] || 0) + 1;
+    }
+
+    const port = result['Destination Port'] || 'Unknown';
+    if (!ports[port]) ports[port] = { value: port, count: 0, risk: 0 };
+    ports[port].count += 1;
+    ports[port].risk += score;
+
+    // "Paris, France" -> France
+    const country = String(result['Geo-location Data'] || '').split(',').pop().trim() || 'Unknown';
+    countries[country] = (countries[country] || 0) + 1;
+  }
+
+  const sortedTimeline = [...timeline.values()].sort((a, b) => a.bucket.localeCompare(b.bucket));
+
+  return {
+    total_results: results.length,
+    blocked,
+    average_risk_score: average(riskTotal, results.length),
+    bucket,
+    timeline: last ? sortedTimeline.slice(-last) : sortedTimeline,
+    undated,
+    hour_of_day: Object.entries(hourOfDay)
+      .map(([hour, count]) => ({ hour, count }))
+      .sort((a, b) => a.hour.localeCompare(b.hour)),
+    severity: topCounts(countBy(results, 'Severity Level'), Infinity),
+    attack_types: topCounts(countBy(results, 'Attack Type'), topLimit),
+    protocols: topCounts(countBy(results, 'Protocol'), Infinity),
+    segments: topCounts(countBy(results, 'Network Segment'), Infinity),
+    actions: topCounts(countBy(results, 'Action Taken'), Infinity),
+    ports: Object.values(ports)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, topLimit)
+      .map(({ value, count, risk }) => ({ value, count, average_risk_score: average(risk, count) })),
+    top_source_ips: topCounts(countBy(results, 'Source IP Address'), topLimit),
+    countries: topCounts(countries, topLimit),
+    risk_distribution: RISK_RANGES.map(({ range }, index) => ({ range, count: riskCounts[index] }))
+  };
+}
+
+module.exports = { countBy, topCounts, breakdownResults, facetCounts, aggregateResults, TIME_BUCKETS };
@@ -0,0 +1,416 @@
+/**
+ * Alert Rules
+ *
+ * Analyst-defined rules evaluated against every batch that arrives on
+ * /callback. A rule that fires raises an alert, which is stored and pushed
+ * to the dashboard's alert banner.
+ *
+ * Rule types:
+ *   conditions  - any result matches the query
+ *                 ("priority:CRITICAL AND attack_type:Malware")
+ *   threshold   - more than `threshold` results match, optionally per group
+ *                 ("more than 20 HIGH results from one /24 in a batch":
+ *                 query priority:HIGH, group_by src_ip, prefix 24, threshold 20)
+ *   conflict    - the AI verdicts disagree: conflict_detected, no ai_agreement,
+ *                 an UNKNOWN consensus, or threat intel (is_malicious)
+ *                 contradicting the consensus classification
+ *
+ * Queries use the filter language of lib/threatQuery.js. A threshold's
+ * window is either the batch or the whole run - a run-wide threshold fires
+ * once, in the batch that pushes a group over it.
+ *
+ * Suppression: an alert's key is its rule plus group. While an unresolved
+ * alert with the same key was last seen within the rule's
+ * `suppress_minutes`, a repeat folds into it (occurrences, match_count,
+ * last_seen_at) instead of raising a new alert.
+ *
+ * Lifecycle: open -> acknowledged / snoozed (until a time) -> resolved (with
+ * a reason); any of them can be reopened. A snooze that has run out reads
+ * as open again.
+ */
+
+const crypto = require('crypto');
+const { compileQuery, resolveField } = require('./threatQuery');
+
+const RULE_TYPES = ['conditions', 'threshold', 'conflict'];
+const RULE_SEVERITIES = ['critical', 'high', 'medium', 'low'];
+const RULE_WINDOWS = ['batch', 'execution'];
+const ALERT_STATUSES = ['open', 'acknowledged', 'snoozed', 'resolved'];
+const DEFAULT_SUPPRESS_MINUTES = 60;
+const MAX_SUPPRESS_MINUTES = 7 * 24 * 60;
+const MAX_SAMPLE_IDS = 20;
+
+function ruleError(message, path) {
+  const error = new Error(message);
+  error.isRuleError = true;
+  error.path = path;
+  return error;
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Validate a rule body from the API and fill in defaults
+ * @param {object} body - { name, type, query, severity, ... }
+ * @returns {object} Rule fields (without rule_id / timestamps)
+ * @throws {Error} isRuleError with a JSON-pointer path on bad input
+ */
+function parseAlertRule(body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw ruleError('must be an object', '/');
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) throw ruleError('is required', '/name');
+
+  const type = body.type ?? 'conditions';
+  if (!RULE_TYPES.includes(type)) throw ruleError(`must be one of: ${RULE_TYPES.join(', ')}`, '/type');
+
+  const severity = body.severity ?? 'high';
+  if (!RULE_SEVERITIES.includes(severity)) throw ruleError(`must be one of: ${RULE_SEVERITIES.join(', ')}`, '/severity');
+
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') throw ruleError('must be a boolean', '/enabled');
+
+  const query = body.query ?? '';
+  if (typeof query !== 'string') throw ruleError('must be a string', '/query');
+  try {
+    compileQuery(query);
+  } catch (error) {
+    if (!error.isQueryError) throw error;
+    throw ruleError(error.message, '/query');
+  }
+  if (type === 'conditions' && !query.trim()) throw ruleError('is required for conditions rules', '/query');
+
+  let threshold = 0;
+  let window = 'batch';
+  if (type === 'threshold') {
+    threshold = body.threshold;
+    if (!Number.isInteger(threshold) || threshold < 1) throw ruleError('must be an integer >= 1', '/threshold');
+    window = body.window ?? 'batch';
+    if (!RULE_WINDOWS.includes(window)) throw ruleError(`must be one of: ${RULE_WINDOWS.join(', ')}`, '/window');
+  }
+
+  const suppressMinutes = body.suppress_minutes ?? DEFAULT_SUPPRESS_MINUTES;
+  if (!Number.isInteger(suppressMinutes) || suppressMinutes < 0 || suppressMinutes > MAX_SUPPRESS_MINUTES) {
+    throw ruleError(`must be an integer between 0 and ${MAX_SUPPRESS_MINUTES}`, '/suppress_minutes');
+  }
+
+  let groupBy = null;
+  let prefix = null;
+  if (body.group_by !== undefined && body.group_by !== null && body.group_by !== '') {
+    let resolved;
+    try {
+      resolved = resolveField(String(body.group_by));
+    } catch (error) {
+      throw ruleError(error.message, '/group_by');
+    }
+    groupBy = String(body.group_by);
+    if (body.prefix !== undefined && body.prefix !== null) {
+      if (resolved.kind !== 'ip') throw ruleError('only applies to IP fields', '/prefix');
+      if (!Number.isInteger(body.prefix) || body.prefix < 8 || body.prefix > 32) throw ruleError('must be an integer between 8 and 32', '/prefix');
+      prefix = body.prefix;
+    }
+  }
+
+  return {
+    name,
+    description: typeof body.description === 'string' ? body.description.trim() : '',
+    enabled: body.enabled ?? true,
+    type,
+    severity,
+    query: query.trim(),
+    threshold,
+    window,
+    group_by: groupBy,
+    prefix,
+    suppress_minutes: suppressMinutes
+  };
+}
+
+// ============================================================
+// EVALUATION
+// ============================================================
+
+function isTrue(value) {
+  return value === true || String(value).toUpperCase() === 'TRUE';
+}
+
+function isFalse(value) {
+  return value === false || String(value).toUpperCase() === 'FALSE';
+}
+
+/**
+ * Whether the AI analysis of a result is at odds with itself
+ * @param {object} result - ThreatData
+ */
+function isConsensusConflict(result) {
+  if (isTrue(result.conflict_detected) || isFalse(result.ai_agreement)) return true;
+  const classification = result.consensus_classification;
+  if (classification === 'UNKNOWN') return true;
+  if (typeof result.is_malicious !== 'boolean') return false;
+  return (classification === 'TRUE_POSITIVE' && !result.is_malicious)
+    || (classification === 'FALSE_POSITIVE' && result.is_malicious);
+}
+
+// 10.0.5.77 with prefix 24 -> 10.0.5.0/24; non-IPv4 values are kept as-is
+function maskIpv4(value, prefix) {
+  const parts = String(value).trim().split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return String(value).trim();
+  }
+  const address = parts.reduce((acc, part) => acc * 256 + Number(part), 0);
+  const network = address - (address % 2 ** (32 - prefix));
+  const octets = [24, 16, 8, 0].map(shift => Math.floor(network / 2 ** shift) % 256);
+  return `${octets.join('.')}/${prefix}`;
+}
+
+/**
+ * Compile a rule into a predicate and a grouping function
+ * @param {object} rule
+ * @returns {{matches: Function, groupOf: Function}}
+ */
+function compileRule(rule) {
+  const query = compileQuery(rule.query);
+  const matches = rule.type === 'conflict'
+    ? result => isConsensusConflict(result) && query(result)
+    : query;
+
+  if (!rule.group_by) return { matches, groupOf: () => null };
+
+  const { field } = resolveField(rule.group_by);
+  const groupOf = result => {
+    const value = result[field];
+    if (value === undefined || value === null || value === '') return undefined;
+    return rule.prefix ? maskIpv4(value, rule.prefix) : String(value);
+  };
+  return { matches, groupOf };
+}
+
+function groupMatches(compiled, results) {
+  const groups = new Map();
+  for (const result of results) {
+    if (!compiled.matches(result)) continue;
+    const group = compiled.groupOf(result);
+    if (group === undefined) continue;
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group).push(result);
+  }
+  return groups;
+}
+
+/**
+ * Groups for which a rule fires on a batch
+ * @param {object} rule
+ * @param {object} compiled - From compileRule
+ * @param {Array} batchResults - The new batch
+ * @param {Array} [previousResults] - Everything stored for the run before this batch
+ *   (only read by run-wide thresholds)
+ * @returns {Array<{group: string|null, count: number, results: Array}>}
+ */
+function evaluateRule(rule, compiled, batchResults, previousResults = []) {
+  const current = groupMatches(compiled, batchResults);
+  const hits = [];
+
+  if (rule.type === 'threshold' && rule.window === 'execution') {
+    const before = groupMatches(compiled, previousResults);
+    for (const [group, results] of current) {
+      const previous = before.has(group) ? before.get(group).length : 0;
+      const count = previous + results.length;
+      if (previous <= rule.threshold && count > rule.threshold) {
+        hits.push({ group, count, results });
+      }
+    }
+    return hits;
+  }
+
+  for (const [group, results] of current) {
+    if (results.length > rule.threshold) hits.push({ group, count: results.length, results });
+  }
+  return hits;
+}
+
+function describeHit(rule, hit, batchNumber) {
+  const scope = hit.group !== null ? ` for ${rule.group_by} ${hit.group}` : '';
+  const where = rule.window === 'execution' ? 'this run' : `batch ${batchNumber}`;
+  const results = `${hit.count} result${hit.count === 1 ? '' : 's'}`;
+  switch (rule.type) {
+    case 'threshold':
+      return `${results}${scope} in ${where} (more than ${rule.threshold})`;
+    case 'conflict':
+      return `${results}${scope} in ${where} with conflicting AI verdicts`;
+    default:
+      return `${results}${scope} in ${where} matched the rule`;
+  }
+}
+
+// Repeats of the same key fold into one alert while it is suppressed
+function alertKey(rule, group) {
+  return `${rule.rule_id}:${group === null ? '*' : group}`;
+}
+
+/**
+ * Alert record for one rule hit
+ */
+function toAlert(rule, hit, { executionId, batchNumber }) {
+  const now = new Date().toISOString();
+  return {
+    alert_id: crypto.randomUUID(),
+    key: alertKey(rule, hit.group),
+    rule_id: rule.rule_id,
+    rule_name: rule.name,
+    rule_type: rule.type,
+    severity: rule.severity,
+    title: rule.name,
+    message: describeHit(rule, hit, batchNumber),
+    details: rule.query || null,
+    execution_id: executionId,
+    batch_number: batchNumber,
+    group_by: rule.group_by,
+    group: hit.group,
+    match_count: hit.count,
+    sample_ids: hit.results.slice(0, MAX_SAMPLE_IDS).map(result => result._unique_id).filter(Boolean),
+    execution_ids: [executionId],
+    occurrences: 1,
+    status: 'open',
+    snoozed_until: null,
+    resolution: null,
+    history: [{ action: 'raised', status: 'open', analyst: null, at: now }],
+    created_at: now,
+    last_seen_at: now
+  };
+}
+
+/**
+ * An alert as it reads now - a snooze that has run out is open again
+ * @param {object} alert
+ * @param {number} [now] - Epoch ms
+ */
+function withCurrentStatus(alert, now = Date.now()) {
+  if (alert.status !== 'snoozed' || Date.parse(alert.snoozed_until) > now) return alert;
+  return { ...alert, status: 'open', snoozed_until: null };
+}
+
+/**
+ * Fold a repeat hit into a suppressed alert
+ */
+function foldAlert(alert, rule, hit, { executionId, batchNumber }) {
+  const sampleIds = [...alert.sample_ids];
+  for (const result of hit.results) {
+    if (sampleIds.length >= MAX_SAMPLE_IDS) break;
+    if (result._unique_id && !sampleIds.includes(result._unique_id)) sampleIds.push(result._unique_id);
+  }
+  return {
+    ...withCurrentStatus(alert),
+    severity: rule.severity,
+    message: describeHit(rule, hit, batchNumber),
+    match_count: alert.match_count + hit.count,
+    sample_ids: sampleIds,
+    execution_ids: alert.execution_ids.includes(executionId) ? alert.execution_ids : [...alert.execution_ids, executionId],
+    execution_id: executionId,
+    batch_number: batchNumber,
+    occurrences: alert.occurrences + 1,
+    last_seen_at: new Date().toISOString()
+  };
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+/**
+ * @param {object} deps
+ * @param {object} deps.store - Execution store (holds rules and alerts)
+ */
+function createAlertEngine({ store }) {
+  // Compiled rules, rebuilt when a rule's updated_at changes
+  const compiledRules = new Map();
+
+  function compiledFor(rule) {
+    const cached = compiledRules.get(rule.rule_id);
+    if (cached && cached.updatedAt === rule.updated_at) return cached.compiled;
+    const compiled = compileRule(rule);
+    compiledRules.set(rule.rule_id, { updatedAt: rule.updated_at, compiled });
+    return compiled;
+  }
+
+  // Latest unresolved alert for a key, if the rule still suppresses repeats of it
+  function suppressingAlert(rule, key) {
+    if (!rule.suppress_minutes) return null;
+    const cutoff = Date.now() - rule.suppress_minutes * 60 * 1000;
+    return store.listAlerts()
+      .filter(alert => alert.key === key && alert.status !== 'resolved' && Date.parse(alert.last_seen_at) >= cutoff)
+      .sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at))[0] || null;
+  }
+
+  /**
+   * Run every enabled rule over a freshly stored batch and persist the alerts
+   * @param {string} executionId
+   * @param {Array} batchResults
+   * @param {object} context
+   * @param {number} context.batchNumber
+   * @param {number} context.offset - Stored results before this batch
+   * @returns {Array<{alert: object, folded: boolean}>} New and folded alerts
+   */
+  function evaluate(executionId, batchResults, { batchNumber, offset }) {
+    const rules = store.listAlertRules().filter(rule => rule.enabled);
+    if (rules.length === 0 || batchResults.length === 0) return [];
+
+    let previousResults = null;
+    const alerts = [];
+    for (const rule of rules) {
+      if (rule.type === 'threshold' && rule.window === 'execution' && previousResults === null) {
+        previousResults = store.getResults(executionId).slice(0, offset);
+      }
+      const hits = evaluateRule(rule, compiledFor(rule), batchResults, previousResults || []);
+      for (const hit of hits) {
+        const context = { executionId, batchNumber };
+        const suppressed = suppressingAlert(rule, alertKey(rule, hit.group));
+        const alert = suppressed ? foldAlert(suppressed, rule, hit, context) : toAlert(rule, hit, context);
+        alerts.push({ alert: store.putAlert(alert.alert_id, alert), folded: !!suppressed });
+      }
+    }
+    return alerts;
+  }
+
+  /**
+   * Replay a stored run through a rule without saving anything - what the
+   * rule would have raised had it existed when the batches arrived (every
+   * firing, before suppression)
+   * @param {object} rule - Parsed rule (see parseAlertRule)
+   * @param {string} executionId
+   * @returns {Array} Alerts, unsaved
+   */
+  function preview(rule, executionId) {
+    const draft = { rule_id: null, ...rule };
+    const compiled = compileRule(draft);
+    const results = store.getResults(executionId);
+    const alerts = [];
+    let offset = 0;
+    for (const batch of store.getBatches(executionId)) {
+      const batchResults = results.slice(offset, offset + batch.results_count);
+      evaluateRule(draft, compiled, batchResults, results.slice(0, offset))
+        .forEach(hit => alerts.push(toAlert(draft, hit, { executionId, batchNumber: batch.batch_number })));
+      offset += batch.results_count;
+    }
+    return alerts;
+  }
+
+  function forget(ruleId) {
+    compiledRules.delete(ruleId);
+  }
+
+  return { evaluate, preview, forget };
+}
+
+module.exports = {
+  createAlertEngine,
+  parseAlertRule,
+  isConsensusConflict,
+  withCurrentStatus,
+  ALERT_STATUSES,
+  RULE_TYPES,
+  RULE_SEVERITIES,
+  RULE_WINDOWS
+};
@@ -0,0 +1,126 @@
+/**
+ * Batch Assembler
+ *
+ * n8n splits large batches across several callbacks (part_number /
+ * total_parts) so no single request hits the body limit. Parts are buffered
+ * here per execution and batch_number, and handed back as one batch once
+ * every part has arrived - in part order, whatever order they came in.
+ *
+ * Parts are kept in memory only: a restart drops half-received batches,
+ * which then show up as missing in the batch report until n8n retries them.
+ */
+
+// Forget half-received batches after this long
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * @param {object} [options]
+ * @param {number} [options.ttlMs] - How long to keep an incomplete batch's parts
+ */
+function createBatchAssembler(options = {}) {
+  const ttlMs = options.ttlMs || DEFAULT_TTL_MS;
+  const pending = new Map();
+
+  function keyOf(executionId, batchNumber) {
+    return `${executionId}:${batchNumber}`;
+  }
+
+  function prune() {
+    const cutoff = Date.now() - ttlMs;
+    for (const [key, entry] of pending) {
+      if (entry.updatedAt < cutoff) pending.delete(key);
+    }
+  }
+
+  /**
+   * Join buffered parts into a single batch_completed payload
+   * @returns {object} The first part's payload with every part's batch_results,
+   *   plus parts_received / total_parts
+   */
+  function assemble(entry) {
+    const partNumbers = [...entry.parts.keys()].sort((a, b) => a - b);
+    const first = entry.parts.get(partNumbers[0]);
+    const { part_number, ...payload } = first;
+
+    return {
+      ...payload,
+      batch_results: partNumbers.flatMap(partNumber => entry.parts.get(partNumber).batch_results),
+      parts_received: partNumbers.length,
+      total_parts: entry.totalParts
+    };
+  }
+
+  /**
+   * Buffer one part of a batch
+   * @param {object} data - Validated batch_completed payload
+   * @returns {object} One of:
+   *   { status: 'complete', payload }   - every part is in, payload holds the whole batch
+   *   { status: 'pending', parts_received, total_parts }
+   *   { status: 'duplicate' }           - this part was already buffered
+   *   { status: 'invalid', message }    - part_number / total_parts don't add up
+   */
+  function addPart(data) {
+    prune();
+
+    const partNumber = data.part_number || 1;
+    const totalParts = data.total_parts || 1;
+
+    if (partNumber > totalParts) {
+      return { status: 'invalid', message: `part_number ${partNumber} exceeds total_parts ${totalParts}` };
+    }
+
+    // Single-part batches skip the buffer entirely
+    if (totalParts === 1) {
+      const { part_number, ...payload } = data;
+      return { status: 'complete', payload: { ...payload, parts_received: 1, total_parts: 1 } };
+    }
+
+    const key = keyOf(data.execution_id, data.batch_number);
+    let entry = pending.get(key);
+    if (!entry) {
+      entry = { executionId: data.execution_id, totalParts, parts: new Map(), updatedAt: Date.now() };
+      pending.set(key, entry);
+    }
+
+    if (entry.totalParts !== totalParts) {
+      return {
+        status: 'invalid',
+        message: `total_parts ${totalParts} does not match earlier parts of batch ${data.batch_number} (${entry.totalParts})`
+      };
+    }
+    if (entry.parts.has(partNumber)) {
+      return { status: 'duplicate' };
+    }
+
+    entry.parts.set(partNumber, data);
+    entry.updatedAt = Date.now();
+
+    if (entry.parts.size < totalParts) {
+      return { status: 'pending', parts_received: entry.parts.size, total_parts: totalParts };
+    }
+
+    pending.delete(key);
+    return { status: 'complete', payload: assemble(entry) };
+  }
+
+  /**
+   * Hand back every half-received batch of an execution and forget it -
+   * used when n8n reports completion, so those batches are stored as
+   * truncated instead of silently disappearing
+   * @param {string} executionId - n8n execution id
+   * @returns {Array} Assembled payloads with parts_received < total_parts
+   */
+  function flush(executionId) {
+    const flushed = [];
+    for (const [key, entry] of pending) {
+      if (entry.executionId !== executionId) continue;
+      flushed.push(assemble(entry));
+      pending.delete(key);
+    }
+    return flushed.sort((a, b) => a.batch_number - b.batch_number);
+  }
+
+  return { addPart, flush };
+}
+
+module.exports = { createBatchAssembler };
@@ -0,0 +1,54 @@
+/**
+ * Batch Report
+ *
+ * Which batches of an execution arrived, which are missing, which were
+ * delivered more than once or after the run completed, and which were
+ * stored with fewer results than their summary counted. Batches are keyed
+ * on batch_number and ordered against total_batches from the callbacks.
+ */
+
+/**
+ * Build the gap report for an execution
+ * @param {object} execution - Stored execution record
+ * @param {Array} batches - Stored batch records (any order)
+ * @returns {object} { total_batches, received_batches, missing_batches,
+ *   late_batches, truncated_batches, missing_items, duplicate_deliveries, is_complete }
+ */
+function computeBatchReport(execution, batches) {
+  const config = execution.config || {};
+  const received = batches.map(batch => batch.batch_number).sort((a, b) => a - b);
+  const totalBatches = batches.length > 0
+    ? Math.max(...batches.map(batch => batch.total_batches || 0))
+    : (config.expected_total_batches ?? null);
+
+  // While running, only holes below the highest batch seen are gaps - later
+  // batches may still be on their way. Once n8n reports completion, every
+  // batch up to total_batches is expected.
+  const hasFinished = execution.status === 'completed' || execution.status === 'incomplete';
+  const expectedUpTo = hasFinished ? (totalBatches || 0) : (received[received.length - 1] || 0);
+  const receivedSet = new Set(received);
+  const missing = [];
+  for (let batchNumber = 1; batchNumber <= expectedUpTo; batchNumber++) {
+    if (!receivedSet.has(batchNumber)) missing.push(batchNumber);
+  }
+
+  // Batches stored short of their summary's total_items, or missing parts
+  const truncated = batches.filter(batch => batch.truncated);
+  const missingItems = truncated.reduce(
+    (sum, batch) => sum + Math.max((batch.expected_items || 0) - batch.results_count, 0),
+    0
+  );
+
+  return {
+    total_batches: totalBatches,
+    received_batches: received,
+    missing_batches: missing,
+    late_batches: batches.filter(batch => batch.late).map(batch => batch.batch_number),
+    truncated_batches: truncated.map(batch => batch.batch_number).sort((a, b) => a - b),
+    missing_items: missingItems,
+    duplicate_deliveries: execution.duplicate_deliveries || 0,
+    is_complete: hasFinished && missing.length === 0 && truncated.length === 0
+  };
+}
+
+module.exports = { computeBatchReport };
@@ -0,0 +1,135 @@
+/**
+ * Callback Authentication
+ *
+ * Verifies HMAC-SHA256 signatures on n8n callbacks and rejects replays of
+ * callbacks that were already processed. A signature is only recorded once its
+ * callback succeeds, so n8n can retry one that failed validation or hit a 5xx.
+ * A replayed batch that is already stored passes through to the batch dedupe,
+ * which answers it with the usual duplicate 200.
+ *
+ * n8n signs `${timestamp}.${rawBody}` with the workflow's shared secret and sends:
+ *   X-DeepSoul-Timestamp: <unix seconds>
+ *   X-DeepSoul-Signature: sha256=<hex digest>
+ *   X-Workflow-ID:        <workflow id>   (selects the secret)
+ *
+ * Once an execution has a recorded workflow_id, that id selects the secret
+ * and a callback claiming another workflow (header or body) is rejected, so
+ * one workflow's secret can't sign results into another workflow's run.
+ *
+ * Secrets come from CALLBACK_SECRETS (JSON map of workflow id -> secret)
+ * with CALLBACK_SECRET as the fallback for any workflow.
+ */
+
+const crypto = require('crypto');
+const { sendError } = require('./http');
+
+const SIGNATURE_HEADER = 'x-deepsoul-signature';
+const TIMESTAMP_HEADER = 'x-deepsoul-timestamp';
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+function loadSecrets(env = process.env) {
+  let perWorkflow = {};
+  if (env.CALLBACK_SECRETS) {
+    try {
+      perWorkflow = JSON.parse(env.CALLBACK_SECRETS);
+    } catch (error) {
+      throw new Error('CALLBACK_SECRETS must be a JSON object of workflow id -> secret');
+    }
+  }
+  return { perWorkflow, fallback: env.CALLBACK_SECRET || null };
+}
+
+function sign(secret, timestamp, rawBody) {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+function safeEqual(a, b) {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Build Express middleware that verifies signed callbacks
+ * Requires req.rawBody (see express.json verify option in server.js)
+ * @param {object} [options]
+ * @param {object} [options.secrets] - { perWorkflow, fallback } (defaults to env)
+ * @param {object} [options.store] - Execution store, for each run's recorded workflow_id
+ * @param {number} [options.toleranceSeconds] - Max clock skew / replay window
+ */
+function createCallbackVerifier(options = {}) {
+  const { perWorkflow, fallback } = options.secrets || loadSecrets();
+  const { store } = options;
+  const toleranceSeconds = options.toleranceSeconds || DEFAULT_TOLERANCE_SECONDS;
+  const enabled = !!fallback || Object.keys(perWorkflow).length > 0;
+
+  // Signatures of processed callbacks inside the tolerance window -> expiry (ms)
+  const seenSignatures = new Map();
+
+  function pruneSeen(now) {
+    for (const [signature, expiresAt] of seenSignatures) {
+      if (expiresAt <= now) seenSignatures.delete(signature);
+    }
+  }
+
+  function verifyCallback(req, res, next) {
+    if (!enabled) return next();
+
+    const body = req.body || {};
+    const claimedIds = [req.get('X-Workflow-ID'), body.workflow_id]
+      .filter(id => id !== undefined && id !== null && id !== '')
+      .map(String);
+    const execution = store && body.execution_id !== undefined ? store.getExecution(String(body.execution_id)) : null;
+    const recordedId = execution && execution.workflow_id ? String(execution.workflow_id) : null;
+
+    if (new Set(claimedIds).size > 1 || (recordedId && claimedIds.some(id => id !== recordedId))) {
+      return sendError(res, 401, `Workflow ID does not match execution: ${body.execution_id}`);
+    }
+
+    const workflowId = recordedId || claimedIds[0];
+    const secret = (workflowId && perWorkflow[workflowId]) || fallback;
+    if (!secret) {
+      return sendError(res, 401, `No callback secret configured for workflow: ${workflowId || 'unknown'}`);
+    }
+
+    const signature = req.get(SIGNATURE_HEADER);
+    const timestamp = req.get(TIMESTAMP_HEADER);
+    if (!signature || !timestamp) {
+      return sendError(res, 401, 'Missing callback signature headers');
+    }
+
+    const now = Date.now();
+    const timestampSeconds = parseInt(timestamp, 10);
+    if (!Number.isFinite(timestampSeconds) || Math.abs(now / 1000 - timestampSeconds) > toleranceSeconds) {
+      return sendError(res, 401, 'Callback timestamp outside the allowed window');
+    }
+
+    const expected = sign(secret, timestamp, req.rawBody ? req.rawBody.toString('utf8') : '');
+    if (!safeEqual(signature, expected)) {
+      return sendError(res, 401, 'Invalid callback signature');
+    }
+
+    pruneSeen(now);
+    if (seenSignatures.has(signature)) {
+      // n8n retrying a batch whose 200 it never saw gets the same duplicate
+      // answer as an unsigned re-delivery, not an error
+      const storedBatch = store && body.status === 'batch_completed' && execution
+        && store.getBatch(execution.execution_id, body.batch_number);
+      if (storedBatch) return next();
+      return sendError(res, 409, 'Replayed callback rejected');
+    }
+
+    res.on('finish', () => {
+      if (res.statusCode >= 200 && res.statusCode < 300) {
+        seenSignatures.set(signature, now + toleranceSeconds * 1000);
+      }
+    });
+
+    next();
+  }
+
+  verifyCallback.enabled = enabled;
+  return verifyCallback;
+}
+
+module.exports = { createCallbackVerifier, sign, SIGNATURE_HEADER, TIMESTAMP_HEADER };
@@ -0,0 +1,98 @@
+/**
+ * Callback Schema Validation
+ *
+ * Validates n8n callback payloads and run configs against
+ * shared/callback.schema.json - the same schema the frontend generates
+ * its TypeScript types from.
+ *
+ * Payloads are normalized in place before handlers see them:
+ *   - numeric/boolean fields sent as strings are coerced ("85" -> 85, "FALSE" -> false)
+ *   - empty or null enrichment fields are dropped instead of becoming 0
+ *   - missing batch_results default to [] (missing summary counts stay missing)
+ */
+
+const Ajv = require('ajv');
+const schema = require('../../shared/callback.schema.json');
+const { sendError } = require('./http');
+
+// Non-string ThreatData fields - the ones n8n may send as "" / null / "TRUE"
+const TYPED_RESULT_FIELDS = Object.entries(schema.definitions.ThreatData.properties)
+  .filter(([, property]) => property.type !== 'string')
+  .map(([name, property]) => [name, property.type]);
+
+function normalizeResult(result) {
+  if (!result || typeof result !== 'object') return;
+
+  for (const [field, type] of TYPED_RESULT_FIELDS) {
+    const value = result[field];
+    if (value === null || value === '') {
+      delete result[field];
+    } else if (type === 'boolean' && typeof value === 'string') {
+      result[field] = value.toLowerCase();
+    }
+  }
+}
+
+function isDateTime(value) {
+  return !Number.isNaN(Date.parse(value));
+}
+
+function createAjv() {
+  const ajv = new Ajv({ allErrors: true, coerceTypes: true, useDefaults: true, strict: false });
+  ajv.addFormat('date-time', isDateTime);
+  return ajv;
+}
+
+function formatErrors(validationErrors) {
+  // The root and the per-status branches can report the same failure twice
+  const errors = new Map();
+  for (const error of validationErrors) {
+    if (error.keyword === 'if') continue;
+    const path = error.instancePath || '/';
+    errors.set(`${path} ${error.message}`, { path, message: error.message });
+  }
+  return [...errors.values()];
+}
+
+/**
+ * Build Express middleware that validates and normalizes req.body
+ * Responds 400 with a list of { path, message } errors on failure
+ */
+function createCallbackValidator() {
+  const validate = createAjv().compile(schema);
+
+  function validateCallback(req, res, next) {
+    const data = req.body;
+
+    if (data && Array.isArray(data.batch_results)) {
+      data.batch_results.forEach(normalizeResult);
+    }
+
+    if (!validate(data)) {
+      return sendError(res, 400, 'Invalid callback payload', { errors: formatErrors(validate.errors) });
+    }
+
+    next();
+  }
+
+  return validateCallback;
+}
+
+/**
+ * Build Express middleware that validates a WorkflowConfig body (POST /executions)
+ * Coerces numeric strings and fills the default csv_path
+ */
+function createWorkflowConfigValidator() {
+  const validate = createAjv().compile(schema.definitions.WorkflowConfig);
+
+  function validateWorkflowConfig(req, res, next) {
+    if (!validate(req.body)) {
+      return sendError(res, 400, 'Invalid workflow config', { errors: formatErrors(validate.errors) });
+    }
+    next();
+  }
+
+  return validateWorkflowConfig;
+}
+
+module.exports = { createCallbackValidator, createWorkflowConfigValidator };
@@ -0,0 +1,262 @@
+/**
+ * Cases
+ *
+ * Analysts group related results into a case to triage them together.
+ * Results are attached either by `_unique_id` or by source IP (every
+ * result of a run from that address); results without a `_unique_id` are
+ * referenced as `<execution_id>:<index>`, like the exporters do.
+ *
+ * A case has a status (new -> investigating -> contained -> closed), an
+ * assignee, a priority - seeded from the highest escalation_priority of
+ * the results it was opened with - and a timeline of notes, attachments
+ * and changes, each stamped with the analyst who made it.
+ */
+
+const crypto = require('crypto');
+
+const CASE_STATUSES = ['new', 'investigating', 'contained', 'closed'];
+const CASE_PRIORITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+const DEFAULT_PRIORITY = 'MEDIUM';
+const MAX_CASE_EVENTS = 1000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_NOTE_LENGTH = 10000;
+
+function caseError(message, path) {
+  const error = new Error(message);
+  error.isCaseError = true;
+  error.path = path;
+  return error;
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+function parseAnalyst(value) {
+  if (value === undefined || value === null) return null;
+  return String(value).trim() || null;
+}
+
+function parseTitle(value) {
+  if (typeof value !== 'string') throw caseError('must be a string', '/title');
+  const title = value.trim();
+  if (title.length > MAX_TITLE_LENGTH) throw caseError(`must be at most ${MAX_TITLE_LENGTH} characters`, '/title');
+  return title;
+}
+
+function parsePriority(value) {
+  const priority = String(value).toUpperCase();
+  if (!CASE_PRIORITIES.includes(priority)) throw caseError(`must be one of: ${CASE_PRIORITIES.join(', ')}`, '/priority');
+  return priority;
+}
+
+/**
+ * Validate which results to attach: { execution_id, unique_ids } or
+ * { execution_id, src_ip }
+ * @returns {{executionId: string, uniqueIds: string[]|null, srcIp: string|null}}
+ * @throws {Error} isCaseError with a JSON-pointer path on bad input
+ */
+function parseEventSelector(body) {
+  const executionId = body.execution_id;
+  if (typeof executionId !== 'string' || !executionId) throw caseError('is required', '/execution_id');
+
+  const hasIds = body.unique_ids !== undefined && body.unique_ids !== null;
+  const hasIp = body.src_ip !== undefined && body.src_ip !== null && body.src_ip !== '';
+  if (hasIds === hasIp) throw caseError('give either unique_ids or src_ip', '/');
+
+  if (hasIds) {
+    const ids = body.unique_ids;
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string' || !id)) {
+      throw caseError('must be a non-empty array of ids', '/unique_ids');
+    }
+    return { executionId, uniqueIds: Array.from(new Set(ids)), srcIp: null };
+  }
+
+  if (typeof body.src_ip !== 'string') throw caseError('must be a string', '/src_ip');
+  return { executionId, uniqueIds: null, srcIp: body.src_ip.trim() };
+}
+
+/**
+ * Validate the body of POST /cases
+ * @param {object} body - { execution_id, unique_ids | src_ip, title?, assignee?, priority?, note?, analyst? }
+ * @throws {Error} isCaseError with a JSON-pointer path on bad input
+ */
+function parseNewCase(body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw caseError('must be an object', '/');
+  }
+
+  const note = body.note === undefined || body.note === null ? '' : parseNoteText(body.note, '/note');
+
+  return {
+    selector: parseEventSelector(body),
+    title: body.title === undefined || body.title === null ? '' : parseTitle(body.title),
+    assignee: parseAnalyst(body.assignee),
+    priority: body.priority === undefined || body.priority === null ? null : parsePriority(body.priority),
+    note,
+    analyst: parseAnalyst(body.analyst)
+  };
+}
+
+/**
+ * Validate the body of PATCH /cases/:id
+ * @param {object} body - Any of { status, assignee, priority, title }, plus analyst
+ * @returns {{changes: object, analyst: string|null}} Only the fields that were given
+ * @throws {Error} isCaseError with a JSON-pointer path on bad input
+ */
+function parseCaseUpdate(body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw caseError('must be an object', '/');
+  }
+
+  const changes = {};
+  if (body.status !== undefined) {
+    if (!CASE_STATUSES.includes(body.status)) throw caseError(`must be one of: ${CASE_STATUSES.join(', ')}`, '/status');
+    changes.status = body.status;
+  }
+  if (body.assignee !== undefined) changes.assignee = parseAnalyst(body.assignee);
+  if (body.priority !== undefined) changes.priority = parsePriority(body.priority);
+  if (body.title !== undefined) {
+    changes.title = parseTitle(body.title);
+    if (!changes.title) throw caseError('must not be empty', '/title');
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw caseError('must change at least one of: status, assignee, priority, title', '/');
+  }
+
+  return { changes, analyst: parseAnalyst(body.analyst) };
+}
+
+function parseNoteText(value, path = '/text') {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) throw caseError('is required', path);
+  if (text.length > MAX_NOTE_LENGTH) throw caseError(`must be at most ${MAX_NOTE_LENGTH} characters`, path);
+  return text;
+}
+
+// ============================================================
+// EVENTS
+// ============================================================
+
+function eventIdOf(result, executionId, index) {
+  return result._unique_id || `${executionId}:${index}`;
+}
+
+/**
+ * Pick the results of a run a selector refers to
+ * @param {Array} results - ThreatData records of the execution
+ * @param {object} selector - From parseEventSelector
+ * @returns {Array<{eventId: string, result: object}>}
+ * @throws {Error} isCaseError when nothing matches or too much does
+ */
+function selectEvents(results, selector) {
+  const { executionId, uniqueIds, srcIp } = selector;
+  const wanted = uniqueIds ? new Set(uniqueIds) : null;
+
+  const selected = [];
+  results.forEach((result, index) => {
+    const eventId = eventIdOf(result, executionId, index);
+    const matches = wanted
+      ? wanted.has(eventId)
+      : String(result['Source IP Address'] ?? '').trim() === srcIp;
+    if (matches) selected.push({ eventId, result });
+  });
+
+  const path = uniqueIds ? '/unique_ids' : '/src_ip';
+  if (selected.length === 0) throw caseError(`matches no results of execution ${executionId}`, path);
+  if (wanted && selected.length < wanted.size) {
+    const found = new Set(selected.map(event => event.eventId));
+    const missing = uniqueIds.filter(id => !found.has(id));
+    throw caseError(`not found in execution ${executionId}: ${missing.slice(0, 5).join(', ')}`, path);
+  }
+  if (selected.length > MAX_CASE_EVENTS) throw caseError(`matches ${selected.length} results, more than ${MAX_CASE_EVENTS}`, path);
+
+  return selected;
+}
+
+/**
+ * The summary of a result kept on the case - enough for the case list;
+ * the detail view joins the full record back from the store
+ */
+function toCaseEvent(executionId, { eventId, result }, analyst, at) {
+  return {
+    event_id: eventId,
+    execution_id: executionId,
+    timestamp: result.Timestamp ?? null,
+    src_ip: result['Source IP Address'] ?? null,
+    dst_ip: result['Destination IP Address'] ?? null,
+    attack_type: result['Attack Type'] ?? null,
+    escalation_priority: result.escalation_priority ?? null,
+    final_risk_score: result.final_risk_score ?? null,
+    consensus_classification: result.consensus_classification ?? null,
+    attached_at: at,
+    attached_by: analyst
+  };
+}
+
+function eventKey(event) {
+  return `${event.execution_id}/${event.event_id}`;
+}
+
+// Highest escalation_priority among the events, MEDIUM when none is set
+function seedPriority(events) {
+  const priorities = events.map(event => String(event.escalation_priority || '').toUpperCase());
+  return CASE_PRIORITIES.find(priority => priorities.includes(priority)) || DEFAULT_PRIORITY;
+}
+
+function defaultTitle(selector, events) {
+  if (selector.srcIp) return `Activity from ${selector.srcIp}`;
+  const first = events[0];
+  const subject = first.attack_type || 'Threat';
+  const origin = first.src_ip ? ` from ${first.src_ip}` : '';
+  return events.length === 1 ? `${subject}${origin}` : `${subject}${origin} and ${events.length - 1} more`;
+}
+
+// ============================================================
+// TIMELINE
+// ============================================================
+
+function timelineEntry(type, analyst, fields = {}) {
+  return {
+    entry_id: crypto.randomUUID(),
+    type,
+    analyst,
+    at: new Date().toISOString(),
+    ...fields
+  };
+}
+
+/**
+ * A case without its events and timeline, for the case list
+ */
+function summarizeCase(record) {
+  const { events, timeline, ...rest } = record;
+  const unique = values => Array.from(new Set(values.filter(Boolean)));
+  return {
+    ...rest,
+    event_count: events.length,
+    note_count: timeline.filter(entry => entry.type === 'note').length,
+    source_ips: unique(events.map(event => event.src_ip)),
+    attack_types: unique(events.map(event => event.attack_type)),
+    execution_ids: unique(events.map(event => event.execution_id))
+  };
+}
+
+module.exports = {
+  parseNewCase,
+  parseCaseUpdate,
+  parseEventSelector,
+  parseNoteText,
+  parseAnalyst,
+  selectEvents,
+  eventIdOf,
+  toCaseEvent,
+  eventKey,
+  seedPriority,
+  defaultTitle,
+  timelineEntry,
+  summarizeCase,
+  CASE_STATUSES,
+  CASE_PRIORITIES
+};
@@ -0,0 +1,156 @@
+/**
+ * Detection Quality Metrics
+ *
+ * Scores the Dual-AI consensus against analyst truth. Every result an analyst
+ * gave a verdict (see lib/verdicts.js) is a labeled sample: the analyst's
+ * verdict is the truth, the stored consensus_classification is the
+ * prediction. TRUE_POSITIVE is the positive class; an AI that said UNKNOWN
+ * (or nothing) is counted as unclassified - wrong for accuracy, a miss for
+ * recall, but not a positive for precision.
+ *
+ * Scores are broken down by Attack Type, enrichment_method and the n8n
+ * pre-filter's _pre_filter_risk_score band, and per execution for tracking
+ * over time.
+ */
+
+const { eventIdOf } = require('./cases');
+
+const POSITIVE = 'TRUE_POSITIVE';
+const NEGATIVE = 'FALSE_POSITIVE';
+const UNKNOWN = 'UNKNOWN';
+
+// Scores of 30 and above are sent for API enrichment by the pre-filter
+const PRE_FILTER_BANDS = [
+  { band: '0-29', max: 29 },
+  { band: '30-59', max: 59 },
+  { band: '60-89', max: 89 },
+  { band: '90+', max: Infinity }
+];
+
+function preFilterBand(score) {
+  const value = Number(score);
+  if (score === undefined || score === null || score === '' || !Number.isFinite(value)) return 'unscored';
+  return PRE_FILTER_BANDS.find(({ max }) => value <= max).band;
+}
+
+/**
+ * Labeled samples of an execution - one per verdict whose result still exists
+ * @returns {Array} { execution_id, event_id, truth, ai, attack_type, enrichment_method, pre_filter_band }
+ */
+function labeledSamples(store, executionId) {
+  const verdicts = new Map(store.getVerdicts(executionId).map(verdict => [verdict.event_id, verdict]));
+  if (verdicts.size === 0) return [];
+
+  const samples = [];
+  store.getResults(executionId).forEach((result, index) => {
+    const eventId = eventIdOf(result, executionId, index);
+    const verdict = verdicts.get(eventId);
+    if (!verdict) return;
+    samples.push({
+      execution_id: executionId,
+      event_id: eventId,
+      truth: verdict.verdict,
+      ai: [POSITIVE, NEGATIVE].includes(result.consensus_classification) ? result.consensus_classification : UNKNOWN,
+      attack_type: result['Attack Type'] || 'Unknown',
+      enrichment_method: result.enrichment_method || 'Unknown',
+      pre_filter_band: preFilterBand(result._pre_filter_risk_score)
+    });
+  });
+  return samples;
+}
+
+const ratio = (numerator, denominator) =>
+  denominator > 0 ? Math.round((numerator / denominator) * 10000) / 10000 : null;
+
+/**
+ * Confusion matrix and scores of a set of samples
+ * Ratios are 0-1 (4 decimals), null when there is nothing to divide by
+ */
+function scoreSamples(samples) {
+  const confusion = {
+    [POSITIVE]: { [POSITIVE]: 0, [NEGATIVE]: 0, [UNKNOWN]: 0 },
+    [NEGATIVE]: { [POSITIVE]: 0, [NEGATIVE]: 0, [UNKNOWN]: 0 }
+  };
+  samples.forEach(sample => { confusion[sample.truth][sample.ai] += 1; });
+
+  const truePositives = confusion[POSITIVE][POSITIVE];
+  const falsePositives = confusion[NEGATIVE][POSITIVE];
+  const trueNegatives = confusion[NEGATIVE][NEGATIVE];
+  const falseNegatives = confusion[POSITIVE][NEGATIVE] + confusion[POSITIVE][UNKNOWN];
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return {
+    labeled: samples.length,
+    confusion, // analyst truth -> AI prediction -> count
+    true_positives: truePositives,
+    false_positives: falsePositives,
+    true_negatives: trueNegatives,
+    false_negatives: falseNegatives,
+    unclassified: confusion[POSITIVE][UNKNOWN] + confusion[NEGATIVE][UNKNOWN],
+    accuracy: ratio(truePositives + trueNegatives, samples.length),
+    precision,
+    recall,
+    f1: precision === null || recall === null || precision + recall === 0
+      ? null
+      : Math.round((2 * precision * recall / (precision + recall)) * 10000) / 10000
+  };
+}
+
+function scoreBy(samples, key, order) {
+  const groups = new Map();
+  samples.forEach(sample => {
+    if (!groups.has(sample[key])) groups.set(sample[key], []);
+    groups.get(sample[key]).push(sample);
+  });
+
+  const rows = [...groups].map(([value, group]) => ({ value, ...scoreSamples(group) }));
+  return order
+    ? rows.sort((a, b) => order.indexOf(a.value) - order.indexOf(b.value))
+    : rows.sort((a, b) => b.labeled - a.labeled || a.value.localeCompare(b.value));
+}
+
+/**
+ * Detection metrics of one or more executions
+ * @param {object} store - Execution store
+ * @param {Array<string>} executionIds - Executions to score, any order
+ * @returns {object} Overall scores, breakdowns and per-execution scores (oldest first)
+ */
+function computeDetectionMetrics(store, executionIds) {
+  const executions = executionIds
+    .map(id => store.getExecution(id))
+    .sort((a, b) => new Date(a.start_time) - new Date(b.start_time));
+
+  const perExecution = executions.map(execution => {
+    const samples = labeledSamples(store, execution.execution_id);
+    return { execution, samples };
+  });
+  const samples = perExecution.flatMap(entry => entry.samples);
+  const totalResults = executions.reduce((sum, execution) => sum + store.countResults(execution.execution_id), 0);
+
+  return {
+    total_results: totalResults,
+    coverage: ratio(samples.length, totalResults),
+    ...scoreSamples(samples),
+    by_attack_type: scoreBy(samples, 'attack_type'),
+    by_enrichment_method: scoreBy(samples, 'enrichment_method'),
+    by_pre_filter_band: scoreBy(samples, 'pre_filter_band', [...PRE_FILTER_BANDS.map(({ band }) => band), 'unscored']),
+    executions: perExecution.map(({ execution, samples: executionSamples }) => {
+      const { confusion, ...scores } = scoreSamples(executionSamples);
+      return {
+        execution_id: execution.execution_id,
+        start_time: execution.start_time,
+        total_results: store.countResults(execution.execution_id),
+        ...scores
+      };
+    })
+  };
+}
+
+module.exports = {
+  computeDetectionMetrics,
+  labeledSamples,
+  scoreSamples,
+  preFilterBand,
+  PRE_FILTER_BANDS
+};
@@ -0,0 +1,145 @@
+/**
+ * Elastic Common Schema Mapping
+ *
+ * Maps ThreatData (CSV-header keys plus the workflow's enrichment fields)
+ * onto ECS 8.x documents for Elasticsearch / OpenSearch data lakes. Fields
+ * ECS has no place for are kept under the `deepsoul.*` custom namespace,
+ * so nothing in a result is lost.
+ */
+
+const { parseTimestamp } = require('./threatQuery');
+
+const ECS_VERSION = '8.11.0';
+
+// ThreatData key -> [ECS field, value type]
+const ECS_FIELD_MAP = {
+  'Timestamp': ['@timestamp', 'date'],
+  'Source IP Address': ['source.ip', 'ip'],
+  'Destination IP Address': ['destination.ip', 'ip'],
+  'Source Port': ['source.port', 'long'],
+  'Destination Port': ['destination.port', 'long'],
+  'Protocol': ['network.transport', 'lowercase'],
+  'Packet Length': ['network.bytes', 'long'],
+  'Packet Type': ['deepsoul.packet_type', 'keyword'],
+  'Traffic Type': ['network.protocol', 'lowercase'],
+  'Payload Data': ['deepsoul.payload', 'keyword'],
+  'Malware Indicators': ['deepsoul.malware_indicators', 'keyword'],
+  'Anomaly Scores': ['deepsoul.anomaly_score', 'float'],
+  'Alerts/Warnings': ['deepsoul.alerts', 'keyword'],
+  'Attack Type': ['rule.category', 'keyword'],
+  'Attack Signature': ['rule.name', 'keyword'],
+  'Action Taken': ['event.action', 'lowercase'],
+  'Severity Level': ['log.level', 'lowercase'],
+  'Log Source': ['observer.type', 'lowercase'],
+  'User Information': ['user.name', 'keyword'],
+  'Device Information': ['user_agent.original', 'keyword'],
+  'Network Segment': ['network.name', 'keyword'],
+  'Geo-location Data': ['source.geo.name', 'keyword'],
+  'Proxy Information': ['deepsoul.proxy', 'keyword'],
+  'Firewall Logs': ['deepsoul.firewall_log', 'keyword'],
+  'IDS/IPS Alerts': ['deepsoul.ids_alert', 'keyword'],
+  final_risk_score: ['event.risk_score', 'float'],
+  escalation_priority: ['deepsoul.escalation_priority', 'keyword'],
+  consensus_classification: ['deepsoul.classification', 'keyword'],
+  consensus_confidence: ['deepsoul.consensus_confidence', 'float'],
+  is_malicious: ['deepsoul.is_malicious', 'boolean'],
+  _unique_id: ['event.id', 'keyword']
+};
+
+// escalation_priority -> ECS event.severity (numeric, higher is worse)
+const EVENT_SEVERITY = { LOW: 1, MEDIUM: 2, HIGH: 3, CRITICAL: 4 };
+
+function convert(value, type) {
+  switch (type) {
+    case 'date': {
+      const time = parseTimestamp(value);
+      return time === null ? undefined : new Date(time).toISOString();
+    }
+    case 'long': {
+      const number = parseInt(value, 10);
+      return Number.isNaN(number) ? undefined : number;
+    }
+    case 'float': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+    case 'lowercase':
+      return String(value).toLowerCase();
+    default:
+      return String(value);
+  }
+}
+
+function setPath(document, path, value) {
+  const keys = path.split('.');
+  const last = keys.pop();
+  let target = document;
+  for (const key of keys) {
+    target[key] = target[key] || {};
+    target = target[key];
+  }
+  target[last] = value;
+}
+
+// "_batch_number" -> "batch_number", "vt_malicious" stays as is
+function customField(key) {
+  return key.replace(/^_+/, '').replace(/[^A-Za-z0-9]+/g, '_').toLowerCase();
+}
+
+/**
+ * Map one result to an ECS document
+ * @param {object} result - ThreatData record
+ * @param {object} [context]
+ * @param {string} [context.executionId]
+ * @param {string} [context.workflowId]
+ * @param {Date} [context.now] - event.ingested
+ * @returns {object} ECS document
+ */
+function toEcsDocument(result, { executionId, workflowId, now = new Date() } = {}) {
+  const document = {
+    ecs: { version: ECS_VERSION },
+    event: {
+      kind: 'alert',
+      category: ['network', 'intrusion_detection'],
+      type: ['info'],
+      module: 'deepsoul',
+      dataset: 'deepsoul.threats',
+      ingested: now.toISOString()
+    }
+  };
+
+  for (const [key, value] of Object.entries(result)) {
+    if (value === undefined || value === null || value === '') continue;
+    const [field, type] = ECS_FIELD_MAP[key] || [`deepsoul.${customField(key)}`, null];
+    const converted = type ? convert(value, type) : value;
+    if (converted !== undefined) setPath(document, field, converted);
+  }
+
+  const severity = EVENT_SEVERITY[String(result.escalation_priority || '').toUpperCase()];
+  if (severity) document.event.severity = severity;
+  if (result.is_malicious === true || result.consensus_classification === 'TRUE_POSITIVE') {
+    document.event.type = ['indicator'];
+  }
+
+  const ips = [document.source?.ip, document.destination?.ip].filter(Boolean);
+  if (ips.length > 0) document.related = { ip: [...new Set(ips)] };
+
+  if (executionId) setPath(document, 'deepsoul.execution_id', executionId);
+  if (workflowId) setPath(document, 'deepsoul.workflow_id', workflowId);
+  return document;
+}
+
+/**
+ * NDJSON body for an Elasticsearch / OpenSearch _bulk request
+ * @param {Array<{index: string, id: string, document: object}>} actions
+ * @returns {string}
+ */
+function toBulkNdjson(actions) {
+  return actions
+    .map(({ index, id, document }) => `${JSON.stringify({ index: { _index: index, _id: id } })}\n${JSON.stringify(document)}\n`)
+    .join('');
+}
+
+module.exports = { toEcsDocument, toBulkNdjson, ECS_FIELD_MAP, ECS_VERSION };
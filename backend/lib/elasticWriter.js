@@ -0,0 +1,255 @@
+/**
+ * Elasticsearch / OpenSearch Bulk Writer
+ *
+ * After every batch, indexes its results as ECS documents (see lib/ecs.js)
+ * through a `_bulk` endpoint. Configured from the environment:
+ *
+ *   ELASTIC_BULK_URL   - Cluster URL (http://localhost:9200) or a full _bulk URL
+ *   ELASTIC_INDEX      - Index name template, default deepsoul-threats-{execution_id}
+ *                        Placeholders: {execution_id}, {workflow_id}, {date} (YYYY.MM.DD, UTC)
+ *   ELASTIC_API_KEY    - Sent as "Authorization: ApiKey ..."
+ *   ELASTIC_USERNAME / ELASTIC_PASSWORD - HTTP Basic auth instead (or user:pass@ in the URL)
+ *   ELASTIC_BULK_SIZE  - Documents per _bulk request (default 500)
+ *
+ * Document ids are <execution_id>-<result offset>, so a retried or
+ * re-sent batch overwrites its documents instead of duplicating them.
+ * Batches are written one at a time, in arrival order; failed requests
+ * (network errors, 429, 5xx) and items rejected with 429 are retried with
+ * backoff, other rejected items are counted and logged.
+ */
+
+const { toEcsDocument, toBulkNdjson } = require('./ecs');
+
+const DEFAULT_INDEX = 'deepsoul-threats-{execution_id}';
+const DEFAULT_BULK_SIZE = 500;
+const REQUEST_TIMEOUT_MS = 30000;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 1000;
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+/**
+ * @returns {object|null} Writer config, or null when ELASTIC_BULK_URL is unset
+ * @throws {Error} on an unusable URL or bulk size
+ */
+function loadElasticConfig(env = process.env) {
+  if (!env.ELASTIC_BULK_URL) return null;
+
+  let url;
+  try {
+    url = new URL(env.ELASTIC_BULK_URL);
+  } catch (error) {
+    throw new Error('ELASTIC_BULK_URL must be an http(s) URL');
+  }
+  if (!url.pathname.replace(/\/+$/, '').endsWith('/_bulk')) {
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}/_bulk`;
+  }
+
+  const bulkSize = parseInt(env.ELASTIC_BULK_SIZE || DEFAULT_BULK_SIZE, 10);
+  if (!(bulkSize > 0)) {
+    throw new Error('ELASTIC_BULK_SIZE must be a positive number');
+  }
+
+  // fetch refuses URLs with credentials - user:pass@host becomes Basic auth
+  const username = env.ELASTIC_USERNAME || decodeURIComponent(url.username);
+  const password = env.ELASTIC_USERNAME ? env.ELASTIC_PASSWORD || '' : decodeURIComponent(url.password);
+  url.username = '';
+  url.password = '';
+
+  let authorization = null;
+  if (env.ELASTIC_API_KEY) {
+    authorization = `ApiKey ${env.ELASTIC_API_KEY}`;
+  } else if (username) {
+    authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  return {
+    url: url.toString(),
+    indexTemplate: env.ELASTIC_INDEX || DEFAULT_INDEX,
+    authorization,
+    bulkSize
+  };
+}
+
+/**
+ * Resolve the index name for an execution. Index names must be lowercase
+ * and can't contain \ / * ? " < > | , # : or spaces, or start with - _ +
+ */
+function resolveIndexName(template, { executionId, workflowId, now = new Date() }) {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '.');
+  return template
+    .replace(/\{execution_id\}/g, executionId || 'unknown')
+    .replace(/\{workflow_id\}/g, workflowId || 'unknown')
+    .replace(/\{date\}/g, date)
+    .toLowerCase()
+    .replace(/[\\/*?"<>|,#:\s]+/g, '-')
+    .replace(/^[-_+]+/, '');
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+/**
+ * @param {object} [options]
+ * @param {object} [options.config] - Writer config (defaults to loadElasticConfig())
+ * @returns {object} { enabled, write, status, flush }
+ */
+function createElasticWriter(options = {}) {
+  const config = options.config !== undefined ? options.config : loadElasticConfig();
+  const stats = {
+    state: config ? 'idle' : 'disabled',
+    queued_batches: 0,
+    indexed: 0,
+    rejected: 0,
+    requests: 0,
+    failed_requests: 0,
+    last_index: null,
+    last_indexed_at: null,
+    last_error: null,
+    last_error_at: null
+  };
+  // Batches are chained so they reach the cluster in arrival order
+  let chain = Promise.resolve();
+
+  function recordError(message) {
+    stats.last_error = message;
+    stats.last_error_at = new Date().toISOString();
+  }
+
+  /**
+   * POST one _bulk request
+   * @returns {Promise<Array>} Actions to retry (items rejected with 429)
+   */
+  async function sendBulk(actions) {
+    const headers = { 'Content-Type': 'application/x-ndjson' };
+    if (config.authorization) headers.Authorization = config.authorization;
+
+    stats.requests += 1;
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers,
+      body: toBulkNdjson(actions),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const error = new Error(`_bulk responded ${response.status} ${response.statusText}`);
+      error.retryable = response.status === 429 || response.status >= 500;
+      throw error;
+    }
+
+    const body = await response.json();
+    const retry = [];
+    let rejected = 0;
+    body.items.forEach((item, position) => {
+      const outcome = item.index || Object.values(item)[0];
+      if (!outcome.error) {
+        stats.indexed += 1;
+        return;
+      }
+      if (outcome.status === 429) {
+        retry.push(actions[position]);
+        return;
+      }
+      rejected += 1;
+      recordError(`${outcome._id}: ${outcome.error.type} - ${outcome.error.reason}`);
+    });
+    if (rejected > 0) {
+      stats.rejected += rejected;
+      console.log(`⚠️  Elastic: ${rejected} documents rejected (last: ${stats.last_error})`);
+    }
+    return retry;
+  }
+
+  async function sendWithRetry(actions) {
+    let pending = actions;
+    for (let attempt = 1; pending.length > 0; attempt += 1) {
+      try {
+        pending = await sendBulk(pending);
+        if (pending.length === 0) return;
+        recordError(`${pending.length} documents rejected with 429`);
+      } catch (error) {
+        stats.failed_requests += 1;
+        recordError(error.message);
+        // Non-retryable responses (400, 401, 403, 404...) won't improve by waiting
+        if (error.retryable === false) throw error;
+      }
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new Error(`Gave up after ${MAX_ATTEMPTS} attempts: ${stats.last_error}`);
+      }
+      stats.state = 'backoff';
+      await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+      stats.state = 'writing';
+    }
+  }
+
+  async function writeBatch({ executionId, workflowId, offset, results }) {
+    const now = new Date();
+    const index = resolveIndexName(config.indexTemplate, { executionId, workflowId, now });
+    const actions = results.map((result, position) => ({
+      index,
+      id: `${executionId}-${offset + position}`,
+      document: toEcsDocument(result, { executionId, workflowId, now })
+    }));
+
+    const indexedBefore = stats.indexed;
+    stats.state = 'writing';
+    try {
+      for (let start = 0; start < actions.length; start += config.bulkSize) {
+        await sendWithRetry(actions.slice(start, start + config.bulkSize));
+      }
+      stats.last_index = index;
+      stats.last_indexed_at = new Date().toISOString();
+      console.log(`   🗄️  Indexed ${stats.indexed - indexedBefore}/${actions.length} ECS documents into ${index}`);
+    } catch (error) {
+      recordError(error.message);
+      console.log(`⚠️  Elastic: batch of ${actions.length} results for ${executionId} not indexed - ${error.message}`);
+    } finally {
+      stats.queued_batches -= 1;
+      stats.state = stats.queued_batches > 0 ? 'writing' : 'idle';
+    }
+  }
+
+  /**
+   * Queue a batch for indexing - returns immediately
+   * @param {string} executionId - n8n execution id
+   * @param {Array} results - ThreatData records of the batch
+   * @param {object} [context]
+   * @param {string} [context.workflowId]
+   * @param {number} [context.offset] - Position of the first result in the execution (for document ids)
+   */
+  function write(executionId, results, { workflowId, offset = 0 } = {}) {
+    if (!config || results.length === 0) return;
+    stats.queued_batches += 1;
+    chain = chain.then(() => writeBatch({ executionId, workflowId, offset, results }));
+  }
+
+  function status() {
+    if (!config) return { enabled: false, state: 'disabled' };
+    return {
+      enabled: true,
+      url: config.url,
+      index_template: config.indexTemplate,
+      bulk_size: config.bulkSize,
+      ...stats
+    };
+  }
+
+  /**
+   * Resolves once every queued batch has been written (or given up on)
+   */
+  function flush() {
+    return chain;
+  }
+
+  return { enabled: !!config, write, status, flush };
+}
+
+module.exports = { createElasticWriter, loadElasticConfig, resolveIndexName };
@@ -0,0 +1,47 @@
+/**
+ * Execution Event Bus
+ *
+ * In-process pub/sub for execution updates. The callback handler publishes
+ * here once a payload is stored; streaming transports (SSE, WebSocket)
+ * subscribe per execution or to every execution with '*'.
+ */
+
+const { EventEmitter } = require('events');
+
+const ALL_EXECUTIONS = '*';
+
+function createEventBus() {
+  const emitter = new EventEmitter();
+  // One listener per connected stream client
+  emitter.setMaxListeners(0);
+
+  /**
+   * Publish an execution event
+   * @param {string} executionId - Execution the event belongs to
+   * @param {string} type - Event type (e.g. batch_completed, completed)
+   * @param {object} payload - Event body
+   */
+  function publish(executionId, type, payload) {
+    const event = {
+      type,
+      execution_id: executionId,
+      timestamp: new Date().toISOString(),
+      ...payload
+    };
+    emitter.emit(executionId, event);
+    emitter.emit(ALL_EXECUTIONS, event);
+  }
+
+  /**
+   * Subscribe to events for one execution, or '*' for all
+   * @returns {Function} Unsubscribe function
+   */
+  function subscribe(executionId, listener) {
+    emitter.on(executionId, listener);
+    return () => emitter.off(executionId, listener);
+  }
+
+  return { publish, subscribe };
+}
+
+module.exports = { createEventBus, ALL_EXECUTIONS };
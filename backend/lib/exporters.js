@@ -0,0 +1,424 @@
+/**
+ * Result Exporters
+ *
+ * Serializes stored ThreatData records for download from
+ * GET /executions/:id/export:
+ *   csv     - one row per result, schema columns first (RFC 4180 quoting)
+ *   ndjson  - one JSON object per line
+ *   stix    - a STIX 2.1 bundle: observed-data for every event, indicators
+ *             for malicious source IPs and sightings linking the two,
+ *             weighted by consensus_confidence
+ *   misp    - a MISP event: source and destination IPs, destination ports
+ *             and attack signatures as attributes, tags from Attack Type and
+ *             escalation_priority, threat level from final_risk_score
+ *   ecs     - one Elastic Common Schema document per line (see lib/ecs.js)
+ */
+
+const crypto = require('crypto');
+const schema = require('../../shared/callback.schema.json');
+const { parseTimestamp } = require('./threatQuery');
+const { toEcsDocument } = require('./ecs');
+const { eventIdOf } = require('./cases');
+
+const SCHEMA_COLUMNS = Object.keys(schema.definitions.ThreatData.properties);
+
+// STIX 2.1 namespace for deterministic cyber-observable ids (spec section 2.9)
+const STIX_SCO_NAMESPACE = '00abedb4-aa42-466c-9c01-fed23315a9b7';
+
+// Namespace for the ids of objects DeepSoul authors (indicators, collections, ...)
+const DEEPSOUL_NAMESPACE = 'a7f3e0f2-5b1c-4c55-9a7e-0d5e6f1b2c3d';
+
+const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+  stix: { contentType: 'application/stix+json;version=2.1', extension: 'stix.json' },
+  misp: { contentType: 'application/json; charset=utf-8', extension: 'misp.json' },
+  ecs: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ecs.ndjson' }
+};
+
+// ============================================================
+// CSV / NDJSON
+// ============================================================
+
+// Cells a spreadsheet would run as a formula (CSV injection) - OWASP says to
+// prefix them with ' and quote them. Numbers (e.g. -5) are left alone
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value) {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) return `"'${text.replace(/"/g, '""')}"`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * @param {Array} results - ThreatData records
+ * @returns {string} CSV with a header row; fields outside the schema are appended as extra columns
+ */
+function toCsv(results) {
+  const extra = new Set();
+  for (const result of results) {
+    for (const key of Object.keys(result)) {
+      if (!SCHEMA_COLUMNS.includes(key)) extra.add(key);
+    }
+  }
+  const columns = [...SCHEMA_COLUMNS, ...extra];
+
+  const lines = [columns.map(csvCell).join(',')];
+  for (const result of results) {
+    lines.push(columns.map(column => csvCell(result[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function toNdjson(results) {
+  return results.map(result => JSON.stringify(result)).join('\n') + (results.length > 0 ? '\n' : '');
+}
+
+// ============================================================
+// STIX 2.1
+// ============================================================
+
+// RFC 4122 version 5 (name-based, SHA-1) UUID
+function uuidv5(name, namespace) {
+  const hash = crypto.createHash('sha1')
+    .update(Buffer.from(namespace.replace(/-/g, ''), 'hex'))
+    .update(name)
+    .digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function stixTimestamp(time) {
+  return new Date(time).toISOString();
+}
+
+// consensus_confidence is 0-100; STIX confidence is an integer on the same scale
+function stixConfidence(value) {
+  const confidence = Number(value);
+  if (!Number.isFinite(confidence)) return undefined;
+  return Math.min(Math.max(Math.round(confidence), 0), 100);
+}
+
+/**
+ * Whether a result confirms its source IP as malicious
+ * @param {object} result - ThreatData record
+ */
+function isMaliciousResult(result) {
+  // An analyst verdict (see lib/verdicts.js) overrules the enrichment APIs too
+  if (result.analyst_verdict) return result.analyst_verdict.verdict === 'TRUE_POSITIVE';
+  return result.is_malicious === true || result.consensus_classification === 'TRUE_POSITIVE';
+}
+
+function ipObjectType(address) {
+  return String(address).includes(':') ? 'ipv6-addr' : 'ipv4-addr';
+}
+
+function toPort(value) {
+  const port = parseInt(value, 10);
+  return Number.isInteger(port) && port >= 0 && port <= 65535 ? port : undefined;
+}
+
+// Drop undefined properties - STIX forbids nulls and empty values
+function compact(object) {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined && value !== ''));
+}
+
+// Author of every exported object
+const DEEPSOUL_IDENTITY = {
+  type: 'identity',
+  spec_version: '2.1',
+  id: `identity--${uuidv5('deepsoul', DEEPSOUL_NAMESPACE)}`,
+  created: '2024-01-01T00:00:00.000Z',
+  modified: '2024-01-01T00:00:00.000Z',
+  name: 'DeepSoul Threat Analysis',
+  identity_class: 'system'
+};
+
+/**
+ * STIX indicator for a malicious IP - the id depends on the address only,
+ * so every export and TAXII collection refers to the same indicator
+ * @param {string} address - IPv4 or IPv6 address
+ * @param {object} options
+ * @param {string} options.created - When DeepSoul first confirmed the IP
+ * @param {string} [options.modified] - When this version was produced (defaults to created)
+ * @param {string} options.validFrom - Earliest sighting
+ * @param {number} [options.confidence] - 0-100
+ * @param {Array<string>} [options.labels] - e.g. attack types
+ * @param {boolean} [options.revoked] - The IP is no longer considered malicious
+ */
+function toStixIndicator(address, { created, modified = created, validFrom, confidence, labels, revoked } = {}) {
+  return compact({
+    type: 'indicator',
+    spec_version: '2.1',
+    id: `indicator--${uuidv5(`indicator:${address}`, DEEPSOUL_NAMESPACE)}`,
+    created,
+    modified,
+    created_by_ref: DEEPSOUL_IDENTITY.id,
+    name: `Malicious IP ${address}`,
+    indicator_types: ['malicious-activity'],
+    pattern: `[${ipObjectType(address)}:value = '${address.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`,
+    pattern_type: 'stix',
+    valid_from: validFrom,
+    confidence,
+    labels: labels && labels.length > 0 ? labels : undefined,
+    revoked: revoked || undefined
+  });
+}
+
+/**
+ * Build a STIX 2.1 bundle for a set of results
+ * @param {Array} results - ThreatData records
+ * @param {object} [options]
+ * @param {string} [options.executionId] - Recorded on every observed-data object
+ * @param {Array<string>} [options.eventIds] - Event id of each result, when
+ *   results is a filtered or re-ordered slice of the stored run
+ * @param {Date} [options.now] - Creation time of the exported objects
+ * @returns {object} { type: 'bundle', id, objects }
+ */
+function toStixBundle(results, { executionId, eventIds, now = new Date() } = {}) {
+  const created = stixTimestamp(now);
+  const common = { spec_version: '2.1', created, modified: created, created_by_ref: DEEPSOUL_IDENTITY.id };
+
+  const observables = new Map();
+  const indicators = new Map();
+  const events = [];
+  const sightings = [];
+
+  // IP addresses are deduplicated: deterministic ids per the STIX SCO rules
+  function addressRef(address) {
+    if (!address) return undefined;
+    const type = ipObjectType(address);
+    const id = `${type}--${uuidv5(JSON.stringify({ value: address }), STIX_SCO_NAMESPACE)}`;
+    if (!observables.has(id)) observables.set(id, { type, spec_version: '2.1', id, value: address });
+    return id;
+  }
+
+  results.forEach((result, index) => {
+    const time = parseTimestamp(result.Timestamp ?? '');
+    const observedAt = time === null ? created : stixTimestamp(time);
+    const key = eventIds?.[index] ?? eventIdOf(result, executionId || 'export', index);
+
+    const srcRef = addressRef(result['Source IP Address']);
+    const dstRef = addressRef(result['Destination IP Address']);
+    const traffic = compact({
+      type: 'network-traffic',
+      spec_version: '2.1',
+      id: `network-traffic--${uuidv5(key, STIX_SCO_NAMESPACE)}`,
+      src_ref: srcRef,
+      dst_ref: dstRef,
+      src_port: toPort(result['Source Port']),
+      dst_port: toPort(result['Destination Port']),
+      protocols: [String(result.Protocol || 'ipv4').toLowerCase()]
+    });
+    observables.set(traffic.id, traffic);
+
+    const observed = compact({
+      type: 'observed-data',
+      ...common,
+      id: `observed-data--${uuidv5(`observed-data:${key}`, DEEPSOUL_NAMESPACE)}`,
+      first_observed: observedAt,
+      last_observed: observedAt,
+      number_observed: 1,
+      object_refs: [traffic.id, srcRef, dstRef].filter(Boolean),
+      confidence: stixConfidence(result.consensus_confidence),
+      labels: [result['Attack Type'], result['Severity Level']].filter(Boolean).map(label => String(label).toLowerCase()),
+      x_deepsoul_execution_id: executionId,
+      x_deepsoul_attack_type: result['Attack Type'],
+      x_deepsoul_severity: result['Severity Level'],
+      x_deepsoul_action_taken: result['Action Taken'],
+      x_deepsoul_classification: result.consensus_classification,
+      x_deepsoul_risk_score: result.final_risk_score
+    });
+    events.push(observed);
+
+    const address = result['Source IP Address'];
+    if (!address || !isMaliciousResult(result)) return;
+
+    // One indicator per malicious IP, valid from its earliest sighting
+    let indicator = indicators.get(address);
+    if (!indicator) {
+      indicator = toStixIndicator(address, { created, validFrom: observedAt });
+      indicators.set(address, indicator);
+    } else if (observedAt < indicator.valid_from) {
+      indicator.valid_from = observedAt;
+    }
+    const confidence = stixConfidence(result.consensus_confidence);
+    if (confidence !== undefined && confidence > (indicator.confidence ?? -1)) {
+      indicator.confidence = confidence;
+    }
+
+    sightings.push(compact({
+      type: 'sighting',
+      ...common,
+      id: `sighting--${uuidv5(`sighting:${key}`, DEEPSOUL_NAMESPACE)}`,
+      sighting_of_ref: indicator.id,
+      observed_data_refs: [observed.id],
+      first_seen: observedAt,
+      last_seen: observedAt,
+      count: 1,
+      confidence
+    }));
+  });
+
+  return {
+    type: 'bundle',
+    id: `bundle--${crypto.randomUUID()}`,
+    objects: [DEEPSOUL_IDENTITY, ...indicators.values(), ...events, ...observables.values(), ...sightings]
+  };
+}
+
+// ============================================================
+// MISP
+// ============================================================
+
+// MISP threat_level_id: 1 High, 2 Medium, 3 Low, 4 Undefined
+const THREAT_LEVELS = [
+  { min: 70, id: '1' },
+  { min: 40, id: '2' },
+  { min: 0, id: '3' }
+];
+const UNDEFINED_THREAT_LEVEL = '4';
+
+function threatLevelFor(riskScore) {
+  if (riskScore === null) return UNDEFINED_THREAT_LEVEL;
+  return THREAT_LEVELS.find(({ min }) => riskScore >= min).id;
+}
+
+function attackTypeTag(attackType) {
+  return `deepsoul:attack-type="${attackType}"`;
+}
+
+function priorityTag(priority) {
+  return `deepsoul:escalation-priority="${String(priority).toLowerCase()}"`;
+}
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+/**
+ * Build a MISP event for an execution
+ * @param {object} execution - Stored execution record
+ * @param {Array} results - ThreatData records to include
+ * @param {object} [options]
+ * @param {Date} [options.now] - Export time
+ * @returns {object} { Event: {...} }
+ */
+function toMispEvent(execution, results, { now = new Date() } = {}) {
+  const executionId = execution.execution_id;
+  const timestamp = String(Math.floor(now.getTime() / 1000));
+  const attributes = new Map();
+  const eventTags = new Set();
+  let maxRisk = null;
+
+  function addAttribute(type, category, value, { toIds = false, comment, tags = [] } = {}) {
+    if (value === undefined || value === null || value === '') return;
+    const key = `${type}:${value}`;
+    let attribute = attributes.get(key);
+    if (!attribute) {
+      attribute = {
+        uuid: uuidv5(`misp-attribute:${executionId}:${key}`, DEEPSOUL_NAMESPACE),
+        type,
+        category,
+        value: String(value),
+        to_ids: false,
+        distribution: '5',
+        timestamp,
+        comment: comment || '',
+        tags: new Set(),
+        sightings: 0
+      };
+      attributes.set(key, attribute);
+    }
+    // An IP confirmed once is an IDS indicator for the whole event
+    attribute.to_ids = attribute.to_ids || toIds;
+    attribute.sightings += 1;
+    tags.forEach(tag => attribute.tags.add(tag));
+  }
+
+  for (const result of results) {
+    const risk = Number(result.final_risk_score);
+    if (Number.isFinite(risk)) maxRisk = Math.max(maxRisk ?? risk, risk);
+
+    const tags = [];
+    if (result['Attack Type']) tags.push(attackTypeTag(result['Attack Type']));
+    if (result.escalation_priority) tags.push(priorityTag(result.escalation_priority));
+    tags.forEach(tag => eventTags.add(tag));
+
+    addAttribute('ip-src', 'Network activity', result['Source IP Address'], {
+      toIds: isMaliciousResult(result),
+      tags
+    });
+    addAttribute('ip-dst', 'Network activity', result['Destination IP Address']);
+    addAttribute('port', 'Network activity', result['Destination Port'], { comment: 'Destination port' });
+    addAttribute('pattern-in-traffic', 'Network activity', result['Attack Signature'], { tags });
+  }
+
+  const startDate = execution.start_time ? new Date(execution.start_time) : now;
+
+  return {
+    Event: {
+      uuid: uuidv5(`misp-event:${executionId}`, DEEPSOUL_NAMESPACE),
+      info: `DeepSoul threat analysis - execution ${executionId}`,
+      date: startDate.toISOString().slice(0, 10),
+      timestamp,
+      threat_level_id: threatLevelFor(maxRisk),
+      analysis: execution.status === 'completed' ? '2' : '1',
+      distribution: '0',
+      published: false,
+      Orgc: { name: 'DeepSoul' },
+      Tag: [...eventTags].sort().map(name => ({ name })),
+      Attribute: [...attributes.values()].map(({ tags, sightings, ...attribute }) => ({
+        ...attribute,
+        comment: [attribute.comment, `Seen in ${sightings} result${sightings === 1 ? '' : 's'}`].filter(Boolean).join('; '),
+        Tag: [...tags].sort().map(name => ({ name }))
+      }))
+    }
+  };
+}
+
+/**
+ * Serialize results in one of EXPORT_FORMATS
+ * @param {string} format - csv | ndjson | stix | misp | ecs
+ * @param {Array} results - ThreatData records
+ * @param {object} [options] - { executionId } for STIX and ECS, { eventIds } for STIX,
+ *   { execution } for MISP and ECS
+ * @returns {string} Response body
+ */
+function exportResults(format, results, options = {}) {
+  switch (format) {
+    case 'csv':
+      return toCsv(results);
+    case 'ndjson':
+      return toNdjson(results);
+    case 'stix':
+      return JSON.stringify(toStixBundle(results, options), null, 2);
+    case 'misp':
+      return JSON.stringify(toMispEvent(options.execution, results, options), null, 2);
+    case 'ecs': {
+      const now = new Date();
+      const context = { executionId: options.executionId, workflowId: options.execution?.workflow_id, now };
+      return toNdjson(results.map(result => toEcsDocument(result, context)));
+    }
+    default:
+      throw new Error(`Unknown export format: ${format}`);
+  }
+}
+
+module.exports = {
+  exportResults,
+  toCsv,
+  toNdjson,
+  toStixBundle,
+  toStixIndicator,
+  toMispEvent,
+  isMaliciousResult,
+  stixConfidence,
+  uuidv5,
+  DEEPSOUL_IDENTITY,
+  DEEPSOUL_NAMESPACE,
+  EXPORT_FORMATS
+};
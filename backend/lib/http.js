@@ -0,0 +1,21 @@
+/**
+ * HTTP Helpers shared by the route modules
+ */
+
+/**
+ * Send an error response in the server's standard error shape
+ * @param {object} res - Express response
+ * @param {number} statusCode - HTTP status code
+ * @param {string} message - Human-readable error message
+ * @param {object} [extra] - Additional fields (e.g. validation details)
+ */
+function sendError(res, statusCode, message, extra = {}) {
+  res.status(statusCode).json({
+    status: 'error',
+    message,
+    ...extra,
+    timestamp: new Date().toISOString()
+  });
+}
+
+module.exports = { sendError };
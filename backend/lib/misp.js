@@ -0,0 +1,92 @@
+/**
+ * MISP Event Import
+ *
+ * Reads partners' MISP event JSON into the IOCs of a watchlist, which the
+ * dashboard highlights in result tables. Exporting an execution as a MISP
+ * event lives with the other formats in lib/exporters.js.
+ */
+
+// Attribute types a watchlist can match against results (composite
+// ip|port types keep only the IP); anything else is skipped on import
+const WATCHLIST_TYPES = ['ip-src', 'ip-dst', 'ip-src|port', 'ip-dst|port', 'port', 'pattern-in-traffic'];
+
+function mispError(message, path = '/') {
+  const error = new Error(message);
+  error.isMispError = true;
+  error.path = path;
+  return error;
+}
+
+// A single event ({ Event }), a REST search response ({ response: [{ Event }] })
+// or a bare event object
+function extractEvents(body) {
+  if (body && Array.isArray(body.response)) return body.response.map(entry => (entry && entry.Event) || entry);
+  if (body && body.Event) return [body.Event];
+  if (body && Array.isArray(body.Attribute)) return [body];
+  return [];
+}
+
+function eventAttributes(event) {
+  const attributes = Array.isArray(event.Attribute) ? event.Attribute : [];
+  // MISP objects (e.g. ip-port) carry their own attributes
+  const objects = Array.isArray(event.Object) ? event.Object : [];
+  return [...attributes, ...objects.flatMap(object => (Array.isArray(object.Attribute) ? object.Attribute : []))];
+}
+
+function toIoc(attribute) {
+  const [value, port] = String(attribute.value).split('|');
+  const isComposite = attribute.type.includes('|');
+  return {
+    type: isComposite ? attribute.type.split('|')[0] : attribute.type,
+    value: value.trim(),
+    ...(isComposite && port ? { port: port.trim() } : {}),
+    category: attribute.category || null,
+    comment: attribute.comment || '',
+    to_ids: attribute.to_ids === true || attribute.to_ids === '1'
+  };
+}
+
+/**
+ * Extract watchlist IOCs from MISP event JSON
+ * @param {object} body - Parsed MISP JSON
+ * @returns {{ name: string, event_uuid: string|null, iocs: Array, skipped_attributes: number }}
+ * @throws {Error} with isMispError / path when the JSON holds no usable event
+ */
+function parseMispEvent(body) {
+  const events = extractEvents(body).filter(event => event && typeof event === 'object');
+  if (events.length === 0) {
+    throw mispError('Expected a MISP event ({ "Event": { ... } })');
+  }
+
+  const iocs = new Map();
+  let skipped = 0;
+  events.forEach((event, eventIndex) => {
+    eventAttributes(event).forEach((attribute, attributeIndex) => {
+      if (!attribute || typeof attribute.type !== 'string' || attribute.value === undefined) {
+        const where = events.length > 1 ? `event ${eventIndex + 1}, attribute ${attributeIndex + 1}` : `attribute ${attributeIndex + 1}`;
+        throw mispError(`Attribute needs a type and a value (${where})`, '/Event/Attribute');
+      }
+      if (!WATCHLIST_TYPES.includes(attribute.type)) {
+        skipped += 1;
+        return;
+      }
+      const ioc = toIoc(attribute);
+      const key = `${ioc.type}:${ioc.value}:${ioc.port || ''}`;
+      if (ioc.value && !iocs.has(key)) iocs.set(key, ioc);
+    });
+  });
+
+  if (iocs.size === 0) {
+    throw mispError(`No watchable attributes (supported types: ${WATCHLIST_TYPES.join(', ')})`, '/Event/Attribute');
+  }
+
+  const [first] = events;
+  return {
+    name: first.info || 'MISP event',
+    event_uuid: events.length === 1 ? first.uuid || null : null,
+    iocs: [...iocs.values()],
+    skipped_attributes: skipped
+  };
+}
+
+module.exports = { parseMispEvent, WATCHLIST_TYPES };
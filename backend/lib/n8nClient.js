@@ -0,0 +1,53 @@
+/**
+ * n8n Webhook Client
+ *
+ * Triggers the threat analysis workflow through its webhook, so the
+ * browser never has to reach n8n directly.
+ */
+
+const DEFAULT_WEBHOOK_URL = 'http://localhost:5678/webhook/analyze-threats';
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * @param {object} [options]
+ * @param {string} [options.webhookUrl] - Defaults to N8N_WEBHOOK_URL
+ * @param {number} [options.timeoutMs] - Abort the trigger request after this long
+ */
+function createN8nClient(options = {}) {
+  const webhookUrl = options.webhookUrl || process.env.N8N_WEBHOOK_URL || DEFAULT_WEBHOOK_URL;
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+  /**
+   * Start a workflow run
+   * @param {object} body - Webhook body (csv_path, callback_url, batch_size, max_items)
+   * @returns {Promise<object>} n8n's immediate response ({ execution_id, workflow_id, ... })
+   */
+  async function triggerWorkflow(body) {
+    let response;
+    try {
+      response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      throw new Error(`n8n webhook unreachable at ${webhookUrl}: ${error.message}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`n8n webhook responded ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!data || !data.execution_id) {
+      throw new Error('n8n webhook response did not include an execution_id');
+    }
+
+    return data;
+  }
+
+  return { triggerWorkflow, webhookUrl };
+}
+
+module.exports = { createN8nClient };
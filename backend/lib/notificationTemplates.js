@@ -0,0 +1,203 @@
+/**
+ * Notification Templates
+ *
+ * Renders a digest - one or more notification events collected for a
+ * channel - as a webhook payload or an email:
+ *   slack       - Incoming webhook with Block Kit sections
+ *   teams       - Adaptive Card message (Teams workflows / incoming webhooks)
+ *   mattermost  - Incoming webhook with a Slack-style colored attachment
+ *   generic     - Plain JSON: { source, title, text, events }
+ *
+ * Events (see lib/notifier.js):
+ *   critical_findings - { execution_id, batch_number, findings: ThreatData[] }
+ *   run_completed     - { execution_id, status, total_items, summary }
+ *   run_failed        - { execution_id, message }
+ */
+
+const MAX_FINDINGS_LISTED = 5;
+
+const COLORS = {
+  critical_findings: '#dc2626',
+  run_failed: '#f97316',
+  run_completed: '#16a34a'
+};
+
+function plural(count, word) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function describeFinding(result) {
+  const port = result['Destination Port'] ? `:${result['Destination Port']}` : '';
+  const risk = result.final_risk_score !== undefined ? ` (risk ${result.final_risk_score})` : '';
+  return `${result['Attack Type'] || 'Threat'} from ${result['Source IP Address'] || '?'} to ${result['Destination IP Address'] || '?'}${port}${risk}`;
+}
+
+/**
+ * Headline and plain-text lines for one event
+ */
+function describeEvent(event) {
+  switch (event.type) {
+    case 'critical_findings': {
+      const listed = event.findings.slice(0, MAX_FINDINGS_LISTED).map(describeFinding);
+      const more = event.findings.length - listed.length;
+      return {
+        headline: `${plural(event.findings.length, 'critical finding')} in run ${event.execution_id}${event.batch_number ? ` (batch ${event.batch_number})` : ''}`,
+        lines: more > 0 ? [...listed, `... and ${more} more`] : listed
+      };
+    }
+    case 'run_completed': {
+      const summary = event.summary || {};
+      const lines = [`${event.total_items || 0} items analysed`];
+      if (event.summary) {
+        lines.push(`${summary.critical || 0} critical, ${summary.high || 0} high, ${summary.true_positives || 0} true positives`);
+      }
+      if (event.status === 'incomplete') lines.push('Some batches are missing or truncated');
+      return {
+        headline: `Run ${event.execution_id} ${event.status === 'incomplete' ? 'finished incomplete' : 'completed'}`,
+        lines
+      };
+    }
+    case 'run_failed':
+      return {
+        headline: `Run ${event.execution_id} failed`,
+        lines: [event.message || 'The workflow reported a failure']
+      };
+    default:
+      return { headline: event.title || event.type, lines: event.message ? [event.message] : [] };
+  }
+}
+
+/**
+ * Title, text and color for a digest
+ * @param {Array} events
+ * @param {object} [options]
+ * @param {string} [options.dashboardUrl] - Linked at the end of the message
+ */
+function summarizeDigest(events, { dashboardUrl } = {}) {
+  const sections = events.map(describeEvent);
+  let title;
+  if (events.length === 1) {
+    title = `DeepSoul: ${sections[0].headline}`;
+  } else {
+    const counts = {};
+    events.forEach(event => {
+      const count = event.type === 'critical_findings' ? event.findings.length : 1;
+      counts[event.type] = (counts[event.type] || 0) + count;
+    });
+    const parts = [];
+    if (counts.critical_findings) parts.push(plural(counts.critical_findings, 'critical finding'));
+    if (counts.run_failed) parts.push(plural(counts.run_failed, 'failed run'));
+    if (counts.run_completed) parts.push(plural(counts.run_completed, 'completed run'));
+    if (counts.test) parts.push(plural(counts.test, 'test'));
+    title = `DeepSoul digest: ${parts.join(', ')}`;
+  }
+
+  // The most urgent event type sets the color
+  const type = ['critical_findings', 'run_failed', 'run_completed'].find(candidate => events.some(event => event.type === candidate));
+  return { title, sections, color: COLORS[type] || '#7c3aed', dashboardUrl };
+}
+
+function sectionText(section, bullet) {
+  return [section.headline, ...section.lines.map(line => `${bullet} ${line}`)].join('\n');
+}
+
+// ============================================================
+// WEBHOOK PAYLOADS
+// ============================================================
+
+function toSlack(digest) {
+  const blocks = [
+    { type: 'header', text: { type: 'plain_text', text: digest.title.slice(0, 150) } },
+    ...digest.sections.map(section => ({
+      type: 'section',
+      text: { type: 'mrkdwn', text: sectionText({ ...section, headline: `*${section.headline}*` }, '•').slice(0, 3000) }
+    }))
+  ];
+  if (digest.dashboardUrl) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `<${digest.dashboardUrl}|Open DeepSoul dashboard>` }] });
+  }
+  return { text: digest.title, blocks };
+}
+
+function toMattermost(digest) {
+  const text = digest.sections.map(section => sectionText({ ...section, headline: `**${section.headline}**` }, '-')).join('\n\n');
+  return {
+    username: 'DeepSoul',
+    text: digest.title,
+    attachments: [{
+      fallback: digest.title,
+      color: digest.color,
+      text,
+      ...(digest.dashboardUrl && { title: 'Open DeepSoul dashboard', title_link: digest.dashboardUrl })
+    }]
+  };
+}
+
+function toTeams(digest) {
+  const body = [
+    { type: 'TextBlock', text: digest.title, weight: 'Bolder', size: 'Medium', wrap: true },
+    ...digest.sections.flatMap(section => [
+      { type: 'TextBlock', text: section.headline, weight: 'Bolder', wrap: true, spacing: 'Medium' },
+      ...section.lines.map(line => ({ type: 'TextBlock', text: `- ${line}`, wrap: true, spacing: 'None' }))
+    ])
+  ];
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body,
+        ...(digest.dashboardUrl && {
+          actions: [{ type: 'Action.OpenUrl', title: 'Open DeepSoul dashboard', url: digest.dashboardUrl }]
+        })
+      }
+    }]
+  };
+}
+
+function toGeneric(digest, events) {
+  return {
+    source: 'deepsoul',
+    title: digest.title,
+    text: digest.sections.map(section => sectionText(section, '-')).join('\n\n'),
+    dashboard_url: digest.dashboardUrl || null,
+    events
+  };
+}
+
+const WEBHOOK_TEMPLATES = {
+  slack: toSlack,
+  teams: toTeams,
+  mattermost: toMattermost,
+  generic: toGeneric
+};
+
+/**
+ * @param {string} template - slack | teams | mattermost | generic
+ * @param {Array} events
+ * @param {object} [options] - { dashboardUrl }
+ * @returns {object} JSON body for the webhook
+ */
+function renderWebhook(template, events, options = {}) {
+  const digest = summarizeDigest(events, options);
+  return WEBHOOK_TEMPLATES[template](digest, events);
+}
+
+/**
+ * @param {Array} events
+ * @param {object} [options] - { dashboardUrl }
+ * @returns {{subject: string, text: string}}
+ */
+function renderEmail(events, options = {}) {
+  const digest = summarizeDigest(events, options);
+  const text = [
+    ...digest.sections.map(section => sectionText(section, '  -')),
+    ...(digest.dashboardUrl ? [`Dashboard: ${digest.dashboardUrl}`] : [])
+  ].join('\n\n');
+  return { subject: digest.title, text: `${text}\n` };
+}
+
+module.exports = { renderWebhook, renderEmail, WEBHOOK_TEMPLATES };
@@ -0,0 +1,344 @@
+/**
+ * Notifier
+ *
+ * Pushes notifications for new CRITICAL findings, completed runs and failed
+ * runs to webhook (Slack / Teams / Mattermost / generic JSON) and email
+ * channels.
+ *
+ * Channels come from NOTIFICATION_CHANNELS, a JSON array:
+ *   [{ "name": "soc", "type": "webhook", "template": "slack", "url": "https://hooks.slack.com/..." },
+ *    { "name": "oncall", "type": "email", "to": ["oncall@example.com"], "events": ["run_failed"] }]
+ * Optional per channel: events (default all three), throttle_seconds
+ * (default 60), headers (extra webhook headers).
+ * Email goes through SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USERNAME /
+ * SMTP_PASSWORD, from SMTP_FROM. NOTIFICATION_DASHBOARD_URL is linked in
+ * every message.
+ *
+ * Throttling: a channel sends at most one message per throttle window.
+ * Events arriving inside the window are held and sent together as one
+ * digest when it ends, so a burst of critical batches is a single message
+ * rather than a flood. Every delivery attempt lands in the delivery log.
+ */
+
+const crypto = require('crypto');
+const { renderWebhook, renderEmail, WEBHOOK_TEMPLATES } = require('./notificationTemplates');
+const { createSmtpClient } = require('./smtpClient');
+
+const NOTIFICATION_EVENTS = ['critical_findings', 'run_completed', 'run_failed'];
+const CHANNEL_TYPES = ['webhook', 'email'];
+const DEFAULT_THROTTLE_SECONDS = 60;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 2000;
+const REQUEST_TIMEOUT_MS = 15000;
+const DELIVERY_LOG_SIZE = 500;
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+/**
+ * Validate and fill in defaults for one channel
+ * @throws {Error} on an unusable channel
+ */
+function normalizeChannel(config, index, smtp) {
+  const where = `NOTIFICATION_CHANNELS[${index}]`;
+  if (!config || typeof config !== 'object') throw new Error(`${where} must be an object`);
+
+  const type = config.type || (config.to ? 'email' : 'webhook');
+  if (!CHANNEL_TYPES.includes(type)) throw new Error(`${where}.type must be one of: ${CHANNEL_TYPES.join(', ')}`);
+
+  const events = config.events || NOTIFICATION_EVENTS;
+  const unknown = events.filter(event => !NOTIFICATION_EVENTS.includes(event));
+  if (unknown.length > 0) throw new Error(`${where}.events has unknown events: ${unknown.join(', ')} (use ${NOTIFICATION_EVENTS.join(', ')})`);
+
+  const throttleSeconds = config.throttle_seconds ?? DEFAULT_THROTTLE_SECONDS;
+  if (typeof throttleSeconds !== 'number' || throttleSeconds < 0) throw new Error(`${where}.throttle_seconds must be a number >= 0`);
+
+  const channel = {
+    type,
+    events,
+    throttleMs: throttleSeconds * 1000
+  };
+
+  if (type === 'webhook') {
+    if (!config.url) throw new Error(`${where} needs a url`);
+    let host;
+    try {
+      host = new URL(config.url).host;
+    } catch (error) {
+      throw new Error(`${where}.url must be an http(s) URL`);
+    }
+    const template = config.template || 'generic';
+    if (!(template in WEBHOOK_TEMPLATES)) throw new Error(`${where}.template must be one of: ${Object.keys(WEBHOOK_TEMPLATES).join(', ')}`);
+    Object.assign(channel, {
+      name: config.name || `${template}:${host}`,
+      template,
+      url: config.url,
+      headers: config.headers || {}
+    });
+  } else {
+    const to = [].concat(config.to || []);
+    if (to.length === 0) throw new Error(`${where} needs a to address`);
+    if (!smtp) throw new Error(`${where} is an email channel but SMTP_HOST is not set`);
+    Object.assign(channel, {
+      name: config.name || `email:${to.join(',')}`,
+      template: 'email',
+      to
+    });
+  }
+  return channel;
+}
+
+/**
+ * SMTP relay settings from the environment, or null without SMTP_HOST
+ */
+function loadSmtpConfig(env = process.env) {
+  if (!env.SMTP_HOST) return null;
+  const secure = env.SMTP_SECURE === 'true';
+  return {
+    host: env.SMTP_HOST,
+    port: parseInt(env.SMTP_PORT || (secure ? '465' : '587'), 10),
+    secure,
+    username: env.SMTP_USERNAME || '',
+    password: env.SMTP_PASSWORD || '',
+    from: env.SMTP_FROM || `deepsoul@${env.SMTP_HOST}`
+  };
+}
+
+function loadNotificationChannels(env = process.env, smtp = loadSmtpConfig(env)) {
+  if (!env.NOTIFICATION_CHANNELS) return [];
+  let parsed;
+  try {
+    parsed = JSON.parse(env.NOTIFICATION_CHANNELS);
+  } catch (error) {
+    throw new Error('NOTIFICATION_CHANNELS must be a JSON array of channels');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('NOTIFICATION_CHANNELS must be a JSON array of channels');
+  }
+  const channels = parsed.map((config, index) => normalizeChannel(config, index, smtp));
+  const names = channels.map(channel => channel.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) throw new Error(`NOTIFICATION_CHANNELS has two channels named "${duplicate}"`);
+  return channels;
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+/**
+ * @param {object} [options]
+ * @param {Array} [options.channels] - Raw channel configs (defaults to NOTIFICATION_CHANNELS)
+ * @param {object} [options.smtp] - SMTP settings (defaults to SMTP_*)
+ * @param {string} [options.dashboardUrl] - Defaults to NOTIFICATION_DASHBOARD_URL
+ */
+function createNotifier(options = {}) {
+  const smtp = options.smtp !== undefined ? options.smtp : loadSmtpConfig();
+  const configs = options.channels
+    ? options.channels.map((config, index) => normalizeChannel(config, index, smtp))
+    : loadNotificationChannels(process.env, smtp);
+  const dashboardUrl = options.dashboardUrl || process.env.NOTIFICATION_DASHBOARD_URL || null;
+  const mailer = smtp ? createSmtpClient(smtp) : null;
+
+  // Newest last, trimmed to DELIVERY_LOG_SIZE
+  const deliveryLog = [];
+
+  function logDelivery(entry) {
+    deliveryLog.push(entry);
+    if (deliveryLog.length > DELIVERY_LOG_SIZE) deliveryLog.shift();
+  }
+
+  async function postWebhook(channel, events) {
+    const response = await fetch(channel.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...channel.headers },
+      body: JSON.stringify(renderWebhook(channel.template, events, { dashboardUrl })),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      const error = new Error(`Webhook responded ${response.status} ${response.statusText}`);
+      error.statusCode = response.status;
+      error.retryable = response.status === 429 || response.status >= 500;
+      throw error;
+    }
+    return response.status;
+  }
+
+  async function sendEmail(channel, events) {
+    const { subject, text } = renderEmail(events, { dashboardUrl });
+    await mailer.send({ from: smtp.from, to: channel.to, subject, text });
+    return null;
+  }
+
+  /**
+   * Deliver one digest, retrying network errors, 429 and 5xx
+   * @returns {Promise<object>} Delivery log entry
+   */
+  async function deliver(channel, events) {
+    const entry = {
+      delivery_id: crypto.randomUUID(),
+      channel: channel.name,
+      channel_type: channel.type,
+      status: 'pending',
+      event_types: [...new Set(events.map(event => event.type))],
+      events: events.length,
+      execution_ids: [...new Set(events.map(event => event.execution_id).filter(Boolean))],
+      digest: events.length > 1,
+      attempts: 0,
+      http_status: null,
+      error: null,
+      created_at: new Date().toISOString(),
+      delivered_at: null
+    };
+    logDelivery(entry);
+
+    while (entry.attempts < MAX_ATTEMPTS) {
+      entry.attempts += 1;
+      try {
+        entry.http_status = channel.type === 'webhook'
+          ? await postWebhook(channel, events)
+          : await sendEmail(channel, events);
+        entry.status = 'delivered';
+        entry.error = null;
+        entry.delivered_at = new Date().toISOString();
+        return entry;
+      } catch (error) {
+        entry.error = error.message;
+        entry.http_status = error.statusCode || null;
+        if (error.retryable === false) break;
+        if (entry.attempts < MAX_ATTEMPTS) await sleep(RETRY_BASE_MS * 2 ** (entry.attempts - 1));
+      }
+    }
+    entry.status = 'failed';
+    return entry;
+  }
+
+  const channels = configs.map(config => {
+    const state = {
+      config,
+      pending: [],
+      timer: null,
+      sending: false,
+      lastSentAt: 0,
+      delivered: 0,
+      failed: 0,
+      lastDeliveryAt: null,
+      lastError: null
+    };
+
+    async function flush() {
+      state.timer = null;
+      if (state.pending.length === 0) return;
+      const events = state.pending.splice(0);
+      state.sending = true;
+      state.lastSentAt = Date.now();
+
+      const entry = await deliver(config, events);
+      state.sending = false;
+      if (entry.status === 'delivered') {
+        state.delivered += 1;
+        state.lastDeliveryAt = entry.delivered_at;
+        console.log(`🔔 Notified ${config.name}: ${entry.event_types.join(', ')}${entry.digest ? ` (digest of ${entry.events})` : ''}`);
+      } else {
+        state.failed += 1;
+        state.lastError = entry.error;
+        console.log(`⚠️  Notification to ${config.name} failed after ${entry.attempts} attempts: ${entry.error}`);
+      }
+      schedule();
+    }
+
+    // Send now, or when the channel's throttle window ends
+    function schedule() {
+      if (state.timer || state.sending || state.pending.length === 0) return;
+      const wait = Math.max(state.lastSentAt + config.throttleMs - Date.now(), 0);
+      state.timer = setTimeout(flush, wait);
+      state.timer.unref();
+    }
+
+    return {
+      config,
+      enqueue(event) {
+        state.pending.push(event);
+        schedule();
+      },
+      status() {
+        return {
+          name: config.name,
+          type: config.type,
+          template: config.template,
+          events: config.events,
+          throttle_seconds: config.throttleMs / 1000,
+          pending_events: state.pending.length,
+          next_send_at: state.timer && state.pending.length > 0
+            ? new Date(Math.max(state.lastSentAt + config.throttleMs, Date.now())).toISOString()
+            : null,
+          delivered: state.delivered,
+          failed: state.failed,
+          last_delivery_at: state.lastDeliveryAt,
+          last_error: state.lastError
+        };
+      },
+      close() {
+        if (state.timer) clearTimeout(state.timer);
+        state.timer = null;
+      }
+    };
+  });
+
+  /**
+   * Queue an event for every channel subscribed to its type
+   * @param {object} event - { type, execution_id, ... } (see lib/notificationTemplates.js)
+   * @returns {number} Channels the event was queued for
+   */
+  function notify(event) {
+    const stamped = { ...event, at: event.at || new Date().toISOString() };
+    const subscribed = channels.filter(channel => channel.config.events.includes(event.type));
+    subscribed.forEach(channel => channel.enqueue(stamped));
+    return subscribed.length;
+  }
+
+  /**
+   * Send a test message right away, bypassing the throttle
+   * @param {string} name - Channel name
+   * @returns {Promise<object|null>} Delivery log entry, null for an unknown channel
+   */
+  async function sendTest(name) {
+    const channel = channels.find(candidate => candidate.config.name === name);
+    if (!channel) return null;
+    return deliver(channel.config, [{
+      type: 'test',
+      title: 'Test notification',
+      message: `DeepSoul can reach ${name}`,
+      at: new Date().toISOString()
+    }]);
+  }
+
+  function status() {
+    return channels.map(channel => channel.status());
+  }
+
+  /**
+   * @param {object} [filter]
+   * @param {string} [filter.channel]
+   * @param {number} [filter.limit] - Newest entries first (default 100)
+   */
+  function deliveries({ channel, limit = 100 } = {}) {
+    return deliveryLog
+      .filter(entry => !channel || entry.channel === channel)
+      .slice(-limit)
+      .reverse();
+  }
+
+  function close() {
+    channels.forEach(channel => channel.close());
+  }
+
+  return { enabled: channels.length > 0, notify, sendTest, status, deliveries, close };
+}
+
+module.exports = { createNotifier, loadNotificationChannels, NOTIFICATION_EVENTS };
@@ -0,0 +1,57 @@
+/**
+ * Cursor Pagination Helpers
+ *
+ * Cursors are opaque base64url tokens wrapping an offset into an
+ * append-only list, so a client can resume exactly where it left off.
+ */
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+
+function encodeCursor(offset) {
+  return Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+}
+
+/**
+ * Decode a cursor token back into an offset
+ * @param {string} [cursor] - Token from a previous page
+ * @returns {number|null} Offset, or null when the token is invalid
+ */
+function decodeCursor(cursor) {
+  if (!cursor) return 0;
+  try {
+    const { o } = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    return Number.isInteger(o) && o >= 0 ? o : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function parseLimit(limit) {
+  const parsed = parseInt(limit, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_LIMIT;
+  return Math.min(parsed, MAX_LIMIT);
+}
+
+/**
+ * Slice one page out of a list
+ * @param {Array} list - Full, append-only list
+ * @param {object} query - Request query ({ cursor, limit })
+ * @returns {{items: Array, next_cursor: string, has_more: boolean}|null}
+ */
+function paginate(list, { cursor, limit } = {}) {
+  const offset = decodeCursor(cursor);
+  if (offset === null) return null;
+
+  const pageSize = parseLimit(limit);
+  const items = list.slice(offset, offset + pageSize);
+  const nextOffset = offset + items.length;
+
+  return {
+    items,
+    next_cursor: encodeCursor(nextOffset),
+    has_more: nextOffset < list.length
+  };
+}
+
+module.exports = { encodeCursor, decodeCursor, parseLimit, paginate, DEFAULT_LIMIT, MAX_LIMIT };
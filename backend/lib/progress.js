@@ -0,0 +1,90 @@
+/**
+ * Execution Progress
+ *
+ * Authoritative progress, ETA and throughput for an execution, derived from
+ * the total_batches / progress_percent n8n sends with every batch and the
+ * time each batch was received.
+ */
+
+// Batch intervals averaged for the ETA - recent batches reflect current API latency
+const ETA_WINDOW = 5;
+
+function secondsBetween(from, to) {
+  return (new Date(to).getTime() - new Date(from).getTime()) / 1000;
+}
+
+function round(value, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Compute progress for an execution
+ * @param {object} execution - Stored execution record
+ * @param {Array} batches - Stored batch records, in arrival order
+ * @param {number} itemsProcessed - Results stored so far
+ * @returns {object} { percent, batches_received, total_batches, items_processed,
+ *   total_items, avg_batch_seconds, items_per_second, eta_seconds }
+ */
+function computeProgress(execution, batches, itemsProcessed) {
+  const config = execution.config || {};
+  const isCompleted = execution.status === 'completed';
+  const latest = batches[batches.length - 1];
+
+  const totalBatches = latest ? latest.total_batches : (config.expected_total_batches ?? null);
+  const hasFinished = isCompleted || execution.status === 'incomplete';
+  const totalItems = hasFinished ? execution.total_items : (config.max_items ?? null);
+
+  let percent = 0;
+  if (isCompleted) {
+    percent = 100;
+  } else if (latest) {
+    const reported = Math.max(...batches.map(batch => batch.progress_percent || 0));
+    const counted = totalBatches ? (batches.length / totalBatches) * 100 : 0;
+    // An incomplete run's last batch still reports 100% - count what actually arrived
+    percent = execution.status === 'incomplete' ? counted : (reported || counted);
+  }
+
+  // Time each batch from the previous one. Runs triggered through the backend
+  // also time the first batch from start_time; runs started elsewhere only
+  // become known at their first callback, so that interval would be ~0.
+  const marks = batches.map(batch => batch.received_at);
+  if (execution.config) marks.unshift(execution.start_time);
+  const intervals = [];
+  for (let i = 1; i < marks.length; i++) {
+    intervals.push(secondsBetween(marks[i - 1], marks[i]));
+  }
+  const recent = intervals.slice(-ETA_WINDOW);
+  const avgBatchSeconds = recent.length > 0
+    ? recent.reduce((sum, seconds) => sum + seconds, 0) / recent.length
+    : null;
+
+  const endTime = isCompleted && execution.completed_time
+    ? execution.completed_time
+    : (latest ? latest.received_at : null);
+  const elapsedSeconds = endTime && marks.length > 0 ? secondsBetween(marks[0], endTime) : 0;
+  // The untimed first batch's items don't count towards throughput either
+  const timedItems = execution.config || !latest ? itemsProcessed : itemsProcessed - batches[0].results_count;
+  const itemsPerSecond = elapsedSeconds > 0 ? timedItems / elapsedSeconds : null;
+
+  // Paused and cancelled runs have no meaningful ETA
+  let etaSeconds = null;
+  if (isCompleted) {
+    etaSeconds = 0;
+  } else if (execution.status === 'processing' && avgBatchSeconds !== null && totalBatches) {
+    etaSeconds = Math.max(totalBatches - batches.length, 0) * avgBatchSeconds;
+  }
+
+  return {
+    percent: round(Math.min(percent, 100)),
+    batches_received: batches.length,
+    total_batches: totalBatches,
+    items_processed: itemsProcessed,
+    total_items: totalItems,
+    avg_batch_seconds: avgBatchSeconds === null ? null : round(avgBatchSeconds),
+    items_per_second: itemsPerSecond === null ? null : round(itemsPerSecond),
+    eta_seconds: etaSeconds === null ? null : Math.round(etaSeconds)
+  };
+}
+
+module.exports = { computeProgress };
@@ -0,0 +1,299 @@
+/**
+ * Alert Routes
+ *
+ * Alert rules (managed from the dashboard's rule editor) and the alerts
+ * they raise. Rules are evaluated by lib/alertRules.js as batches arrive;
+ * new alerts are also pushed to execution streams as `alert` events.
+ * Alert state lives here too, so every analyst sees the same
+ * acknowledgements, snoozes and resolutions.
+ */
+
+const crypto = require('crypto');
+const express = require('express');
+const { sendError } = require('../http');
+const { parseAlertRule, withCurrentStatus, ALERT_STATUSES, RULE_SEVERITIES } = require('../alertRules');
+
+const MAX_LIMIT = 500;
+const MAX_SNOOZE_MINUTES = 7 * 24 * 60;
+
+// Lifecycle actions: which alerts accept them and the status they lead to
+const ALERT_ACTIONS = {
+  acknowledge: { status: 'acknowledged', allowed: alert => alert.status === 'open' || alert.status === 'snoozed' },
+  snooze: { status: 'snoozed', allowed: alert => alert.status !== 'resolved' },
+  resolve: { status: 'resolved', allowed: alert => alert.status !== 'resolved' },
+  reopen: { status: 'open', allowed: alert => alert.status !== 'open' }
+};
+
+function sendRuleError(res, error) {
+  if (!error.isRuleError) throw error;
+  return sendError(res, 400, 'Invalid alert rule', { errors: [{ path: error.path, message: error.message }] });
+}
+
+/**
+ * Parse the list filters of GET /alerts
+ * @returns {{filters: object}|{error: {path: string, message: string}}}
+ */
+function parseAlertFilters(query) {
+  const limit = query.limit === undefined ? 100 : parseInt(query.limit, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: { path: '/limit', message: `must be an integer between 1 and ${MAX_LIMIT}` } };
+  }
+
+  const list = value => (value ? String(value).split(',').map(item => item.trim()).filter(Boolean) : []);
+  const statuses = list(query.status);
+  const unknownStatus = statuses.find(status => !ALERT_STATUSES.includes(status));
+  if (unknownStatus) {
+    return { error: { path: '/status', message: `must be one of: ${ALERT_STATUSES.join(', ')}` } };
+  }
+  const severities = list(query.severity);
+  const unknownSeverity = severities.find(severity => !RULE_SEVERITIES.includes(severity));
+  if (unknownSeverity) {
+    return { error: { path: '/severity', message: `must be one of: ${RULE_SEVERITIES.join(', ')}` } };
+  }
+
+  const times = {};
+  for (const name of ['since', 'until']) {
+    if (query[name] === undefined) continue;
+    times[name] = Date.parse(query[name]);
+    if (Number.isNaN(times[name])) return { error: { path: `/${name}`, message: 'must be an ISO 8601 timestamp' } };
+  }
+
+  return {
+    filters: {
+      limit,
+      statuses,
+      severities,
+      executionId: query.execution_id,
+      ruleId: query.rule_id,
+      since: times.since,
+      until: times.until
+    }
+  };
+}
+
+/**
+ * Validate the body of a lifecycle action
+ * @returns {{changes: object}|{error: {path: string, message: string}}}
+ */
+function parseActionBody(action, body = {}) {
+  const analyst = body.analyst === undefined || body.analyst === null ? null : String(body.analyst).trim() || null;
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+  if (action === 'resolve' && !reason) {
+    return { error: { path: '/reason', message: 'is required to resolve an alert' } };
+  }
+
+  let until = null;
+  if (action === 'snooze') {
+    if (body.until !== undefined) {
+      until = Date.parse(body.until);
+      if (Number.isNaN(until)) return { error: { path: '/until', message: 'must be an ISO 8601 timestamp' } };
+      if (until <= Date.now()) return { error: { path: '/until', message: 'must be in the future' } };
+    } else {
+      const minutes = body.minutes;
+      if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SNOOZE_MINUTES) {
+        return { error: { path: '/minutes', message: `must be an integer between 1 and ${MAX_SNOOZE_MINUTES} (or give until)` } };
+      }
+      until = Date.now() + minutes * 60 * 1000;
+    }
+  }
+
+  return {
+    changes: {
+      analyst,
+      reason: reason || null,
+      until: until === null ? null : new Date(until).toISOString()
+    }
+  };
+}
+
+/**
+ * @param {object} deps
+ * @param {object} deps.store - Execution store (holds rules and alerts)
+ * @param {object} deps.events - Execution event bus
+ * @param {object} deps.alertEngine - Alert engine (see lib/alertRules.js)
+ */
+function createAlertsRouter({ store, events, alertEngine }) {
+  const router = express.Router();
+
+  // Alert history, newest activity first. Filters: ?status= and ?severity=
+  // (comma lists), ?execution_id=, ?rule_id=, ?since= / ?until= on last_seen_at,
+  // ?limit= (default 100, max 500). status_counts ignores the status filter.
+  router.get('/', (req, res) => {
+    const parsed = parseAlertFilters(req.query);
+    if (parsed.error) {
+      return sendError(res, 400, 'Invalid alert query', { errors: [parsed.error] });
+    }
+
+    const { filters } = parsed;
+    const now = Date.now();
+    const matching = store.listAlerts()
+      .map(alert => withCurrentStatus(alert, now))
+      .filter(alert => !filters.executionId || alert.execution_ids.includes(filters.executionId))
+      .filter(alert => !filters.ruleId || alert.rule_id === filters.ruleId)
+      .filter(alert => filters.severities.length === 0 || filters.severities.includes(alert.severity))
+      .filter(alert => filters.since === undefined || Date.parse(alert.last_seen_at) >= filters.since)
+      .filter(alert => filters.until === undefined || Date.parse(alert.last_seen_at) <= filters.until);
+
+    const statusCounts = Object.fromEntries(ALERT_STATUSES.map(status => [status, 0]));
+    matching.forEach(alert => { statusCounts[alert.status] += 1; });
+
+    const alerts = matching
+      .filter(alert => filters.statuses.length === 0 || filters.statuses.includes(alert.status))
+      .sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at));
+
+    res.status(200).json({
+      total_alerts: alerts.length,
+      status_counts: statusCounts,
+      alerts: alerts.slice(0, filters.limit),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // ============================================================
+  // RULES
+  // ============================================================
+
+  router.get('/rules', (req, res) => {
+    const rules = store.listAlertRules()
+      .slice()
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    res.status(200).json({
+      total_rules: rules.length,
+      rules,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  router.post('/rules', (req, res) => {
+    let fields;
+    try {
+      fields = parseAlertRule(req.body);
+    } catch (error) {
+      return sendRuleError(res, error);
+    }
+
+    const now = new Date().toISOString();
+    const rule = store.putAlertRule(crypto.randomUUID(), { ...fields, created_at: now, updated_at: now });
+    console.log(`🚨 Alert rule "${rule.name}" created (${rule.type})`);
+    res.status(201).json({ ...rule, timestamp: now });
+  });
+
+  // Body: { rule, execution_id } - what the rule would raise on a stored run
+  router.post('/rules/preview', (req, res) => {
+    const executionId = req.body && req.body.execution_id;
+    if (typeof executionId !== 'string' || !executionId) {
+      return sendError(res, 400, 'Invalid preview request', { errors: [{ path: '/execution_id', message: 'is required' }] });
+    }
+    if (!store.getExecution(executionId)) {
+      return sendError(res, 404, `Execution not found: ${executionId}`);
+    }
+
+    let fields;
+    try {
+      fields = parseAlertRule(req.body.rule);
+    } catch (error) {
+      if (error.isRuleError) error.path = `/rule${error.path === '/' ? '' : error.path}`;
+      return sendRuleError(res, error);
+    }
+
+    const alerts = alertEngine.preview(fields, executionId);
+    res.status(200).json({
+      execution_id: executionId,
+      total_alerts: alerts.length,
+      alerts,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  router.get('/rules/:ruleId', (req, res) => {
+    const rule = store.getAlertRule(req.params.ruleId);
+    if (!rule) {
+      return sendError(res, 404, `Alert rule not found: ${req.params.ruleId}`);
+    }
+    res.status(200).json({ ...rule, timestamp: new Date().toISOString() });
+  });
+
+  // Full replacement - omitted optional fields fall back to their defaults
+  router.put('/rules/:ruleId', (req, res) => {
+    const existing = store.getAlertRule(req.params.ruleId);
+    if (!existing) {
+      return sendError(res, 404, `Alert rule not found: ${req.params.ruleId}`);
+    }
+
+    let fields;
+    try {
+      fields = parseAlertRule(req.body);
+    } catch (error) {
+      return sendRuleError(res, error);
+    }
+
+    const now = new Date().toISOString();
+    const rule = store.putAlertRule(existing.rule_id, { ...fields, created_at: existing.created_at, updated_at: now });
+    console.log(`🚨 Alert rule "${rule.name}" updated`);
+    res.status(200).json({ ...rule, timestamp: now });
+  });
+
+  router.delete('/rules/:ruleId', (req, res) => {
+    if (!store.deleteAlertRule(req.params.ruleId)) {
+      return sendError(res, 404, `Alert rule not found: ${req.params.ruleId}`);
+    }
+    alertEngine.forget(req.params.ruleId);
+    console.log(`🗑️  Alert rule ${req.params.ruleId} deleted`);
+    res.status(204).end();
+  });
+
+  // ============================================================
+  // ALERTS
+  // ============================================================
+
+  // Resolve the alert once for every /:id route
+  router.param('id', (req, res, next, id) => {
+    const alert = store.getAlert(id);
+    if (!alert) {
+      return sendError(res, 404, `Alert not found: ${id}`);
+    }
+    req.alert = withCurrentStatus(alert);
+    next();
+  });
+
+  router.get('/:id', (req, res) => {
+    res.status(200).json({ ...req.alert, timestamp: new Date().toISOString() });
+  });
+
+  // Acknowledge / snooze / resolve / reopen
+  // Body: { analyst?, reason? } - snooze also takes { until } or { minutes }, resolve needs a reason
+  Object.entries(ALERT_ACTIONS).forEach(([action, transition]) => {
+    router.post(`/:id/${action}`, (req, res) => {
+      const { alert } = req;
+      if (!transition.allowed(alert)) {
+        return sendError(res, 409, `Cannot ${action} alert in status: ${alert.status}`);
+      }
+
+      const parsed = parseActionBody(action, req.body || {});
+      if (parsed.error) {
+        return sendError(res, 400, `Invalid ${action} request`, { errors: [parsed.error] });
+      }
+
+      const { analyst, reason, until } = parsed.changes;
+      const at = new Date().toISOString();
+      const updated = store.putAlert(alert.alert_id, {
+        ...alert,
+        status: transition.status,
+        snoozed_until: action === 'snooze' ? until : null,
+        resolution: action === 'resolve' ? { reason, analyst, at } : null,
+        history: [...alert.history, { action, status: transition.status, analyst, reason, until, at }]
+      });
+
+      console.log(`🚨 Alert ${alert.alert_id} → ${transition.status}${analyst ? ` (${analyst})` : ''}`);
+      updated.execution_ids.forEach(executionId => events.publish(executionId, 'alert', { alert: updated, action }));
+
+      res.status(200).json({ ...updated, timestamp: at });
+    });
+  });
+
+  return router;
+}
+
+module.exports = { createAlertsRouter };
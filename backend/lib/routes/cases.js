@@ -0,0 +1,296 @@
+/**
+ * Case Routes
+ *
+ * Analyst cases grouping related results (see lib/cases.js). Every change
+ * is appended to the case's timeline, so the case doubles as the record
+ * of how it was handled.
+ */
+
+const crypto = require('crypto');
+const express = require('express');
+const { sendError } = require('../http');
+const {
+  parseNewCase,
+  parseCaseUpdate,
+  parseEventSelector,
+  parseNoteText,
+  parseAnalyst,
+  selectEvents,
+  eventIdOf,
+  toCaseEvent,
+  eventKey,
+  seedPriority,
+  defaultTitle,
+  timelineEntry,
+  summarizeCase,
+  CASE_STATUSES,
+  CASE_PRIORITIES
+} = require('../cases');
+const { resultsWithVerdicts } = require('../verdicts');
+
+const MAX_LIMIT = 500;
+
+function sendCaseError(res, error, message = 'Invalid case request') {
+  if (!error.isCaseError) throw error;
+  return sendError(res, 400, message, { errors: [{ path: error.path, message: error.message }] });
+}
+
+/**
+ * Parse the list filters of GET /cases
+ * @returns {{filters: object}|{error: {path: string, message: string}}}
+ */
+function parseCaseFilters(query) {
+  const limit = query.limit === undefined ? 100 : parseInt(query.limit, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: { path: '/limit', message: `must be an integer between 1 and ${MAX_LIMIT}` } };
+  }
+
+  const list = value => (value ? String(value).split(',').map(item => item.trim()).filter(Boolean) : []);
+  const statuses = list(query.status);
+  if (statuses.some(status => !CASE_STATUSES.includes(status))) {
+    return { error: { path: '/status', message: `must be one of: ${CASE_STATUSES.join(', ')}` } };
+  }
+  const priorities = list(query.priority).map(priority => priority.toUpperCase());
+  if (priorities.some(priority => !CASE_PRIORITIES.includes(priority))) {
+    return { error: { path: '/priority', message: `must be one of: ${CASE_PRIORITIES.join(', ')}` } };
+  }
+
+  return {
+    filters: {
+      limit,
+      statuses,
+      priorities,
+      assignee: query.assignee === undefined ? undefined : String(query.assignee).trim().toLowerCase(),
+      executionId: query.execution_id,
+      srcIp: query.src_ip
+    }
+  };
+}
+
+/**
+ * @param {object} deps
+ * @param {object} deps.store - Execution store (holds the cases and the results they refer to)
+ */
+function createCasesRouter({ store }) {
+  const router = express.Router();
+
+  // Attach the results a selector refers to, skipping ones already on the case
+  function attachEvents(record, selector, analyst) {
+    const at = new Date().toISOString();
+    const known = new Set(record.events.map(eventKey));
+    return selectEvents(store.getResults(selector.executionId), selector)
+      .map(selected => toCaseEvent(selector.executionId, selected, analyst, at))
+      .filter(event => !known.has(eventKey(event)));
+  }
+
+  function saveCase(record) {
+    return store.putCase(record.case_id, { ...record, updated_at: new Date().toISOString() });
+  }
+
+  // Case list, most recently updated first. Filters: ?status= and ?priority=
+  // (comma lists), ?assignee= ("none" for unassigned), ?execution_id=, ?src_ip=,
+  // ?limit= (default 100, max 500). status_counts ignores the status filter.
+  router.get('/', (req, res) => {
+    const parsed = parseCaseFilters(req.query);
+    if (parsed.error) {
+      return sendError(res, 400, 'Invalid case query', { errors: [parsed.error] });
+    }
+
+    const { filters } = parsed;
+    const assigneeMatches = record => {
+      if (filters.assignee === undefined) return true;
+      if (filters.assignee === 'none') return !record.assignee;
+      return (record.assignee || '').toLowerCase() === filters.assignee;
+    };
+
+    const matching = store.listCases()
+      .filter(record => filters.priorities.length === 0 || filters.priorities.includes(record.priority))
+      .filter(assigneeMatches)
+      .filter(record => !filters.executionId || record.events.some(event => event.execution_id === filters.executionId))
+      .filter(record => !filters.srcIp || record.events.some(event => event.src_ip === filters.srcIp));
+
+    const statusCounts = Object.fromEntries(CASE_STATUSES.map(status => [status, 0]));
+    matching.forEach(record => { statusCounts[record.status] += 1; });
+
+    const cases = matching
+      .filter(record => filters.statuses.length === 0 || filters.statuses.includes(record.status))
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+    res.status(200).json({
+      total_cases: cases.length,
+      status_counts: statusCounts,
+      cases: cases.slice(0, filters.limit).map(summarizeCase),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Body: { execution_id, unique_ids | src_ip, title?, assignee?, priority?, note?, analyst? }
+  router.post('/', (req, res) => {
+    let input;
+    let events;
+    try {
+      input = parseNewCase(req.body);
+      if (!store.getExecution(input.selector.executionId)) {
+        return sendError(res, 404, `Execution not found: ${input.selector.executionId}`);
+      }
+      events = attachEvents({ events: [] }, input.selector, input.analyst);
+    } catch (error) {
+      return sendCaseError(res, error);
+    }
+
+    const { selector, analyst } = input;
+    const timeline = [
+      timelineEntry('created', analyst),
+      timelineEntry('attached', analyst, {
+        execution_id: selector.executionId,
+        event_ids: events.map(event => event.event_id),
+        src_ip: selector.srcIp
+      })
+    ];
+    if (input.note) timeline.push(timelineEntry('note', analyst, { text: input.note }));
+
+    const now = new Date().toISOString();
+    const record = store.putCase(crypto.randomUUID(), {
+      title: input.title || defaultTitle(selector, events),
+      status: 'new',
+      priority: input.priority || seedPriority(events),
+      assignee: input.assignee,
+      created_by: analyst,
+      events,
+      timeline,
+      created_at: now,
+      updated_at: now
+    });
+
+    console.log(`🗂️  Case "${record.title}" opened (${events.length} events, ${record.priority})`);
+    res.status(201).json({ ...record, timestamp: now });
+  });
+
+  // Resolve the case once for every /:id route
+  router.param('id', (req, res, next, id) => {
+    const record = store.getCase(id);
+    if (!record) {
+      return sendError(res, 404, `Case not found: ${id}`);
+    }
+    req.case = record;
+    next();
+  });
+
+  // The case with each event's full result joined back in, analyst verdicts
+  // applied (null if its run is gone)
+  router.get('/:id', (req, res) => {
+    const resultsByRun = new Map();
+    const lookup = executionId => {
+      if (!resultsByRun.has(executionId)) {
+        const index = new Map();
+        resultsWithVerdicts(store, executionId).forEach((result, position) => {
+          index.set(eventIdOf(result, executionId, position), result);
+        });
+        resultsByRun.set(executionId, index);
+      }
+      return resultsByRun.get(executionId);
+    };
+
+    res.status(200).json({
+      ...req.case,
+      events: req.case.events.map(event => ({
+        ...event,
+        result: lookup(event.execution_id).get(event.event_id) || null
+      })),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Body: any of { status, assignee, priority, title }, plus analyst
+  router.patch('/:id', (req, res) => {
+    let update;
+    try {
+      update = parseCaseUpdate(req.body);
+    } catch (error) {
+      return sendCaseError(res, error);
+    }
+
+    const { changes, analyst } = update;
+    const entries = Object.entries(changes)
+      .filter(([field, value]) => req.case[field] !== value)
+      .map(([field, value]) => timelineEntry(field, analyst, { from: req.case[field], to: value }));
+
+    if (entries.length === 0) {
+      return res.status(200).json({ ...req.case, timestamp: new Date().toISOString() });
+    }
+
+    const record = saveCase({ ...req.case, ...changes, timeline: [...req.case.timeline, ...entries] });
+    if (changes.status && changes.status !== req.case.status) {
+      console.log(`🗂️  Case ${record.case_id} → ${record.status}${analyst ? ` (${analyst})` : ''}`);
+    }
+    res.status(200).json({ ...record, timestamp: record.updated_at });
+  });
+
+  // Body: { text, analyst? }
+  router.post('/:id/notes', (req, res) => {
+    let text;
+    try {
+      text = parseNoteText((req.body || {}).text);
+    } catch (error) {
+      return sendCaseError(res, error, 'Invalid note');
+    }
+
+    const analyst = parseAnalyst((req.body || {}).analyst);
+    const record = saveCase({ ...req.case, timeline: [...req.case.timeline, timelineEntry('note', analyst, { text })] });
+    res.status(201).json({ ...record, timestamp: record.updated_at });
+  });
+
+  // Body: { execution_id, unique_ids | src_ip, analyst? } - related results from any run
+  router.post('/:id/events', (req, res) => {
+    if (req.case.status === 'closed') {
+      return sendError(res, 409, 'Cannot attach events to a closed case');
+    }
+
+    const analyst = parseAnalyst((req.body || {}).analyst);
+    let selector;
+    let added;
+    try {
+      selector = parseEventSelector(req.body || {});
+      if (!store.getExecution(selector.executionId)) {
+        return sendError(res, 404, `Execution not found: ${selector.executionId}`);
+      }
+      added = attachEvents(req.case, selector, analyst);
+    } catch (error) {
+      return sendCaseError(res, error);
+    }
+
+    if (added.length === 0) {
+      return res.status(200).json({ ...req.case, attached: 0, timestamp: new Date().toISOString() });
+    }
+
+    const entry = timelineEntry('attached', analyst, {
+      execution_id: selector.executionId,
+      event_ids: added.map(event => event.event_id),
+      src_ip: selector.srcIp
+    });
+    const record = saveCase({ ...req.case, events: [...req.case.events, ...added], timeline: [...req.case.timeline, entry] });
+    res.status(200).json({ ...record, attached: added.length, timestamp: record.updated_at });
+  });
+
+  // Detach one event; the timeline keeps the record of it
+  router.delete('/:id/events/:executionId/:eventId', (req, res) => {
+    const { executionId, eventId } = req.params;
+    const key = eventKey({ execution_id: executionId, event_id: eventId });
+    if (!req.case.events.some(event => eventKey(event) === key)) {
+      return sendError(res, 404, `Event not on case: ${eventId}`);
+    }
+
+    const analyst = parseAnalyst(req.query.analyst);
+    const entry = timelineEntry('detached', analyst, { execution_id: executionId, event_ids: [eventId], src_ip: null });
+    const record = saveCase({
+      ...req.case,
+      events: req.case.events.filter(event => eventKey(event) !== key),
+      timeline: [...req.case.timeline, entry]
+    });
+    res.status(200).json({ ...record, timestamp: record.updated_at });
+  });
+
+  return router;
+}
+
+module.exports = { createCasesRouter };
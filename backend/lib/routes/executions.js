@@ -0,0 +1,523 @@
+/**
+ * Execution Routes
+ *
+ * Triggers runs on n8n and serves per-execution metadata, batches and
+ * cursor-paginated results, so clients no longer need to download the
+ * whole /status payload. /:id/query filters, sorts and facets results
+ * server-side for executions too large to explore in the browser, and
+ * /:id/export downloads the same filtered set as CSV, NDJSON, STIX 2.1 or
+ * a MISP event.
+ * Analysts overrule the AI verdict on single results through /:id/verdicts;
+ * every route below serves results and summaries with those verdicts applied.
+ * /:id/metrics and /metrics score the AI against those verdicts.
+ * Live updates are pushed over Server-Sent Events from /:id/events.
+ */
+
+const express = require('express');
+const { paginate, encodeCursor } = require('../pagination');
+const { sendError } = require('../http');
+const { computeProgress } = require('../progress');
+const { breakdownResults, facetCounts, aggregateResults, TIME_BUCKETS } = require('../aggregations');
+const { computeBatchReport } = require('../batchReport');
+const { compileQuery, compileSort, resolveField } = require('../threatQuery');
+const { exportResults, EXPORT_FORMATS } = require('../exporters');
+const { parseVerdict, findResult, resultsWithVerdicts, summarizeWithVerdicts } = require('../verdicts');
+const { computeDetectionMetrics } = require('../detectionMetrics');
+const { eventIdOf } = require('../cases');
+
+// ============================================================
+// SERIALIZERS
+// ============================================================
+
+/**
+ * Shape an execution record for API responses
+ * @param {object} store - Execution store
+ * @param {object} execution - Stored execution record
+ */
+function toExecutionResponse(store, execution) {
+  const id = execution.execution_id;
+  const batches = store.getBatches(id);
+  const resultsCount = store.countResults(id);
+  const verdicts = store.getVerdicts(id);
+  return {
+    execution_id: id,
+    workflow_id: execution.workflow_id,
+    status: execution.status,
+    start_time: execution.start_time,
+    completed_time: execution.completed_time,
+    batches_received: batches.length,
+    final_summary: summarizeWithVerdicts(execution.final_summary, id, store.getResults(id), verdicts),
+    ai_final_summary: execution.final_summary,
+    verdict_count: verdicts.length,
+    total_items: execution.total_items,
+    total_results_count: resultsCount,
+    error: execution.error || null,
+    config: execution.config || null,
+    control: execution.control || 'run',
+    progress: computeProgress(execution, batches, resultsCount),
+    batch_report: computeBatchReport(execution, batches)
+  };
+}
+
+// ============================================================
+// ROUTER
+// ============================================================
+
+const SSE_HEARTBEAT_MS = 15000;
+
+// Statuses after which n8n sends nothing more (bar late retries)
+const TERMINAL_STATUSES = ['completed', 'incomplete', 'cancelled', 'failed'];
+
+// Control requests: which executions accept them and the flag n8n will see
+const CONTROL_REQUESTS = {
+  pause: { action: 'pause', allowed: execution => execution.status === 'processing' && execution.control === 'run' },
+  resume: { action: 'run', allowed: execution => execution.status === 'paused' || execution.control === 'pause' },
+  cancel: { action: 'cancel', allowed: execution => !TERMINAL_STATUSES.includes(execution.status) }
+};
+
+// Facets returned by /:id/query when the request doesn't pick its own
+const DEFAULT_FACETS = ['severity', 'attack_type', 'protocol', 'action', 'classification'];
+
+/**
+ * Parse the ?q=&bucket=&last=&top= parameters shared by the aggregate routes
+ * @returns {{matches: Function, options: object}|{error: {path: string, message: string}}}
+ */
+function parseAggregateQuery(query) {
+  const bucket = query.bucket || 'day';
+  if (!TIME_BUCKETS.includes(bucket)) {
+    return { error: { path: '/bucket', message: `bucket must be one of: ${TIME_BUCKETS.join(', ')}` } };
+  }
+
+  let matches;
+  try {
+    matches = compileQuery(query.q);
+  } catch (error) {
+    if (!error.isQueryError) throw error;
+    return { error: { path: '/q', message: error.message } };
+  }
+
+  const last = parseInt(query.last, 10);
+  const top = parseInt(query.top, 10);
+  return {
+    matches,
+    options: {
+      bucket,
+      last: Number.isFinite(last) && last > 0 ? last : undefined,
+      topLimit: Number.isFinite(top) && top > 0 ? top : undefined
+    }
+  };
+}
+
+function writeSseEvent(res, id, type, data) {
+  res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * @param {object} deps
+ * @param {object} deps.store - Execution store
+ * @param {object} deps.events - Event bus for live updates
+ * @param {object} deps.n8n - n8n webhook client (see lib/n8nClient.js)
+ * @param {Function} deps.validateConfig - WorkflowConfig validation middleware
+ * @param {string} deps.callbackUrl - Default callback URL handed to n8n
+ */
+function createExecutionsRouter({ store, events, n8n, validateConfig, callbackUrl }) {
+  const router = express.Router();
+
+  // Run history, newest first - metadata only, results stay behind /:id/results
+  router.get('/', (req, res) => {
+    const executions = store.listExecutions()
+      .sort((a, b) => new Date(b.start_time) - new Date(a.start_time))
+      .map(execution => toExecutionResponse(store, execution));
+
+    res.status(200).json({
+      total_executions: executions.length,
+      executions,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Chart aggregates across executions (?execution_ids=a,b - default: all)
+  // Registered before /:id so "aggregates" isn't taken for an execution id
+  router.get('/aggregates', (req, res) => {
+    const parsed = parseAggregateQuery(req.query);
+    if (parsed.error) {
+      return sendError(res, 400, 'Invalid aggregate query', { errors: [parsed.error] });
+    }
+
+    // A repeated id would count its results twice
+    const executionIds = req.query.execution_ids
+      ? [...new Set(String(req.query.execution_ids).split(',').map(id => id.trim()).filter(Boolean))]
+      : store.listExecutions().map(execution => execution.execution_id);
+    const unknown = executionIds.filter(id => !store.getExecution(id));
+    if (unknown.length > 0) {
+      return sendError(res, 404, `Execution not found: ${unknown.join(', ')}`);
+    }
+
+    const results = executionIds.flatMap(id => resultsWithVerdicts(store, id)).filter(result => parsed.matches(result));
+    res.status(200).json({
+      execution_ids: executionIds,
+      query: req.query.q || '',
+      ...aggregateResults(results, parsed.options),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Detection quality across executions (?execution_ids=a,b - default: all)
+  router.get('/metrics', (req, res) => {
+    // A repeated id would score its samples twice
+    const executionIds = req.query.execution_ids
+      ? [...new Set(String(req.query.execution_ids).split(',').map(id => id.trim()).filter(Boolean))]
+      : store.listExecutions().map(execution => execution.execution_id);
+    const unknown = executionIds.filter(id => !store.getExecution(id));
+    if (unknown.length > 0) {
+      return sendError(res, 404, `Execution not found: ${unknown.join(', ')}`);
+    }
+
+    res.status(200).json({
+      execution_ids: executionIds,
+      ...computeDetectionMetrics(store, executionIds),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Trigger a new run - n8n answers immediately, results arrive via /callback
+  router.post('/', validateConfig, async (req, res) => {
+    const config = req.body;
+    const body = {
+      csv_path: config.csv_path,
+      callback_url: config.callback_url || callbackUrl,
+      batch_size: config.batch_size,
+      max_items: config.max_items
+    };
+
+    let triggered;
+    try {
+      triggered = await n8n.triggerWorkflow(body);
+    } catch (error) {
+      console.error(`❌ Failed to trigger workflow: ${error.message}`);
+      return sendError(res, 502, `Failed to trigger workflow: ${error.message}`);
+    }
+
+    const executionId = String(triggered.execution_id);
+    const execution = store.upsertExecution(executionId, {
+      workflow_id: triggered.workflow_id ? String(triggered.workflow_id) : null,
+      config: {
+        batch_size: body.batch_size,
+        max_items: body.max_items,
+        csv_path: body.csv_path,
+        expected_total_batches: Math.ceil(body.max_items / body.batch_size)
+      }
+    });
+
+    console.log(`🚀 Triggered execution ${executionId} (${body.max_items} items, batches of ${body.batch_size})`);
+    events.publish(executionId, 'started', { data: { config: execution.config } });
+
+    res.status(202).json({
+      ...toExecutionResponse(store, execution),
+      message: 'Workflow started successfully',
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // SSE stream - registered before router.param so clients may subscribe
+  // before n8n's first callback creates the execution
+  router.get('/:executionId/events', (req, res) => {
+    const { executionId } = req.params;
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.flushHeaders();
+    res.write('retry: 3000\n\n');
+
+    let eventId = 0;
+    const send = (event) => writeSseEvent(res, ++eventId, event.type, event);
+
+    // A late subscriber to a finished run gets the completion straight away
+    const execution = store.getExecution(executionId);
+    if (execution && TERMINAL_STATUSES.includes(execution.status)) {
+      send({
+        type: execution.status === 'cancelled' || execution.status === 'failed' ? execution.status : 'completed',
+        ...toExecutionResponse(store, execution),
+        next_cursor: encodeCursor(store.countResults(executionId))
+      });
+    }
+
+    const unsubscribe = events.subscribe(executionId, send);
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+    console.log(`📡 SSE client subscribed to ${executionId}`);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      console.log(`📴 SSE client left ${executionId}`);
+    });
+  });
+
+  // Resolve the execution once for every /:id route
+  router.param('id', (req, res, next, id) => {
+    const execution = store.getExecution(id);
+    if (!execution) {
+      return sendError(res, 404, `Execution not found: ${id}`);
+    }
+    req.execution = execution;
+    next();
+  });
+
+  router.get('/:id', (req, res) => {
+    res.status(200).json({
+      ...toExecutionResponse(store, req.execution),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  router.get('/:id/batches', (req, res) => {
+    // Stored in arrival order; reported in batch order
+    const batches = [...store.getBatches(req.execution.execution_id)]
+      .sort((a, b) => a.batch_number - b.batch_number);
+    res.status(200).json({
+      execution_id: req.execution.execution_id,
+      batches,
+      total_batches_received: batches.length,
+      batch_report: computeBatchReport(req.execution, batches),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Severity mix and top attack types, for comparing runs
+  router.get('/:id/breakdown', (req, res) => {
+    const limit = parseInt(req.query.limit, 10);
+    res.status(200).json({
+      execution_id: req.execution.execution_id,
+      ...breakdownResults(resultsWithVerdicts(store, req.execution.execution_id), {
+        topLimit: Number.isFinite(limit) && limit > 0 ? limit : undefined
+      }),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Chart aggregates - severity timeline, hour-of-day, category and top-N counts
+  // e.g. ?bucket=hour&last=24&q=severity:high
+  router.get('/:id/aggregates', (req, res) => {
+    const parsed = parseAggregateQuery(req.query);
+    if (parsed.error) {
+      return sendError(res, 400, 'Invalid aggregate query', { errors: [parsed.error] });
+    }
+
+    const results = resultsWithVerdicts(store, req.execution.execution_id).filter(result => parsed.matches(result));
+    res.status(200).json({
+      execution_id: req.execution.execution_id,
+      query: req.query.q || '',
+      ...aggregateResults(results, parsed.options),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Precision, recall, F1 and confusion matrix of the AI against analyst verdicts
+  router.get('/:id/metrics', (req, res) => {
+    const { executions, ...metrics } = computeDetectionMetrics(store, [req.execution.execution_id]);
+    res.status(200).json({
+      execution_id: req.execution.execution_id,
+      ...metrics,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Polled by the workflow between batches (see the Rate Limiter node)
+  router.get('/:id/control', (req, res) => {
+    res.status(200).json({
+      execution_id: req.execution.execution_id,
+      action: req.execution.control || 'run',
+      status: req.execution.status,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Pause / resume / cancel - n8n acts on the flag and confirms through /callback
+  Object.entries(CONTROL_REQUESTS).forEach(([name, request]) => {
+    router.post(`/:id/${name}`, (req, res) => {
+      const { execution } = req;
+      if (!request.allowed({ ...execution, control: execution.control || 'run' })) {
+        return sendError(res, 409, `Cannot ${name} execution in status: ${execution.status}`);
+      }
+
+      const updated = store.upsertExecution(execution.execution_id, { control: request.action });
+      console.log(`🎛️  ${name} requested for ${execution.execution_id}`);
+      events.publish(execution.execution_id, 'control', { action: request.action });
+
+      res.status(202).json({
+        ...toExecutionResponse(store, updated),
+        timestamp: new Date().toISOString()
+      });
+    });
+  });
+
+  router.get('/:id/results', (req, res) => {
+    const results = resultsWithVerdicts(store, req.execution.execution_id);
+    const page = paginate(results, req.query);
+
+    if (!page) {
+      return sendError(res, 400, 'Invalid cursor');
+    }
+
+    res.status(200).json({
+      execution_id: req.execution.execution_id,
+      results: page.items,
+      next_cursor: page.next_cursor,
+      has_more: page.has_more,
+      total_results_count: results.length,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Filter, sort and page through results server-side (see lib/threatQuery.js)
+  // e.g. ?q=severity:high AND risk>=70&sort=-risk&facets=attack_type,protocol
+  router.get('/:id/query', (req, res) => {
+    const facetNames = req.query.facets === undefined
+      ? DEFAULT_FACETS
+      : String(req.query.facets).split(',').map(name => name.trim()).filter(Boolean);
+    const facetLimit = parseInt(req.query.facet_limit, 10);
+
+    // Report which parameter a syntax error came from
+    let param = 'q';
+    let matches, compare, facets;
+    try {
+      matches = compileQuery(req.query.q);
+      param = 'sort';
+      compare = compileSort(req.query.sort);
+      param = 'facets';
+      facets = facetNames.map(name => ({ name, field: resolveField(name).field }));
+    } catch (error) {
+      if (!error.isQueryError) throw error;
+      return sendError(res, 400, 'Invalid query', { errors: [{ path: `/${param}`, message: error.message }] });
+    }
+
+    const results = resultsWithVerdicts(store, req.execution.execution_id);
+    const matched = results.filter(result => matches(result));
+    // Array.prototype.sort is stable, so ties keep their stored order
+    if (compare) matched.sort(compare);
+
+    const page = paginate(matched, req.query);
+    if (!page) {
+      return sendError(res, 400, 'Invalid cursor');
+    }
+
+    res.status(200).json({
+      execution_id: req.execution.execution_id,
+      query: req.query.q || '',
+      sort: req.query.sort || null,
+      results: page.items,
+      next_cursor: page.next_cursor,
+      has_more: page.has_more,
+      total_matches: matched.length,
+      total_results_count: results.length,
+      facets: facetCounts(matched, facets, Number.isFinite(facetLimit) && facetLimit > 0 ? facetLimit : undefined),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // ============================================================
+  // VERDICTS
+  // ============================================================
+
+  router.get('/:id/verdicts', (req, res) => {
+    const verdicts = store.getVerdicts(req.execution.execution_id)
+      .slice()
+      .sort((a, b) => b.at.localeCompare(a.at));
+
+    res.status(200).json({
+      execution_id: req.execution.execution_id,
+      total_verdicts: verdicts.length,
+      verdicts,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Body: { verdict: TRUE_POSITIVE | FALSE_POSITIVE, reason, analyst? }
+  router.put('/:id/verdicts/:eventId', (req, res) => {
+    const executionId = req.execution.execution_id;
+    const { eventId } = req.params;
+    const result = findResult(store.getResults(executionId), executionId, eventId);
+    if (!result) {
+      return sendError(res, 404, `Result not found: ${eventId}`);
+    }
+
+    let fields;
+    try {
+      fields = parseVerdict(req.body);
+    } catch (error) {
+      if (!error.isVerdictError) throw error;
+      return sendError(res, 400, 'Invalid verdict', { errors: [{ path: error.path, message: error.message }] });
+    }
+
+    const replaced = store.getVerdicts(executionId).some(verdict => verdict.event_id === eventId);
+    const verdict = store.putVerdict(executionId, {
+      event_id: eventId,
+      ...fields,
+      ai_classification: result.consensus_classification ?? null,
+      at: new Date().toISOString()
+    });
+
+    console.log(`⚖️  ${eventId} marked ${verdict.verdict} (AI: ${verdict.ai_classification || 'none'})${verdict.analyst ? ` by ${verdict.analyst}` : ''}`);
+    events.publish(executionId, 'verdict', { event_id: eventId, verdict });
+
+    res.status(replaced ? 200 : 201).json({ ...verdict, timestamp: verdict.at });
+  });
+
+  // Back to the AI verdict
+  router.delete('/:id/verdicts/:eventId', (req, res) => {
+    const executionId = req.execution.execution_id;
+    if (!store.deleteVerdict(executionId, req.params.eventId)) {
+      return sendError(res, 404, `No verdict on: ${req.params.eventId}`);
+    }
+    console.log(`⚖️  Verdict on ${req.params.eventId} cleared`);
+    events.publish(executionId, 'verdict', { event_id: req.params.eventId, verdict: null });
+    res.status(204).end();
+  });
+
+  // Download the filtered result set - same q / sort as /:id/query, no paging
+  // e.g. ?format=stix&q=severity:high
+  router.get('/:id/export', (req, res) => {
+    const format = String(req.query.format || 'csv').toLowerCase();
+    if (!EXPORT_FORMATS[format]) {
+      return sendError(res, 400, `Invalid format: ${format}`, {
+        errors: [{ path: '/format', message: `must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` }]
+      });
+    }
+
+    let param = 'q';
+    let matches, compare;
+    try {
+      matches = compileQuery(req.query.q);
+      param = 'sort';
+      compare = compileSort(req.query.sort);
+    } catch (error) {
+      if (!error.isQueryError) throw error;
+      return sendError(res, 400, 'Invalid query', { errors: [{ path: `/${param}`, message: error.message }] });
+    }
+
+    const executionId = req.execution.execution_id;
+    // Event ids are keyed by the position in the stored run, not in the export
+    const stored = resultsWithVerdicts(store, executionId);
+    const eventIds = new Map(stored.map((result, index) => [result, eventIdOf(result, executionId, index)]));
+    const matched = stored.filter(result => matches(result));
+    if (compare) matched.sort(compare);
+
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    console.log(`📦 Exporting ${matched.length} results of ${executionId} as ${format}`);
+    res.set('Content-Type', contentType);
+    res.set('Content-Disposition', `attachment; filename="deepsoul-${executionId.replace(/[^\w.-]/g, '_')}.${extension}"`);
+    res.status(200).send(exportResults(format, matched, {
+      executionId,
+      execution: req.execution,
+      eventIds: matched.map(result => eventIds.get(result))
+    }));
+  });
+
+  return router;
+}
+
+module.exports = { createExecutionsRouter, toExecutionResponse };
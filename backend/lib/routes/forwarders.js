@@ -0,0 +1,54 @@
+/**
+ * Forwarder Routes
+ *
+ * Delivery status of the outbound SIEM integrations, one entry per
+ * destination: queue depth, sent / failed / dropped counters and the last
+ * error, so a dead collector shows up before anyone misses an alert.
+ */
+
+const express = require('express');
+const { sendError } = require('../http');
+
+/**
+ * @param {object} deps
+ * @param {object} deps.syslog - Syslog forwarder (see lib/syslogForwarder.js)
+ * @param {object} deps.elastic - Bulk index writer (see lib/elasticWriter.js)
+ */
+function createForwardersRouter({ syslog, elastic }) {
+  const router = express.Router();
+
+  router.get('/', (req, res) => {
+    res.status(200).json({
+      syslog: {
+        enabled: syslog.enabled,
+        destinations: syslog.status()
+      },
+      elastic: elastic.status(),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  router.get('/syslog', (req, res) => {
+    res.status(200).json({
+      enabled: syslog.enabled,
+      destinations: syslog.status(),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  router.get('/syslog/:name', (req, res) => {
+    const destination = syslog.status().find(entry => entry.name === req.params.name);
+    if (!destination) {
+      return sendError(res, 404, `Syslog destination not found: ${req.params.name}`);
+    }
+    res.status(200).json({ ...destination, timestamp: new Date().toISOString() });
+  });
+
+  router.get('/elastic', (req, res) => {
+    res.status(200).json({ ...elastic.status(), timestamp: new Date().toISOString() });
+  });
+
+  return router;
+}
+
+module.exports = { createForwardersRouter };
@@ -0,0 +1,69 @@
+/**
+ * Notification Routes
+ *
+ * Channel status, the delivery log and test sends for the notifier
+ * (see lib/notifier.js).
+ */
+
+const express = require('express');
+const { sendError } = require('../http');
+
+const MAX_LIMIT = 500;
+
+/**
+ * @param {object} deps
+ * @param {object} deps.notifier - Notifier (see lib/notifier.js)
+ */
+function createNotificationsRouter({ notifier }) {
+  const router = express.Router();
+
+  router.get('/', (req, res) => {
+    res.status(200).json({
+      enabled: notifier.enabled,
+      channels: notifier.status(),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // ?channel= narrows to one channel, ?limit= (default 100, max 500) newest first
+  router.get('/deliveries', (req, res) => {
+    const limit = req.query.limit === undefined ? 100 : parseInt(req.query.limit, 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return sendError(res, 400, 'Invalid delivery log query', {
+        errors: [{ path: '/limit', message: `must be an integer between 1 and ${MAX_LIMIT}` }]
+      });
+    }
+
+    const deliveries = notifier.deliveries({ channel: req.query.channel, limit });
+    res.status(200).json({
+      total_deliveries: deliveries.length,
+      deliveries,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Body: { "channel": "<name>" } - sends immediately, bypassing the throttle
+  router.post('/test', async (req, res, next) => {
+    const name = req.body && req.body.channel;
+    if (typeof name !== 'string' || !name) {
+      return sendError(res, 400, 'Invalid test request', { errors: [{ path: '/channel', message: 'is required' }] });
+    }
+
+    try {
+      const delivery = await notifier.sendTest(name);
+      if (!delivery) {
+        return sendError(res, 404, `Notification channel not found: ${name}`);
+      }
+      if (delivery.status !== 'delivered') {
+        return sendError(res, 502, `Test notification to ${name} failed: ${delivery.error}`, { delivery });
+      }
+      res.status(200).json({ ...delivery, timestamp: new Date().toISOString() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+module.exports = { createNotificationsRouter };
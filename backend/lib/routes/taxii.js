@@ -0,0 +1,164 @@
+/**
+ * TAXII 2.1 Routes
+ *
+ * Read-only TAXII 2.1 server so other SOC tools can poll DeepSoul's
+ * confirmed indicators:
+ *   GET /taxii2/                                        discovery
+ *   GET /taxii2/deepsoul/                               API root
+ *   GET /taxii2/deepsoul/collections/                   collections
+ *   GET /taxii2/deepsoul/collections/:cid/              one collection
+ *   GET /taxii2/deepsoul/collections/:cid/objects/      objects (added_after, limit, next, match[id], match[type])
+ *   GET /taxii2/deepsoul/collections/:cid/objects/:oid/ one object
+ * Collections are built by lib/taxii.js.
+ */
+
+const crypto = require('crypto');
+const express = require('express');
+const { paginate } = require('../pagination');
+const { createTaxiiCollections } = require('../taxii');
+
+const TAXII_MEDIA_TYPE = 'application/taxii+json;version=2.1';
+const API_ROOT = 'deepsoul';
+
+// Largest response we promise clients (advertised on the API root)
+const MAX_CONTENT_LENGTH = 10 * 1024 * 1024;
+
+function sendTaxii(res, status, body, headers = {}) {
+  // A Buffer body keeps Express from appending a charset to the media type
+  res.status(status).set({ 'Content-Type': TAXII_MEDIA_TYPE, ...headers }).send(Buffer.from(JSON.stringify(body)));
+}
+
+// TAXII errors use their own error message resource, not lib/http.js
+function sendTaxiiError(res, status, title, description) {
+  sendTaxii(res, status, { title, description, http_status: String(status) });
+}
+
+function safeEqual(a, b) {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * @param {object} deps
+ * @param {object} deps.store - Execution store
+ * @param {{username: string, password: string}} [deps.credentials] - HTTP Basic credentials; open when omitted
+ */
+function createTaxiiRouter({ store, credentials }) {
+  const router = express.Router({ strict: false });
+  const collections = createTaxiiCollections(store);
+
+  if (credentials) {
+    router.use((req, res, next) => {
+      const [scheme, token] = String(req.get('Authorization') || '').split(' ');
+      const [username, ...rest] = scheme === 'Basic' && token
+        ? Buffer.from(token, 'base64').toString('utf8').split(':')
+        : [];
+      if (username !== undefined && safeEqual(username, credentials.username) && safeEqual(rest.join(':'), credentials.password)) {
+        return next();
+      }
+      res.set('WWW-Authenticate', 'Basic realm="DeepSoul TAXII"');
+      sendTaxiiError(res, 401, 'Unauthorized', 'Valid TAXII credentials are required');
+    });
+  }
+
+  // Clients must accept TAXII 2.1 (a bare JSON or */* Accept is tolerated)
+  router.use((req, res, next) => {
+    const accept = req.get('Accept');
+    if (!accept || /taxii\+json|application\/json|\*\/\*/.test(accept)) return next();
+    sendTaxiiError(res, 406, 'Not Acceptable', `This server only serves ${TAXII_MEDIA_TYPE}`);
+  });
+
+  router.get('/', (req, res) => {
+    sendTaxii(res, 200, {
+      title: 'DeepSoul TAXII Server',
+      description: 'Threat indicators confirmed by DeepSoul threat analysis',
+      default: `${req.protocol}://${req.get('host')}${req.baseUrl}/${API_ROOT}/`,
+      api_roots: [`${req.protocol}://${req.get('host')}${req.baseUrl}/${API_ROOT}/`]
+    });
+  });
+
+  const root = express.Router({ strict: false });
+  router.use(`/${API_ROOT}`, root);
+
+  root.get('/', (req, res) => {
+    sendTaxii(res, 200, {
+      title: 'DeepSoul',
+      description: 'One collection per execution, plus every confirmed indicator',
+      versions: [TAXII_MEDIA_TYPE],
+      max_content_length: MAX_CONTENT_LENGTH
+    });
+  });
+
+  root.get('/collections', (req, res) => {
+    sendTaxii(res, 200, { collections: collections.listCollections() });
+  });
+
+  root.param('collectionId', (req, res, next, collectionId) => {
+    const collection = collections.getCollection(collectionId);
+    if (!collection) {
+      return sendTaxiiError(res, 404, 'Collection not found', `No collection with id ${collectionId}`);
+    }
+    req.collection = collection;
+    next();
+  });
+
+  root.get('/collections/:collectionId', (req, res) => {
+    sendTaxii(res, 200, req.collection);
+  });
+
+  root.get('/collections/:collectionId/objects', (req, res) => {
+    let entries = collections.getCollectionObjects(req.collection.id);
+
+    if (req.query.added_after) {
+      const after = Date.parse(req.query.added_after);
+      if (Number.isNaN(after)) {
+        return sendTaxiiError(res, 400, 'Invalid added_after', `Not a timestamp: ${req.query.added_after}`);
+      }
+      entries = entries.filter(entry => Date.parse(entry.date_added) > after);
+    }
+    const ids = req.query.match && req.query.match.id;
+    if (ids) {
+      const wanted = String(ids).split(',');
+      entries = entries.filter(entry => wanted.includes(entry.object.id));
+    }
+    const types = req.query.match && req.query.match.type;
+    if (types) {
+      const wanted = String(types).split(',');
+      entries = entries.filter(entry => wanted.includes(entry.object.type));
+    }
+
+    const page = paginate(entries, { cursor: req.query.next, limit: req.query.limit });
+    if (!page) {
+      return sendTaxiiError(res, 400, 'Invalid next', 'The next token is not valid');
+    }
+
+    const headers = page.items.length > 0
+      ? {
+          'X-TAXII-Date-Added-First': page.items[0].date_added,
+          'X-TAXII-Date-Added-Last': page.items[page.items.length - 1].date_added
+        }
+      : {};
+    sendTaxii(res, 200, {
+      more: page.has_more,
+      ...(page.has_more ? { next: page.next_cursor } : {}),
+      objects: page.items.map(entry => entry.object)
+    }, headers);
+  });
+
+  root.get('/collections/:collectionId/objects/:objectId', (req, res) => {
+    const entry = collections.getCollectionObjects(req.collection.id)
+      .find(candidate => candidate.object.id === req.params.objectId);
+    if (!entry) {
+      return sendTaxiiError(res, 404, 'Object not found', `No object with id ${req.params.objectId}`);
+    }
+    sendTaxii(res, 200, { more: false, objects: [entry.object] }, {
+      'X-TAXII-Date-Added-First': entry.date_added,
+      'X-TAXII-Date-Added-Last': entry.date_added
+    });
+  });
+
+  return router;
+}
+
+module.exports = { createTaxiiRouter };
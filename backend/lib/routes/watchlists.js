@@ -0,0 +1,87 @@
+/**
+ * Watchlist Routes
+ *
+ * IOC watchlists imported from partners' MISP events. The dashboard
+ * highlights results whose IPs, ports or attack signatures are on a
+ * watchlist. Re-importing an event with the same uuid replaces its
+ * watchlist instead of adding a second one.
+ */
+
+const crypto = require('crypto');
+const express = require('express');
+const { sendError } = require('../http');
+const { parseMispEvent } = require('../misp');
+
+/**
+ * @param {object} deps
+ * @param {object} deps.store - Execution store (holds the watchlists too)
+ */
+function createWatchlistsRouter({ store }) {
+  const router = express.Router();
+
+  router.get('/', (req, res) => {
+    const watchlists = store.listWatchlists()
+      .slice()
+      .sort((a, b) => b.imported_at.localeCompare(a.imported_at));
+
+    res.status(200).json({
+      total_watchlists: watchlists.length,
+      watchlists,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Body: MISP event JSON ({ Event }, { response: [{ Event }] } or a bare event)
+  router.post('/', (req, res) => {
+    let parsed;
+    try {
+      parsed = parseMispEvent(req.body);
+    } catch (error) {
+      if (!error.isMispError) throw error;
+      return sendError(res, 400, 'Invalid MISP event', { errors: [{ path: error.path, message: error.message }] });
+    }
+
+    const existing = parsed.event_uuid
+      ? store.listWatchlists().find(watchlist => watchlist.misp_event_uuid === parsed.event_uuid)
+      : null;
+    const watchlistId = existing ? existing.watchlist_id : crypto.randomUUID();
+
+    const watchlist = store.putWatchlist(watchlistId, {
+      name: parsed.name,
+      source: 'misp',
+      misp_event_uuid: parsed.event_uuid,
+      imported_at: new Date().toISOString(),
+      ioc_count: parsed.iocs.length,
+      skipped_attributes: parsed.skipped_attributes,
+      iocs: parsed.iocs
+    });
+
+    console.log(`👁️  Watchlist "${watchlist.name}" ${existing ? 'replaced' : 'imported'} (${watchlist.ioc_count} IOCs, ${parsed.skipped_attributes} attributes skipped)`);
+
+    res.status(existing ? 200 : 201).json({
+      ...watchlist,
+      replaced: !!existing,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  router.get('/:id', (req, res) => {
+    const watchlist = store.getWatchlist(req.params.id);
+    if (!watchlist) {
+      return sendError(res, 404, `Watchlist not found: ${req.params.id}`);
+    }
+    res.status(200).json({ ...watchlist, timestamp: new Date().toISOString() });
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!store.deleteWatchlist(req.params.id)) {
+      return sendError(res, 404, `Watchlist not found: ${req.params.id}`);
+    }
+    console.log(`🗑️  Watchlist ${req.params.id} deleted`);
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+module.exports = { createWatchlistsRouter };
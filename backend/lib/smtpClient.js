@@ -0,0 +1,181 @@
+/**
+ * Minimal SMTP Client
+ *
+ * Just enough SMTP (RFC 5321) to hand plain-text notifications to a relay:
+ * implicit TLS (port 465) or STARTTLS, AUTH PLAIN, one message per
+ * connection. Used by lib/notifier.js for email channels.
+ */
+
+const crypto = require('crypto');
+const net = require('net');
+const os = require('os');
+const tls = require('tls');
+
+const TIMEOUT_MS = 30000;
+
+// RFC 2047 encoded-word for non-ASCII header values
+function encodeHeader(value) {
+  return /^[\x20-\x7E]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Build the RFC 5322 message, with CRLF line endings and dot-stuffing
+ */
+function buildMessage({ from, to, subject, text }) {
+  const domain = from.split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+  const body = text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n`;
+}
+
+/**
+ * Reads SMTP replies off a socket - multi-line replies ("250-...") are
+ * collected until the final "250 ..." line
+ */
+function createReplyReader() {
+  let buffer = '';
+  let lines = [];
+  const replies = [];
+  const waiters = [];
+  let failure = null;
+
+  function settle() {
+    while (replies.length > 0 && waiters.length > 0) {
+      waiters.shift().resolve(replies.shift());
+    }
+    if (failure) {
+      while (waiters.length > 0) waiters.shift().reject(failure);
+    }
+  }
+
+  return {
+    push(chunk) {
+      buffer += chunk.toString('utf8');
+      let newline;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        lines.push(line);
+        if (/^\d{3}(?: |$)/.test(line)) {
+          replies.push({ code: parseInt(line.slice(0, 3), 10), lines });
+          lines = [];
+        }
+      }
+      settle();
+    },
+    fail(error) {
+      failure = failure || error;
+      settle();
+    },
+    next() {
+      return new Promise((resolve, reject) => {
+        waiters.push({ resolve, reject });
+        settle();
+      });
+    }
+  };
+}
+
+/**
+ * @param {object} options
+ * @param {string} options.host
+ * @param {number} [options.port] - Defaults to 465 with secure, else 587
+ * @param {boolean} [options.secure] - Implicit TLS from the first byte
+ * @param {boolean} [options.starttls] - Upgrade with STARTTLS when offered (default true)
+ * @param {string} [options.username]
+ * @param {string} [options.password]
+ * @param {boolean} [options.rejectUnauthorized] - Default true
+ */
+function createSmtpClient(options) {
+  const port = options.port || (options.secure ? 465 : 587);
+  const tlsOptions = {
+    servername: net.isIP(options.host) ? undefined : options.host,
+    rejectUnauthorized: options.rejectUnauthorized !== false
+  };
+
+  /**
+   * Send one message
+   * @param {object} message
+   * @param {string} message.from
+   * @param {string[]} message.to
+   * @param {string} message.subject
+   * @param {string} message.text
+   */
+  async function send(message) {
+    let socket = options.secure
+      ? tls.connect({ host: options.host, port, ...tlsOptions })
+      : net.connect({ host: options.host, port });
+    let reader = createReplyReader();
+
+    const attach = target => {
+      target.setTimeout(TIMEOUT_MS, () => target.destroy(new Error(`SMTP ${options.host}:${port} timed out`)));
+      target.on('data', chunk => reader.push(chunk));
+      target.on('error', error => reader.fail(error));
+      target.on('close', () => reader.fail(new Error('SMTP connection closed')));
+    };
+    attach(socket);
+
+    async function expect(codes, command) {
+      const reply = await reader.next();
+      if (!codes.includes(reply.code)) {
+        throw new Error(`SMTP ${command || 'greeting'} failed: ${reply.lines.join(' ')}`);
+      }
+      return reply;
+    }
+
+    function command(line, codes) {
+      socket.write(`${line}\r\n`);
+      return expect(codes, line.split(' ')[0]);
+    }
+
+    try {
+      await expect([220]);
+      const ehlo = await command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+
+      const offersStartTls = ehlo.lines.some(line => /^250[- ]STARTTLS/i.test(line));
+      if (!options.secure && options.starttls !== false && offersStartTls) {
+        await command('STARTTLS', [220]);
+        socket.removeAllListeners('data');
+        socket.removeAllListeners('close');
+        reader = createReplyReader();
+        socket = await new Promise((resolve, reject) => {
+          const upgraded = tls.connect({ socket, ...tlsOptions }, () => resolve(upgraded));
+          upgraded.once('error', reject);
+        });
+        attach(socket);
+        await command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+      }
+
+      if (options.username) {
+        const credentials = Buffer.from(`\u0000${options.username}\u0000${options.password || ''}`).toString('base64');
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await command(`MAIL FROM:<${message.from}>`, [250]);
+      for (const recipient of message.to) {
+        await command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await command('DATA', [354]);
+      socket.write(`${buildMessage(message)}.\r\n`);
+      await expect([250], 'DATA');
+      socket.write('QUIT\r\n');
+    } finally {
+      socket.end();
+    }
+  }
+
+  return { send };
+}
+
+module.exports = { createSmtpClient };
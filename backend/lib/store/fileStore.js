@@ -0,0 +1,249 @@
+/**
+ * File-Backed Execution Store
+ *
+ * Wraps the in-memory store and appends every mutation to an NDJSON journal,
+ * so executions, batches, results, verdicts, watchlists, alert rules, alerts
+ * and cases survive restarts and crashes.
+ * The journal is replayed and compacted when the store is opened.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { createMemoryStore } = require('./memoryStore');
+
+const JOURNAL_FILE = 'executions.ndjson';
+
+// ============================================================
+// JOURNAL HELPERS
+// ============================================================
+
+function readJournal(journalPath) {
+  if (!fs.existsSync(journalPath)) return [];
+
+  const entries = [];
+  const lines = fs.readFileSync(journalPath, 'utf8').split('\n');
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      // A crash mid-write can leave a torn last line - skip it
+      console.warn(`⚠️ Skipping unreadable journal entry in ${journalPath}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Apply a batch or results entry without moving the execution's updated_at
+ * to the time of the restart - live, that bump happened when the batch
+ * arrived, which is all the journal recorded of it
+ */
+function replayKeepingUpdatedAt(memory, executionId, apply, updatedAt) {
+  const previous = memory.getExecution(executionId)?.updated_at;
+  apply();
+  const restored = updatedAt || previous;
+  if (restored) memory.upsertExecution(executionId, { updated_at: restored });
+}
+
+function replay(memory, entry) {
+  switch (entry.op) {
+    case 'execution':
+      memory.upsertExecution(entry.record.execution_id, entry.record);
+      break;
+    case 'batch':
+      replayKeepingUpdatedAt(memory, entry.execution_id,
+        () => memory.addBatch(entry.execution_id, entry.record), entry.record.received_at);
+      break;
+    case 'results':
+      replayKeepingUpdatedAt(memory, entry.execution_id,
+        () => memory.addResults(entry.execution_id, entry.items));
+      break;
+    case 'verdict':
+      memory.putVerdict(entry.execution_id, entry.record);
+      break;
+    case 'verdict_deleted':
+      memory.deleteVerdict(entry.execution_id, entry.event_id);
+      break;
+    case 'watchlist':
+      memory.putWatchlist(entry.record.watchlist_id, entry.record);
+      break;
+    case 'watchlist_deleted':
+      memory.deleteWatchlist(entry.watchlist_id);
+      break;
+    case 'alert_rule':
+      memory.putAlertRule(entry.record.rule_id, entry.record);
+      break;
+    case 'alert_rule_deleted':
+      memory.deleteAlertRule(entry.rule_id);
+      break;
+    case 'alert':
+      memory.putAlert(entry.record.alert_id, entry.record);
+      break;
+    case 'case':
+      memory.putCase(entry.record.case_id, entry.record);
+      break;
+    default:
+      console.warn(`⚠️ Unknown journal op: ${entry.op}`);
+  }
+}
+
+function snapshot(memory) {
+  const entries = [];
+  for (const execution of memory.listExecutions()) {
+    const id = execution.execution_id;
+    entries.push({ op: 'execution', record: execution });
+    for (const batch of memory.getBatches(id)) {
+      entries.push({ op: 'batch', execution_id: id, record: batch });
+    }
+    const items = memory.getResults(id);
+    if (items.length > 0) {
+      entries.push({ op: 'results', execution_id: id, items });
+    }
+    for (const verdict of memory.getVerdicts(id)) {
+      entries.push({ op: 'verdict', execution_id: id, record: verdict });
+    }
+  }
+  for (const watchlist of memory.listWatchlists()) {
+    entries.push({ op: 'watchlist', record: watchlist });
+  }
+  for (const rule of memory.listAlertRules()) {
+    entries.push({ op: 'alert_rule', record: rule });
+  }
+  for (const alert of memory.listAlerts()) {
+    entries.push({ op: 'alert', record: alert });
+  }
+  for (const record of memory.listCases()) {
+    entries.push({ op: 'case', record });
+  }
+  return entries;
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+/**
+ * Open (or create) a file-backed store
+ * @param {object} options
+ * @param {string} options.dir - Directory holding the journal
+ */
+function createFileStore({ dir }) {
+  fs.mkdirSync(dir, { recursive: true });
+
+  const journalPath = path.join(dir, JOURNAL_FILE);
+  const memory = createMemoryStore();
+
+  // Replay, then compact so the journal doesn't grow across restarts
+  const entries = readJournal(journalPath);
+  entries.forEach(entry => replay(memory, entry));
+
+  const tmpPath = `${journalPath}.tmp`;
+  const compacted = snapshot(memory).map(entry => JSON.stringify(entry)).join('\n');
+  fs.writeFileSync(tmpPath, compacted ? compacted + '\n' : '');
+  fs.renameSync(tmpPath, journalPath);
+
+  console.log(`💾 File store opened: ${journalPath} (${memory.listExecutions().length} executions)`);
+
+  let fd = fs.openSync(journalPath, 'a');
+
+  function append(entry) {
+    fs.writeSync(fd, JSON.stringify(entry) + '\n');
+  }
+
+  function upsertExecution(executionId, patch) {
+    const record = memory.upsertExecution(executionId, patch);
+    append({ op: 'execution', record });
+    return record;
+  }
+
+  function addBatch(executionId, batch) {
+    if (!memory.getExecution(executionId)) upsertExecution(executionId);
+    const record = memory.addBatch(executionId, batch);
+    append({ op: 'batch', execution_id: executionId, record });
+    return record;
+  }
+
+  function addResults(executionId, items) {
+    if (!memory.getExecution(executionId)) upsertExecution(executionId);
+    const total = memory.addResults(executionId, items);
+    if (items.length > 0) append({ op: 'results', execution_id: executionId, items });
+    return total;
+  }
+
+  function putVerdict(executionId, record) {
+    const stored = memory.putVerdict(executionId, record);
+    append({ op: 'verdict', execution_id: executionId, record: stored });
+    return stored;
+  }
+
+  function deleteVerdict(executionId, eventId) {
+    const deleted = memory.deleteVerdict(executionId, eventId);
+    if (deleted) append({ op: 'verdict_deleted', execution_id: executionId, event_id: eventId });
+    return deleted;
+  }
+
+  function putWatchlist(watchlistId, record) {
+    const stored = memory.putWatchlist(watchlistId, record);
+    append({ op: 'watchlist', record: stored });
+    return stored;
+  }
+
+  function deleteWatchlist(watchlistId) {
+    const deleted = memory.deleteWatchlist(watchlistId);
+    if (deleted) append({ op: 'watchlist_deleted', watchlist_id: watchlistId });
+    return deleted;
+  }
+
+  function putAlertRule(ruleId, record) {
+    const stored = memory.putAlertRule(ruleId, record);
+    append({ op: 'alert_rule', record: stored });
+    return stored;
+  }
+
+  function deleteAlertRule(ruleId) {
+    const deleted = memory.deleteAlertRule(ruleId);
+    if (deleted) append({ op: 'alert_rule_deleted', rule_id: ruleId });
+    return deleted;
+  }
+
+  function putAlert(alertId, record) {
+    const stored = memory.putAlert(alertId, record);
+    append({ op: 'alert', record: stored });
+    return stored;
+  }
+
+  function putCase(caseId, record) {
+    const stored = memory.putCase(caseId, record);
+    append({ op: 'case', record: stored });
+    return stored;
+  }
+
+  function close() {
+    if (fd !== null) {
+      fs.closeSync(fd);
+      fd = null;
+    }
+  }
+
+  return {
+    ...memory,
+    driver: 'file',
+    upsertExecution,
+    addBatch,
+    addResults,
+    putVerdict,
+    deleteVerdict,
+    putWatchlist,
+    deleteWatchlist,
+    putAlertRule,
+    deleteAlertRule,
+    putAlert,
+    putCase,
+    close
+  };
+}
+
+module.exports = { createFileStore };
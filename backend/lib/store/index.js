@@ -0,0 +1,42 @@
+/**
+ * Execution Store
+ *
+ * Pluggable storage for executions, batches, per-threat results, analyst
+ * verdicts, IOC watchlists, alert rules, alerts and cases.
+ * Select a driver with STORE_DRIVER (file | memory); the file driver
+ * writes to STORE_DIR (default: backend/data).
+ *
+ * Every driver exposes the same contract:
+ *   upsertExecution(id, patch)  getExecution(id)  listExecutions()
+ *   addBatch(id, batch)         getBatches(id)    getBatch(id, batchNumber)
+ *   addResults(id, items)       getResults(id)    countResults(id)
+ *   putVerdict(id, record)      getVerdicts(id)   deleteVerdict(id, eventId)
+ *   putWatchlist(id, record)    getWatchlist(id)  listWatchlists()
+ *   deleteWatchlist(id)
+ *   putAlertRule(id, record)    getAlertRule(id)  listAlertRules()
+ *   deleteAlertRule(id)
+ *   putAlert(id, record)        getAlert(id)      listAlerts()
+ *   putCase(id, record)         getCase(id)       listCases()
+ *   close()
+ */
+
+const path = require('path');
+const { createMemoryStore } = require('./memoryStore');
+const { createFileStore } = require('./fileStore');
+
+const DEFAULT_DIR = path.join(__dirname, '..', '..', 'data');
+
+function createStore(options = {}) {
+  const driver = options.driver || process.env.STORE_DRIVER || 'file';
+
+  switch (driver) {
+    case 'memory':
+      return createMemoryStore();
+    case 'file':
+      return createFileStore({ dir: options.dir || process.env.STORE_DIR || DEFAULT_DIR });
+    default:
+      throw new Error(`Unknown store driver: ${driver}`);
+  }
+}
+
+module.exports = { createStore };
@@ -0,0 +1,249 @@
+/**
+ * In-Memory Execution Store
+ *
+ * Keeps executions, batches, per-threat results, analyst verdicts, IOC
+ * watchlists, alert rules, alerts and cases in process-local Maps.
+ * This is the reference implementation of the store contract - the file
+ * driver wraps it and journals every mutation to disk.
+ */
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+function createMemoryStore() {
+  const executions = new Map();
+  const batches = new Map();
+  const results = new Map();
+  const verdicts = new Map();
+  const watchlists = new Map();
+  const alertRules = new Map();
+  const alerts = new Map();
+  const cases = new Map();
+
+  /**
+   * Create or update an execution record
+   * @param {string} executionId - n8n execution id
+   * @param {object} patch - Fields to merge into the record
+   * @returns {object} The updated execution record
+   */
+  function upsertExecution(executionId, patch = {}) {
+    const existing = executions.get(executionId);
+    const record = existing
+      ? { ...existing, ...patch }
+      : {
+          execution_id: executionId,
+          workflow_id: null,
+          status: 'processing',
+          start_time: new Date().toISOString(),
+          completed_time: null,
+          final_summary: null,
+          total_items: 0,
+          config: null,
+          control: 'run',
+          ...patch
+        };
+
+    if (!patch.updated_at) record.updated_at = new Date().toISOString();
+    executions.set(executionId, record);
+
+    if (!batches.has(executionId)) batches.set(executionId, []);
+    if (!results.has(executionId)) results.set(executionId, []);
+
+    return record;
+  }
+
+  function getExecution(executionId) {
+    return executions.get(executionId) || null;
+  }
+
+  function listExecutions() {
+    return Array.from(executions.values());
+  }
+
+  /**
+   * Append a batch record (without its results) to an execution
+   * @param {string} executionId - n8n execution id
+   * @param {object} batch - Batch metadata as received in the callback
+   * @returns {object} The stored batch record
+   */
+  function addBatch(executionId, batch) {
+    upsertExecution(executionId);
+    const record = { ...batch, received_at: batch.received_at || new Date().toISOString() };
+    batches.get(executionId).push(record);
+    return record;
+  }
+
+  function getBatches(executionId) {
+    return batches.get(executionId) || [];
+  }
+
+  function getBatch(executionId, batchNumber) {
+    return getBatches(executionId).find(batch => batch.batch_number === batchNumber) || null;
+  }
+
+  /**
+   * Append per-threat results to an execution
+   * @param {string} executionId - n8n execution id
+   * @param {Array} items - ThreatData records
+   * @returns {number} Total results stored for the execution
+   */
+  function addResults(executionId, items) {
+    upsertExecution(executionId);
+    const list = results.get(executionId);
+    list.push(...items);
+    return list.length;
+  }
+
+  function getResults(executionId) {
+    return results.get(executionId) || [];
+  }
+
+  function countResults(executionId) {
+    return getResults(executionId).length;
+  }
+
+  /**
+   * Record an analyst verdict on one result, replacing any earlier one
+   * @param {string} executionId - n8n execution id
+   * @param {object} record - Verdict record with the result's event_id (see lib/verdicts.js)
+   * @returns {object} The stored verdict
+   */
+  function putVerdict(executionId, record) {
+    if (!verdicts.has(executionId)) verdicts.set(executionId, new Map());
+    const stored = { ...record, execution_id: executionId };
+    verdicts.get(executionId).set(record.event_id, stored);
+    return stored;
+  }
+
+  function getVerdicts(executionId) {
+    return Array.from((verdicts.get(executionId) || new Map()).values());
+  }
+
+  function deleteVerdict(executionId, eventId) {
+    return verdicts.has(executionId) && verdicts.get(executionId).delete(eventId);
+  }
+
+  /**
+   * Create or replace an IOC watchlist
+   * @param {string} watchlistId - Watchlist id
+   * @param {object} record - Full watchlist record (name, source, iocs, ...)
+   * @returns {object} The stored watchlist
+   */
+  function putWatchlist(watchlistId, record) {
+    const stored = { ...record, watchlist_id: watchlistId };
+    watchlists.set(watchlistId, stored);
+    return stored;
+  }
+
+  function getWatchlist(watchlistId) {
+    return watchlists.get(watchlistId) || null;
+  }
+
+  function listWatchlists() {
+    return Array.from(watchlists.values());
+  }
+
+  function deleteWatchlist(watchlistId) {
+    return watchlists.delete(watchlistId);
+  }
+
+  /**
+   * Create or replace an alert rule
+   * @param {string} ruleId - Rule id
+   * @param {object} record - Full rule record (see lib/alertRules.js)
+   * @returns {object} The stored rule
+   */
+  function putAlertRule(ruleId, record) {
+    const stored = { ...record, rule_id: ruleId };
+    alertRules.set(ruleId, stored);
+    return stored;
+  }
+
+  function getAlertRule(ruleId) {
+    return alertRules.get(ruleId) || null;
+  }
+
+  function listAlertRules() {
+    return Array.from(alertRules.values());
+  }
+
+  function deleteAlertRule(ruleId) {
+    return alertRules.delete(ruleId);
+  }
+
+  /**
+   * Create or replace an alert raised by a rule
+   * @param {string} alertId - Alert id
+   * @param {object} record - Full alert record
+   * @returns {object} The stored alert
+   */
+  function putAlert(alertId, record) {
+    const stored = { ...record, alert_id: alertId };
+    alerts.set(alertId, stored);
+    return stored;
+  }
+
+  function getAlert(alertId) {
+    return alerts.get(alertId) || null;
+  }
+
+  function listAlerts() {
+    return Array.from(alerts.values());
+  }
+
+  /**
+   * Create or replace an analyst case
+   * @param {string} caseId - Case id
+   * @param {object} record - Full case record (see lib/cases.js)
+   * @returns {object} The stored case
+   */
+  function putCase(caseId, record) {
+    const stored = { ...record, case_id: caseId };
+    cases.set(caseId, stored);
+    return stored;
+  }
+
+  function getCase(caseId) {
+    return cases.get(caseId) || null;
+  }
+
+  function listCases() {
+    return Array.from(cases.values());
+  }
+
+  function close() {}
+
+  return {
+    driver: 'memory',
+    upsertExecution,
+    getExecution,
+    listExecutions,
+    addBatch,
+    getBatches,
+    getBatch,
+    addResults,
+    getResults,
+    countResults,
+    putVerdict,
+    getVerdicts,
+    deleteVerdict,
+    putWatchlist,
+    getWatchlist,
+    listWatchlists,
+    deleteWatchlist,
+    putAlertRule,
+    getAlertRule,
+    listAlertRules,
+    deleteAlertRule,
+    putAlert,
+    getAlert,
+    listAlerts,
+    putCase,
+    getCase,
+    listCases,
+    close
+  };
+}
+
+module.exports = { createMemoryStore };
@@ -0,0 +1,210 @@
+/**
+ * CEF / LEEF Syslog Formatting
+ *
+ * Maps ThreatData onto ArcSight CEF and QRadar LEEF 2.0 events and wraps
+ * them in an RFC 5424 syslog header. Used by lib/syslogForwarder.js.
+ *
+ * CEF extension / LEEF attribute mapping:
+ *   Timestamp                 rt (epoch ms)             devTime
+ *   Source IP Address         src                       src
+ *   Destination IP Address    dst                       dst
+ *   Source Port               spt                       srcPort
+ *   Destination Port          dpt                       dstPort
+ *   Protocol                  proto                     proto
+ *   Action Taken              act                       action
+ *   Attack Type               cat                       cat
+ *   Attack Signature          msg                       msg
+ *   Network Segment           cs4 (NetworkSegment)      networkSegment
+ *   Geo-location Data         cs5 (GeoLocation)         geoLocation
+ *   consensus_classification  cs2 (Classification)      classification
+ *   escalation_priority       cs3 (EscalationPriority)  priority
+ *   final_risk_score          cn1 (RiskScore)           riskScore
+ *   consensus_confidence      cn2 (Confidence)          confidence
+ *   _unique_id                externalId                externalId
+ *   execution id              cs1 (ExecutionId)         executionId
+ */
+
+const os = require('os');
+const { parseTimestamp } = require('./threatQuery');
+
+const VENDOR = 'DeepSoul';
+const PRODUCT = 'Threat Analysis';
+const VERSION = '1.0';
+
+// escalation_priority -> CEF severity (0-10) / LEEF sev (1-10) / syslog severity
+const SEVERITIES = {
+  CRITICAL: { event: 10, syslog: 2 },
+  HIGH: { event: 8, syslog: 3 },
+  MEDIUM: { event: 5, syslog: 4 },
+  LOW: { event: 3, syslog: 5 }
+};
+
+const SYSLOG_FACILITIES = {
+  local0: 16, local1: 17, local2: 18, local3: 19,
+  local4: 20, local5: 21, local6: 22, local7: 23
+};
+
+const LEEF_DELIMITER = '^';
+
+function severityOf(result) {
+  return SEVERITIES[String(result.escalation_priority || '').toUpperCase()] || SEVERITIES.MEDIUM;
+}
+
+// Epoch ms, or null when the CSV timestamp doesn't parse
+function eventTime(result) {
+  return parseTimestamp(result.Timestamp ?? '');
+}
+
+function present(value) {
+  return value !== undefined && value !== null && value !== '';
+}
+
+// ============================================================
+// CEF
+// ============================================================
+
+function cefHeader(value) {
+  return String(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+}
+
+function cefValue(value) {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/=/g, '\\=')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * @param {object} result - ThreatData record
+ * @param {object} [context]
+ * @param {string} [context.executionId]
+ * @returns {string} CEF:0 event
+ */
+function toCef(result, { executionId } = {}) {
+  const attackType = result['Attack Type'] || 'Threat';
+  const signatureId = result['Attack Signature'] || attackType;
+  const name = result['Source IP Address'] ? `${attackType} from ${result['Source IP Address']}` : attackType;
+
+  const extension = [
+    ['rt', eventTime(result)],
+    ['src', result['Source IP Address']],
+    ['dst', result['Destination IP Address']],
+    ['spt', result['Source Port']],
+    ['dpt', result['Destination Port']],
+    ['proto', result.Protocol],
+    ['act', result['Action Taken']],
+    ['cat', result['Attack Type']],
+    ['msg', result['Attack Signature']],
+    ['externalId', result._unique_id],
+    ['cs1Label', 'ExecutionId'], ['cs1', executionId],
+    ['cs2Label', 'Classification'], ['cs2', result.consensus_classification],
+    ['cs3Label', 'EscalationPriority'], ['cs3', result.escalation_priority],
+    ['cs4Label', 'NetworkSegment'], ['cs4', result['Network Segment']],
+    ['cs5Label', 'GeoLocation'], ['cs5', result['Geo-location Data']],
+    ['cn1Label', 'RiskScore'], ['cn1', result.final_risk_score],
+    ['cn2Label', 'Confidence'], ['cn2', result.consensus_confidence]
+  ];
+
+  // Drop labels whose value is missing along with the value
+  const pairs = extension.filter(([key, value], index) => {
+    if (!key.endsWith('Label')) return present(value);
+    return present(extension[index + 1][1]);
+  });
+
+  return [
+    'CEF:0',
+    cefHeader(VENDOR),
+    cefHeader(PRODUCT),
+    cefHeader(VERSION),
+    cefHeader(signatureId),
+    cefHeader(name),
+    severityOf(result).event,
+    pairs.map(([key, value]) => `${key}=${cefValue(value)}`).join(' ')
+  ].join('|');
+}
+
+// ============================================================
+// LEEF
+// ============================================================
+
+function leefHeader(value) {
+  return String(value).replace(/\|/g, ' ').replace(/[\r\n]+/g, ' ');
+}
+
+function leefValue(value) {
+  return String(value).replace(/[\r\n\t]+/g, ' ').split(LEEF_DELIMITER).join(' ');
+}
+
+/**
+ * @param {object} result - ThreatData record
+ * @param {object} [context]
+ * @param {string} [context.executionId]
+ * @returns {string} LEEF:2.0 event (attributes delimited by ^)
+ */
+function toLeef(result, { executionId } = {}) {
+  const time = eventTime(result);
+  const attributes = [
+    ['devTime', time === null ? null : new Date(time).toISOString()],
+    ['devTimeFormat', time === null ? null : "yyyy-MM-dd'T'HH:mm:ss.SSSX"],
+    ['src', result['Source IP Address']],
+    ['dst', result['Destination IP Address']],
+    ['srcPort', result['Source Port']],
+    ['dstPort', result['Destination Port']],
+    ['proto', result.Protocol],
+    ['sev', severityOf(result).event],
+    ['cat', result['Attack Type']],
+    ['action', result['Action Taken']],
+    ['msg', result['Attack Signature']],
+    ['networkSegment', result['Network Segment']],
+    ['geoLocation', result['Geo-location Data']],
+    ['classification', result.consensus_classification],
+    ['priority', result.escalation_priority],
+    ['riskScore', result.final_risk_score],
+    ['confidence', result.consensus_confidence],
+    ['externalId', result._unique_id],
+    ['executionId', executionId]
+  ].filter(([, value]) => present(value));
+
+  return [
+    'LEEF:2.0',
+    leefHeader(VENDOR),
+    leefHeader(PRODUCT),
+    leefHeader(VERSION),
+    leefHeader(result['Attack Type'] || 'Threat'),
+    LEEF_DELIMITER,
+    attributes.map(([key, value]) => `${key}=${leefValue(value)}`).join(LEEF_DELIMITER)
+  ].join('|');
+}
+
+// ============================================================
+// SYSLOG
+// ============================================================
+
+/**
+ * Wrap an event in an RFC 5424 syslog message
+ * @param {string} event - CEF or LEEF payload
+ * @param {object} result - ThreatData record (for the syslog severity)
+ * @param {object} [options]
+ * @param {string} [options.facility] - local0 .. local7 (default local0)
+ * @param {string} [options.hostname] - Defaults to os.hostname()
+ * @param {Date} [options.now]
+ */
+function toSyslogMessage(event, result, { facility = 'local0', hostname = os.hostname(), now = new Date() } = {}) {
+  const priority = (SYSLOG_FACILITIES[facility] ?? SYSLOG_FACILITIES.local0) * 8 + severityOf(result).syslog;
+  return `<${priority}>1 ${now.toISOString()} ${hostname || '-'} deepsoul ${process.pid} threat - ${event}`;
+}
+
+/**
+ * Format one result for a destination
+ * @param {'cef'|'leef'} format
+ * @param {object} result - ThreatData record
+ * @param {object} [options] - executionId, facility, hostname
+ * @returns {string} Syslog message without framing
+ */
+function formatSyslogEvent(format, result, options = {}) {
+  const event = format === 'leef' ? toLeef(result, options) : toCef(result, options);
+  return toSyslogMessage(event, result, options);
+}
+
+module.exports = { formatSyslogEvent, toCef, toLeef, toSyslogMessage, SYSLOG_FACILITIES };
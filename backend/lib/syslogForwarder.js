@@ -0,0 +1,322 @@
+/**
+ * Syslog Forwarder
+ *
+ * Sends escalated results (escalation_priority HIGH or CRITICAL by default)
+ * to SIEM collectors as CEF or LEEF syslog over UDP, TCP or TLS.
+ *
+ * Destinations come from SYSLOG_DESTINATIONS, a JSON array:
+ *   [{ "name": "qradar", "host": "10.0.0.5", "port": 514, "protocol": "tcp", "format": "leef" }]
+ * Optional per destination: facility (local0..local7), priorities,
+ * framing (newline | octet-counting; TLS defaults to octet-counting per
+ * RFC 5425), max_queue, ca (PEM file path), reject_unauthorized, servername.
+ *
+ * Every destination has its own bounded queue: a slow or unreachable
+ * collector never blocks callbacks or the other destinations. Messages stay
+ * queued while the collector is down and are retried with exponential
+ * backoff; when the queue is full the oldest messages are dropped and
+ * counted. TCP/TLS writes wait for the socket to drain before sending more.
+ */
+
+const dgram = require('dgram');
+const fs = require('fs');
+const net = require('net');
+const tls = require('tls');
+const { formatSyslogEvent, SYSLOG_FACILITIES } = require('./syslogFormat');
+
+const PROTOCOLS = ['udp', 'tcp', 'tls'];
+const FORMATS = ['cef', 'leef'];
+const DEFAULT_PRIORITIES = ['HIGH', 'CRITICAL'];
+const DEFAULT_MAX_QUEUE = 10000;
+const CONNECT_TIMEOUT_MS = 10000;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+/**
+ * Validate and fill in defaults for one destination
+ * @throws {Error} on an unusable destination - a typo shouldn't silently drop alerts
+ */
+function normalizeDestination(config, index) {
+  const where = `SYSLOG_DESTINATIONS[${index}]`;
+  if (!config || typeof config !== 'object' || !config.host) {
+    throw new Error(`${where} needs a host`);
+  }
+  const protocol = String(config.protocol || 'udp').toLowerCase();
+  const format = String(config.format || 'cef').toLowerCase();
+  if (!PROTOCOLS.includes(protocol)) throw new Error(`${where}.protocol must be one of: ${PROTOCOLS.join(', ')}`);
+  if (!FORMATS.includes(format)) throw new Error(`${where}.format must be one of: ${FORMATS.join(', ')}`);
+
+  const facility = config.facility || 'local0';
+  if (!(facility in SYSLOG_FACILITIES)) throw new Error(`${where}.facility must be local0 .. local7`);
+
+  const port = parseInt(config.port || (protocol === 'tls' ? 6514 : 514), 10);
+  return {
+    name: config.name || `${protocol}://${config.host}:${port}`,
+    host: config.host,
+    port,
+    protocol,
+    format,
+    facility,
+    framing: config.framing || (protocol === 'tls' ? 'octet-counting' : 'newline'),
+    priorities: (config.priorities || DEFAULT_PRIORITIES).map(priority => String(priority).toUpperCase()),
+    maxQueue: parseInt(config.max_queue, 10) || DEFAULT_MAX_QUEUE,
+    tls: protocol === 'tls'
+      ? {
+          ca: config.ca ? fs.readFileSync(config.ca) : undefined,
+          rejectUnauthorized: config.reject_unauthorized !== false,
+          servername: config.servername || (net.isIP(config.host) ? undefined : config.host)
+        }
+      : null
+  };
+}
+
+function loadSyslogDestinations(env = process.env) {
+  if (!env.SYSLOG_DESTINATIONS) return [];
+  let parsed;
+  try {
+    parsed = JSON.parse(env.SYSLOG_DESTINATIONS);
+  } catch (error) {
+    throw new Error('SYSLOG_DESTINATIONS must be a JSON array of destinations');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('SYSLOG_DESTINATIONS must be a JSON array of destinations');
+  }
+  return parsed.map(normalizeDestination);
+}
+
+// ============================================================
+// DESTINATION
+// ============================================================
+
+function frame(message, framing) {
+  return framing === 'octet-counting'
+    ? `${Buffer.byteLength(message)} ${message}`
+    : `${message}\n`;
+}
+
+/**
+ * One collector: queue, connection and delivery counters
+ */
+function createDestination(config) {
+  const queue = [];
+  const stats = {
+    sent: 0,
+    failed: 0,
+    dropped: 0,
+    last_sent_at: null,
+    last_error: null,
+    last_error_at: null
+  };
+  let state = 'idle';
+  let socket = null;
+  let flushing = false;
+  let inFlight = null;
+  let retryTimer = null;
+  let attempt = 0;
+  let closed = false;
+
+  function resetSocket() {
+    if (socket) {
+      socket.removeAllListeners();
+      socket.on('error', () => {});
+      if (config.protocol === 'udp') socket.close();
+      else socket.destroy();
+    }
+    socket = null;
+  }
+
+  function connect() {
+    return new Promise((resolve, reject) => {
+      state = 'connecting';
+      const options = { host: config.host, port: config.port };
+      const connection = config.protocol === 'tls'
+        ? tls.connect({ ...options, ...config.tls })
+        : net.connect(options);
+      const readyEvent = config.protocol === 'tls' ? 'secureConnect' : 'connect';
+
+      connection.setTimeout(CONNECT_TIMEOUT_MS, () => {
+        connection.destroy(new Error(`Connection to ${config.host}:${config.port} timed out`));
+      });
+      connection.once(readyEvent, () => {
+        connection.setTimeout(0);
+        connection.setKeepAlive(true);
+        resolve(connection);
+      });
+      connection.once('error', reject);
+    }).then(connection => {
+      socket = connection;
+      state = 'connected';
+      // The collector closing the connection just means reconnecting on the next send
+      connection.on('error', error => {
+        stats.last_error = error.message;
+        stats.last_error_at = new Date().toISOString();
+      });
+      connection.on('close', () => {
+        if (socket === connection) {
+          socket = null;
+          if (state === 'connected') state = 'idle';
+        }
+      });
+      return connection;
+    });
+  }
+
+  function sendUdp(message) {
+    if (!socket) {
+      socket = dgram.createSocket(net.isIPv6(config.host) ? 'udp6' : 'udp4');
+      socket.on('error', () => {});
+      state = 'connected';
+    }
+    return new Promise((resolve, reject) => {
+      socket.send(Buffer.from(message), config.port, config.host, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async function sendStream(message) {
+    const connection = socket || await connect();
+    const accepted = connection.write(frame(message, config.framing));
+    if (!accepted) {
+      // Back-pressure: let the kernel buffer empty before writing more
+      await new Promise((resolve, reject) => {
+        const onDrain = () => { connection.off('close', onClose); resolve(); };
+        const onClose = () => { connection.off('drain', onDrain); reject(new Error('Connection closed while sending')); };
+        connection.once('drain', onDrain);
+        connection.once('close', onClose);
+      });
+    }
+  }
+
+  function scheduleRetry(error) {
+    stats.failed += 1;
+    stats.last_error = error.message;
+    stats.last_error_at = new Date().toISOString();
+    resetSocket();
+
+    const delay = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+    attempt += 1;
+    state = 'backoff';
+    console.log(`⚠️  Syslog ${config.name}: ${error.message} - retrying in ${delay / 1000}s (${queue.length} queued)`);
+
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      state = 'idle';
+      flush();
+    }, delay);
+    retryTimer.unref();
+  }
+
+  async function flush() {
+    if (flushing || retryTimer || closed) return;
+    flushing = true;
+    try {
+      while (queue.length > 0 && !closed) {
+        // Off the queue while in flight, so overflow drops can't remove it
+        inFlight = queue.shift();
+        if (config.protocol === 'udp') await sendUdp(inFlight);
+        else await sendStream(inFlight);
+        inFlight = null;
+        stats.sent += 1;
+        stats.last_sent_at = new Date().toISOString();
+        attempt = 0;
+      }
+    } catch (error) {
+      // Put the failed message back at the front so it is retried first
+      queue.unshift(inFlight);
+      inFlight = null;
+      scheduleRetry(error);
+    } finally {
+      flushing = false;
+    }
+  }
+
+  /**
+   * Queue messages, dropping the oldest when the queue is full
+   * @returns {number} Messages dropped to make room
+   */
+  function enqueue(messages) {
+    queue.push(...messages);
+    const overflow = Math.max(queue.length - config.maxQueue, 0);
+    if (overflow > 0) {
+      queue.splice(0, overflow);
+      stats.dropped += overflow;
+      console.log(`⚠️  Syslog ${config.name}: queue full, dropped ${overflow} oldest messages`);
+    }
+    flush();
+    return overflow;
+  }
+
+  function status() {
+    return {
+      name: config.name,
+      host: config.host,
+      port: config.port,
+      protocol: config.protocol,
+      format: config.format,
+      priorities: config.priorities,
+      state,
+      queued: queue.length + (inFlight === null ? 0 : 1),
+      max_queue: config.maxQueue,
+      ...stats,
+      retry_delay_ms: retryTimer ? Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS) : null
+    };
+  }
+
+  function close() {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    resetSocket();
+    state = 'closed';
+  }
+
+  return { config, enqueue, status, close };
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+/**
+ * @param {object} [options]
+ * @param {Array} [options.destinations] - Raw destination configs (defaults to SYSLOG_DESTINATIONS)
+ */
+function createSyslogForwarder(options = {}) {
+  const configs = options.destinations
+    ? options.destinations.map(normalizeDestination)
+    : loadSyslogDestinations();
+  const destinations = configs.map(createDestination);
+
+  /**
+   * Queue a batch's escalated results for every destination
+   * @param {string} executionId - n8n execution id
+   * @param {Array} results - ThreatData records of the batch
+   * @returns {number} Messages queued across destinations
+   */
+  function forward(executionId, results) {
+    let queued = 0;
+    for (const destination of destinations) {
+      const { format, facility, priorities } = destination.config;
+      const messages = results
+        .filter(result => priorities.includes(String(result.escalation_priority || '').toUpperCase()))
+        .map(result => formatSyslogEvent(format, result, { executionId, facility }));
+      if (messages.length === 0) continue;
+      destination.enqueue(messages);
+      queued += messages.length;
+    }
+    return queued;
+  }
+
+  function status() {
+    return destinations.map(destination => destination.status());
+  }
+
+  function close() {
+    destinations.forEach(destination => destination.close());
+  }
+
+  return { enabled: destinations.length > 0, forward, status, close };
+}
+
+module.exports = { createSyslogForwarder, loadSyslogDestinations };
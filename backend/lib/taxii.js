@@ -0,0 +1,210 @@
+/**
+ * TAXII Collections
+ *
+ * Builds the TAXII 2.1 collections served under /taxii2 from stored
+ * results: one collection per execution, plus a rolling collection of every
+ * confirmed indicator across executions. Only results that confirm the threat
+ * (is_malicious or a TRUE_POSITIVE consensus, or an analyst's TRUE_POSITIVE
+ * verdict, which also overrules both) become indicators - one per source IP,
+ * so the same IP seen in several executions is one object. An IP the AI
+ * confirmed but analysts have since marked FALSE_POSITIVE everywhere is served
+ * as a revoked version, so consumers that already pulled it withdraw it.
+ *
+ * An object's date_added is when the batch that last changed it reached the
+ * backend, which is what `added_after` polling filters on.
+ */
+
+const { parseTimestamp } = require('./threatQuery');
+const {
+  toStixIndicator,
+  isMaliciousResult,
+  stixConfidence,
+  uuidv5,
+  DEEPSOUL_IDENTITY,
+  DEEPSOUL_NAMESPACE
+} = require('./exporters');
+const { resultsWithVerdicts } = require('./verdicts');
+
+const STIX_MEDIA_TYPE = 'application/stix+json;version=2.1';
+
+const ALL_INDICATORS_COLLECTION_ID = uuidv5('collection:all-indicators', DEEPSOUL_NAMESPACE);
+
+function toIso(time) {
+  return new Date(time).toISOString();
+}
+
+/**
+ * Pair every result of an execution with the time its batch was received
+ * (results are stored in batch arrival order), analyst verdicts applied
+ */
+function resultsWithDateAdded(store, execution) {
+  const id = execution.execution_id;
+  const results = resultsWithVerdicts(store, id);
+  const batches = store.getBatches(id);
+  const fallback = execution.start_time;
+
+  const dated = [];
+  let offset = 0;
+  for (const batch of batches) {
+    for (const result of results.slice(offset, offset + batch.results_count)) {
+      dated.push({ result, dateAdded: batch.received_at || fallback });
+    }
+    offset += batch.results_count;
+  }
+  // Results no batch record accounts for (shouldn't happen) keep the run's start time
+  for (const result of results.slice(offset)) {
+    dated.push({ result, dateAdded: fallback });
+  }
+  return dated;
+}
+
+/**
+ * Whether an analyst's FALSE_POSITIVE verdict withdrew a result the AI confirmed
+ */
+function withdrawnByAnalyst(result) {
+  if (result.analyst_verdict?.verdict !== 'FALSE_POSITIVE') return false;
+  return isMaliciousResult({ ...result, analyst_verdict: undefined, consensus_classification: result.ai_classification });
+}
+
+function addSighting(byAddress, address, result, dateAdded) {
+  const observed = parseTimestamp(result.Timestamp ?? '');
+  const observedAt = observed === null ? dateAdded : toIso(observed);
+  const confidence = stixConfidence(result.consensus_confidence);
+
+  let entry = byAddress.get(address);
+  if (!entry) {
+    entry = { first: dateAdded, last: dateAdded, validFrom: observedAt, confidence, labels: new Set(), withdrawnAt: null };
+    byAddress.set(address, entry);
+  }
+  if (dateAdded < entry.first) entry.first = dateAdded;
+  if (dateAdded > entry.last) entry.last = dateAdded;
+  if (observedAt < entry.validFrom) entry.validFrom = observedAt;
+  if (confidence !== undefined && !(confidence <= entry.confidence)) entry.confidence = confidence;
+  if (result['Attack Type']) entry.labels.add(String(result['Attack Type']).toLowerCase());
+  return entry;
+}
+
+/**
+ * Collapse confirmed results into one indicator per source IP
+ * @param {object} store - Execution store
+ * @param {Array} executions - Execution records to include
+ * @returns {Array<{object: object, date_added: string}>} Sorted by date_added
+ */
+function buildIndicatorEntries(store, executions) {
+  const byAddress = new Map();
+  const withdrawn = new Map();
+
+  for (const execution of executions) {
+    for (const { result, dateAdded } of resultsWithDateAdded(store, execution)) {
+      const address = result['Source IP Address'];
+      if (!address) continue;
+      if (isMaliciousResult(result)) {
+        addSighting(byAddress, address, result, dateAdded);
+      } else if (withdrawnByAnalyst(result)) {
+        const entry = addSighting(withdrawn, address, result, dateAdded);
+        const at = toIso(result.analyst_verdict.at);
+        if (!(at <= entry.withdrawnAt)) entry.withdrawnAt = at;
+      }
+    }
+  }
+
+  // Each later sighting is a new version of the indicator: modified and
+  // date_added move forward together
+  const entries = [...byAddress].map(([address, entry]) => ({
+    object: toStixIndicator(address, {
+      created: toIso(entry.first),
+      modified: toIso(entry.last),
+      validFrom: entry.validFrom,
+      confidence: entry.confidence,
+      labels: [...entry.labels].sort()
+    }),
+    date_added: toIso(entry.last)
+  }));
+
+  // Withdrawn everywhere: the revoked version is stamped with the latest verdict
+  for (const [address, entry] of withdrawn) {
+    if (byAddress.has(address)) continue;
+    entries.push({
+      object: toStixIndicator(address, {
+        created: toIso(entry.first),
+        modified: entry.withdrawnAt,
+        validFrom: entry.validFrom,
+        confidence: entry.confidence,
+        labels: [...entry.labels].sort(),
+        revoked: true
+      }),
+      date_added: entry.withdrawnAt
+    });
+  }
+
+  if (entries.length > 0) {
+    entries.push({ object: DEEPSOUL_IDENTITY, date_added: DEEPSOUL_IDENTITY.created });
+  }
+
+  return entries.sort((a, b) => a.date_added.localeCompare(b.date_added) || a.object.id.localeCompare(b.object.id));
+}
+
+function collectionIdFor(executionId) {
+  return uuidv5(`collection:execution:${executionId}`, DEEPSOUL_NAMESPACE);
+}
+
+function describeCollection(id, title, description) {
+  return {
+    id,
+    title,
+    description,
+    can_read: true,
+    can_write: false,
+    media_types: [STIX_MEDIA_TYPE]
+  };
+}
+
+/**
+ * @param {object} store - Execution store
+ */
+function createTaxiiCollections(store) {
+  /**
+   * Every collection, the rolling one first
+   * @returns {Array<object>} TAXII collection resources
+   */
+  function listCollections() {
+    const executions = store.listExecutions()
+      .slice()
+      .sort((a, b) => String(a.start_time).localeCompare(String(b.start_time)));
+
+    return [
+      describeCollection(
+        ALL_INDICATORS_COLLECTION_ID,
+        'DeepSoul confirmed indicators',
+        'Malicious IPs confirmed by any DeepSoul execution'
+      ),
+      ...executions.map(execution => describeCollection(
+        collectionIdFor(execution.execution_id),
+        `DeepSoul execution ${execution.execution_id}`,
+        `Malicious IPs confirmed by execution ${execution.execution_id} (started ${execution.start_time})`
+      ))
+    ];
+  }
+
+  /**
+   * Objects of one collection, oldest date_added first
+   * @param {string} collectionId - TAXII collection id
+   * @returns {Array<{object, date_added}>|null} null when no such collection exists
+   */
+  function getCollectionObjects(collectionId) {
+    const executions = store.listExecutions();
+    if (collectionId === ALL_INDICATORS_COLLECTION_ID) {
+      return buildIndicatorEntries(store, executions);
+    }
+    const execution = executions.find(candidate => collectionIdFor(candidate.execution_id) === collectionId);
+    return execution ? buildIndicatorEntries(store, [execution]) : null;
+  }
+
+  function getCollection(collectionId) {
+    return listCollections().find(collection => collection.id === collectionId) || null;
+  }
+
+  return { listCollections, getCollection, getCollectionObjects };
+}
+
+module.exports = { createTaxiiCollections, ALL_INDICATORS_COLLECTION_ID, STIX_MEDIA_TYPE };
@@ -0,0 +1,465 @@
+/**
+ * Threat Query Language
+ *
+ * Parses the filter expressions accepted by GET /executions/:id/query and
+ * turns them into predicates over stored ThreatData records:
+ *
+ *   severity:high AND src_ip:10.0.0.0/8 AND risk>=70 AND attack_type:"DDoS" AND ts>2020-03-01
+ *
+ *   field:value        case-insensitive match; `*` is a wildcard (attack_type:DDo*)
+ *   field>=n  >  <  <=  numeric / timestamp comparisons
+ *   field!=value       negated match
+ *   src_ip:10.0.0.0/8  IP fields also take IPv4 CIDR ranges
+ *   ts:2020-03-01      timestamps match the whole day (or minute, etc.) given
+ *   "free text"        bare words and quoted strings search every field
+ *   AND / OR / NOT     upper case, with ( ) for grouping; adjacent terms are ANDed
+ *
+ * Fields are the short aliases below or any ThreatData property whose name
+ * has no spaces (final_risk_score, consensus_classification, ...).
+ */
+
+const schema = require('../../shared/callback.schema.json');
+
+const THREAT_PROPERTIES = schema.definitions.ThreatData.properties;
+
+const FIELD_ALIASES = {
+  ts: 'Timestamp',
+  time: 'Timestamp',
+  src_ip: 'Source IP Address',
+  dst_ip: 'Destination IP Address',
+  src_port: 'Source Port',
+  dst_port: 'Destination Port',
+  protocol: 'Protocol',
+  packet_length: 'Packet Length',
+  packet_type: 'Packet Type',
+  traffic_type: 'Traffic Type',
+  payload: 'Payload Data',
+  malware: 'Malware Indicators',
+  anomaly: 'Anomaly Scores',
+  alerts: 'Alerts/Warnings',
+  attack_type: 'Attack Type',
+  signature: 'Attack Signature',
+  action: 'Action Taken',
+  severity: 'Severity Level',
+  log_source: 'Log Source',
+  user: 'User Information',
+  device: 'Device Information',
+  segment: 'Network Segment',
+  location: 'Geo-location Data',
+  proxy: 'Proxy Information',
+  firewall: 'Firewall Logs',
+  ids: 'IDS/IPS Alerts',
+  risk: 'final_risk_score',
+  classification: 'consensus_classification',
+  confidence: 'consensus_confidence',
+  priority: 'escalation_priority',
+  abuse: 'abuse_confidence_score',
+  reputation: 'ip_reputation_score',
+  malicious: 'is_malicious',
+  vt: 'vt_malicious',
+  enrichment: 'enrichment_method',
+  batch: '_batch_number'
+};
+
+// CSV columns the schema keeps as strings but that compare as numbers
+const NUMERIC_STRING_FIELDS = ['Source Port', 'Destination Port', 'Packet Length', 'Anomaly Scores'];
+const IP_FIELDS = ['Source IP Address', 'Destination IP Address'];
+
+const COMPARISON_OPERATORS = ['>=', '<=', '!=', ':', '>', '<'];
+const KEYWORDS = ['AND', 'OR', 'NOT'];
+
+function queryError(message) {
+  const error = new Error(message);
+  error.isQueryError = true;
+  return error;
+}
+
+// ============================================================
+// FIELDS
+// ============================================================
+
+/**
+ * How a field's values are compared: number | date | ip | boolean | string
+ */
+function fieldKind(field) {
+  if (field === 'Timestamp') return 'date';
+  if (IP_FIELDS.includes(field)) return 'ip';
+  if (NUMERIC_STRING_FIELDS.includes(field)) return 'number';
+  const type = THREAT_PROPERTIES[field].type;
+  if (type === 'number' || type === 'integer') return 'number';
+  if (type === 'boolean') return 'boolean';
+  return 'string';
+}
+
+/**
+ * Resolve a query field name (alias or ThreatData property) to its property
+ * @param {string} name - e.g. 'severity' or 'final_risk_score'
+ * @returns {{field: string, kind: string}}
+ * @throws {Error} isQueryError when the field is unknown
+ */
+function resolveField(name) {
+  // Own properties only - `constructor` or `__proto__` are not fields
+  const alias = name.toLowerCase();
+  const field = Object.prototype.hasOwnProperty.call(FIELD_ALIASES, alias)
+    ? FIELD_ALIASES[alias]
+    : Object.prototype.hasOwnProperty.call(THREAT_PROPERTIES, name) ? name : null;
+  if (!field) {
+    throw queryError(`Unknown field: ${name}`);
+  }
+  return { field, kind: fieldKind(field) };
+}
+
+// ============================================================
+// VALUES
+// ============================================================
+
+// CSV timestamps carry no zone ("2023-05-30 06:33:58") - read them, and
+// date-only query values, as UTC so both sides agree
+function parseTimestamp(value) {
+  const text = String(value).trim();
+  const local = /^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?))?$/.exec(text);
+  const time = local ? Date.parse(`${local[1]}T${local[2] || '00:00:00'}Z`) : Date.parse(text);
+  return Number.isNaN(time) ? null : time;
+}
+
+// Length of the window a date literal covers: '2020-03-01' is a whole day
+function timestampPrecisionMs(text) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return 24 * 60 * 60 * 1000;
+  if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}$/.test(text)) return 60 * 1000;
+  if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}$/.test(text)) return 1000;
+  return 1;
+}
+
+function parseIpv4(value) {
+  const parts = String(value).trim().split('.');
+  if (parts.length !== 4) return null;
+  let address = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    address = address * 256 + Number(part);
+  }
+  return address;
+}
+
+/**
+ * Case-insensitive glob match where `*` is any run of characters
+ * Walks the pieces between stars with indexOf - linear in the text, unlike a
+ * backtracking RegExp, since alert rules run these on every batch
+ * @returns {{test: Function}} Same shape as a RegExp
+ */
+function wildcardPattern(value) {
+  const pieces = value.toLowerCase().split('*');
+  const first = pieces[0];
+  const last = pieces[pieces.length - 1];
+  const middle = pieces.slice(1, -1).filter(Boolean);
+
+  return {
+    test(input) {
+      const text = input.toLowerCase();
+      if (pieces.length === 1) return text === first;
+      if (text.length < first.length + last.length || !text.startsWith(first) || !text.endsWith(last)) return false;
+
+      const end = text.length - last.length;
+      let position = first.length;
+      for (const piece of middle) {
+        const found = text.indexOf(piece, position);
+        if (found === -1 || found + piece.length > end) return false;
+        position = found + piece.length;
+      }
+      return true;
+    }
+  };
+}
+
+function toNumber(value) {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+}
+
+// ============================================================
+// TERMS
+// ============================================================
+
+/**
+ * Build the predicate for one `field<op>value` term
+ */
+function compileComparison(name, operator, value) {
+  const { field, kind } = resolveField(name);
+  const ordered = operator !== ':' && operator !== '!=';
+
+  if (ordered && (kind === 'string' || kind === 'ip' || kind === 'boolean')) {
+    throw queryError(`Field ${name} does not support ${operator}`);
+  }
+
+  const matcher = compileMatcher(name, field, kind, operator, value);
+  return operator === '!=' ? result => !matcher(result) : matcher;
+}
+
+function compileMatcher(name, field, kind, operator, value) {
+  switch (kind) {
+    case 'number': {
+      const target = toNumber(value);
+      if (target === null) throw queryError(`Field ${name} expects a number, got "${value}"`);
+      return result => {
+        const actual = toNumber(result[field]);
+        if (actual === null) return false;
+        switch (operator) {
+          case '>': return actual > target;
+          case '>=': return actual >= target;
+          case '<': return actual < target;
+          case '<=': return actual <= target;
+          default: return actual === target;
+        }
+      };
+    }
+
+    case 'date': {
+      const start = parseTimestamp(value);
+      if (start === null) throw queryError(`Field ${name} expects a date, got "${value}"`);
+      const end = start + timestampPrecisionMs(value.trim());
+      return result => {
+        const actual = parseTimestamp(result[field] ?? '');
+        if (actual === null) return false;
+        switch (operator) {
+          // ts>2020-03-01 means after that day, ts<=2020-03-01 up to its end
+          case '>': return actual >= end;
+          case '>=': return actual >= start;
+          case '<': return actual < start;
+          case '<=': return actual < end;
+          default: return actual >= start && actual < end;
+        }
+      };
+    }
+
+    case 'boolean': {
+      const target = String(value).toLowerCase();
+      if (target !== 'true' && target !== 'false') {
+        throw queryError(`Field ${name} expects true or false, got "${value}"`);
+      }
+      return result => String(result[field]).toLowerCase() === target;
+    }
+
+    case 'ip': {
+      const cidr = /^([\d.]+)\/(\d{1,2})$/.exec(value);
+      if (cidr) {
+        const network = parseIpv4(cidr[1]);
+        const bits = Number(cidr[2]);
+        if (network === null || bits > 32) throw queryError(`Invalid CIDR range: ${value}`);
+        const size = 2 ** (32 - bits);
+        const base = Math.floor(network / size) * size;
+        return result => {
+          const address = parseIpv4(result[field] ?? '');
+          return address !== null && address >= base && address < base + size;
+        };
+      }
+      const pattern = wildcardPattern(value);
+      return result => pattern.test(String(result[field] ?? ''));
+    }
+
+    default: {
+      const pattern = wildcardPattern(value);
+      return result => result[field] !== undefined && pattern.test(String(result[field]));
+    }
+  }
+}
+
+function compileText(text) {
+  const needle = text.toLowerCase();
+  return result => Object.values(result).some(value => String(value).toLowerCase().includes(needle));
+}
+
+// ============================================================
+// PARSER
+// ============================================================
+
+/**
+ * Split a query into word, string and paren tokens
+ */
+function tokenize(query) {
+  const tokens = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char, position: i });
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      let j = i + 1;
+      while (j < query.length && query[j] !== '"') {
+        if (query[j] === '\\' && j + 1 < query.length) j++;
+        value += query[j];
+        j++;
+      }
+      if (j >= query.length) throw queryError(`Unterminated string at position ${i}`);
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+    } else {
+      let j = i;
+      while (j < query.length && !/[\s()"]/.test(query[j])) j++;
+      tokens.push({ type: 'word', value: query.slice(i, j), position: i });
+      i = j;
+    }
+  }
+
+  return tokens;
+}
+
+// Split `risk>=70` into field, operator and value - the value may still be
+// empty when it follows as a quoted string (attack_type:"DDoS")
+function splitComparison(word) {
+  const match = /^([A-Za-z_][A-Za-z0-9_]*)(.*)$/.exec(word);
+  if (!match) return null;
+  const operator = COMPARISON_OPERATORS.find(op => match[2].startsWith(op));
+  if (!operator) return null;
+  return { field: match[1], operator, value: match[2].slice(operator.length) };
+}
+
+/**
+ * Recursive-descent parser: or := and (OR and)*, and := unary (AND? unary)*,
+ * unary := NOT unary | ( or ) | term
+ */
+function createParser(tokens) {
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isKeyword = (token, keyword) => token && token.type === 'word' && token.value === keyword;
+
+  function parseOr() {
+    let left = parseAnd();
+    while (isKeyword(peek(), 'OR')) {
+      index++;
+      const right = parseAnd();
+      const l = left;
+      left = result => l(result) || right(result);
+    }
+    return left;
+  }
+
+  function parseAnd() {
+    let left = parseUnary();
+    while (peek() && peek().type !== ')' && !isKeyword(peek(), 'OR')) {
+      if (isKeyword(peek(), 'AND')) index++;
+      const right = parseUnary();
+      const l = left;
+      left = result => l(result) && right(result);
+    }
+    return left;
+  }
+
+  function parseUnary() {
+    const token = peek();
+    if (!token) throw queryError('Unexpected end of query');
+
+    if (isKeyword(token, 'NOT')) {
+      index++;
+      const operand = parseUnary();
+      return result => !operand(result);
+    }
+
+    if (token.type === '(') {
+      index++;
+      const inner = parseOr();
+      if (!peek() || peek().type !== ')') throw queryError(`Missing ) for ( at position ${token.position}`);
+      index++;
+      return inner;
+    }
+
+    if (token.type === ')') throw queryError(`Unexpected ) at position ${token.position}`);
+    if (token.type === 'word' && KEYWORDS.includes(token.value)) {
+      throw queryError(`Unexpected ${token.value} at position ${token.position}`);
+    }
+
+    index++;
+    if (token.type === 'string') return compileText(token.value);
+
+    const comparison = splitComparison(token.value);
+    if (!comparison) return compileText(token.value);
+
+    let { value } = comparison;
+    if (value === '') {
+      const next = peek();
+      if (!next || next.type !== 'string') {
+        throw queryError(`Missing value for ${comparison.field}${comparison.operator} at position ${token.position}`);
+      }
+      index++;
+      value = next.value;
+    }
+    return compileComparison(comparison.field, comparison.operator, value);
+  }
+
+  function parse() {
+    const predicate = parseOr();
+    if (index < tokens.length) {
+      throw queryError(`Unexpected ${tokens[index].type === ')' ? ')' : tokens[index].value} at position ${tokens[index].position}`);
+    }
+    return predicate;
+  }
+
+  return { parse };
+}
+
+/**
+ * Compile a query into a predicate over ThreatData records
+ * @param {string} [query] - Filter expression; empty matches everything
+ * @returns {Function} result => boolean
+ * @throws {Error} isQueryError with a human-readable message on bad syntax
+ */
+function compileQuery(query) {
+  const tokens = tokenize(String(query || ''));
+  if (tokens.length === 0) return () => true;
+  return createParser(tokens).parse();
+}
+
+// ============================================================
+// SORTING
+// ============================================================
+
+/**
+ * Build a comparator from a sort spec like "-risk,ts"
+ * (a leading - sorts descending; missing values always sort last)
+ * @param {string} [sort]
+ * @returns {Function|null} Comparator, or null to keep stored order
+ * @throws {Error} isQueryError on unknown fields
+ */
+function compileSort(sort) {
+  const keys = String(sort || '').split(',').map(key => key.trim()).filter(Boolean);
+  if (keys.length === 0) return null;
+
+  const comparators = keys.map(key => {
+    const descending = key.startsWith('-');
+    const { field, kind } = resolveField(descending ? key.slice(1) : key);
+    const read = kind === 'number'
+      ? result => toNumber(result[field])
+      : kind === 'date'
+        ? result => parseTimestamp(result[field] ?? '')
+        : kind === 'ip'
+          ? result => parseIpv4(result[field] ?? '') ?? (result[field] || null)
+          : result => (result[field] === undefined || result[field] === '' ? null : String(result[field]));
+
+    return (a, b) => {
+      const left = read(a);
+      const right = read(b);
+      if (left === null || right === null) return (left === null) - (right === null);
+      const order = typeof left === 'string' || typeof right === 'string'
+        ? String(left).localeCompare(String(right))
+        : left - right;
+      return descending ? -order : order;
+    };
+  });
+
+  return (a, b) => {
+    for (const compare of comparators) {
+      const order = compare(a, b);
+      if (order !== 0) return order;
+    }
+    return 0;
+  };
+}
+
+module.exports = { compileQuery, compileSort, resolveField, parseTimestamp, FIELD_ALIASES };
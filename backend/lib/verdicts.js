@@ -0,0 +1,124 @@
+/**
+ * Analyst Verdicts
+ *
+ * An analyst can overrule the Dual-AI consensus on a single result by
+ * marking it TRUE_POSITIVE or FALSE_POSITIVE, with a reason. Verdicts are
+ * stored per execution, keyed like case events (`_unique_id`, or
+ * `<execution_id>:<index>`), and never touch the stored result itself.
+ *
+ * Results served by the API carry the verdict applied: consensus_classification
+ * is the analyst's verdict, ai_classification keeps what the AI said and
+ * analyst_verdict records who decided, when and why. final_summary counts are
+ * recomputed the same way; n8n's original stays in ai_final_summary.
+ */
+
+const { eventIdOf } = require('./cases');
+
+const VERDICTS = ['TRUE_POSITIVE', 'FALSE_POSITIVE'];
+const MAX_REASON_LENGTH = 2000;
+
+function verdictError(message, path) {
+  const error = new Error(message);
+  error.isVerdictError = true;
+  error.path = path;
+  return error;
+}
+
+/**
+ * Validate the body of PUT /executions/:id/verdicts/:eventId
+ * @param {object} body - { verdict, reason, analyst? }
+ * @throws {Error} isVerdictError with a JSON-pointer path on bad input
+ */
+function parseVerdict(body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw verdictError('must be an object', '/');
+  }
+
+  const verdict = String(body.verdict ?? '').toUpperCase();
+  if (!VERDICTS.includes(verdict)) throw verdictError(`must be one of: ${VERDICTS.join(', ')}`, '/verdict');
+
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (!reason) throw verdictError('is required to overrule the AI verdict', '/reason');
+  if (reason.length > MAX_REASON_LENGTH) throw verdictError(`must be at most ${MAX_REASON_LENGTH} characters`, '/reason');
+
+  const analyst = body.analyst === undefined || body.analyst === null ? null : String(body.analyst).trim() || null;
+  return { verdict, reason, analyst };
+}
+
+/**
+ * Find a result of an execution by its event id
+ * @returns {object|null} The stored (AI) result
+ */
+function findResult(results, executionId, eventId) {
+  const index = results.findIndex((result, position) => eventIdOf(result, executionId, position) === eventId);
+  return index === -1 ? null : results[index];
+}
+
+function withVerdict(result, verdict) {
+  return {
+    ...result,
+    consensus_classification: verdict.verdict,
+    ai_classification: result.consensus_classification ?? null,
+    analyst_verdict: {
+      verdict: verdict.verdict,
+      reason: verdict.reason,
+      analyst: verdict.analyst,
+      at: verdict.at
+    }
+  };
+}
+
+/**
+ * Apply an execution's verdicts to its results
+ * @param {string} executionId - Execution the results belong to
+ * @param {Array} results - Stored results, in stored order
+ * @param {Array} verdicts - Verdict records of the execution
+ * @returns {Array} Results, overruled ones replaced by annotated copies
+ */
+function applyVerdicts(executionId, results, verdicts) {
+  if (verdicts.length === 0) return results;
+  const byEvent = new Map(verdicts.map(verdict => [verdict.event_id, verdict]));
+  return results.map((result, index) => {
+    const verdict = byEvent.get(eventIdOf(result, executionId, index));
+    return verdict ? withVerdict(result, verdict) : result;
+  });
+}
+
+function resultsWithVerdicts(store, executionId) {
+  return applyVerdicts(executionId, store.getResults(executionId), store.getVerdicts(executionId));
+}
+
+/**
+ * Recompute n8n's true / false positive counts with analyst verdicts - each
+ * overruled result moves from its AI classification to the analyst's. Counts
+ * n8n left out stay absent
+ * @param {object|null} summary - ThreatSummary as n8n sent it
+ * @returns {object|null} The summary analysts should see
+ */
+function summarizeWithVerdicts(summary, executionId, results, verdicts) {
+  if (!summary || verdicts.length === 0) return summary;
+
+  const counts = { ...summary };
+  const field = classification => ({ TRUE_POSITIVE: 'true_positives', FALSE_POSITIVE: 'false_positives' })[classification];
+  const byEvent = new Map(verdicts.map(verdict => [verdict.event_id, verdict]));
+
+  results.forEach((result, index) => {
+    const verdict = byEvent.get(eventIdOf(result, executionId, index));
+    if (!verdict || verdict.verdict === result.consensus_classification) return;
+    const from = field(result.consensus_classification);
+    if (from && counts[from] !== undefined) counts[from] = Math.max(0, counts[from] - 1);
+    const to = field(verdict.verdict);
+    if (counts[to] !== undefined) counts[to] += 1;
+  });
+
+  return counts;
+}
+
+module.exports = {
+  parseVerdict,
+  findResult,
+  applyVerdicts,
+  resultsWithVerdicts,
+  summarizeWithVerdicts,
+  VERDICTS
+};
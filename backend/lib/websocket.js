@@ -0,0 +1,211 @@
+/**
+ * WebSocket Broadcast Server
+ *
+ * Rebroadcasts every /callback update as typed messages (the protocol
+ * backend/testClient.js speaks): connection, batch_start, threat_item,
+ * batch_completed, execution_completed, alert, verdict and execution_update.
+ *
+ * Clients receive every execution by default. To follow a single run,
+ * connect with ?execution_id=<id> or send:
+ *   { "type": "subscribe", "execution_id": "<id>" }
+ *   { "type": "unsubscribe", "execution_id": "<id>" }
+ */
+
+const { WebSocketServer, WebSocket } = require('ws');
+const { ALL_EXECUTIONS } = require('./events');
+
+// ============================================================
+// MESSAGE BUILDERS
+// ============================================================
+
+function summarizeBatch(results) {
+  const riskScores = results
+    .map(r => parseFloat(r.final_risk_score))
+    .filter(score => !Number.isNaN(score));
+
+  return {
+    total_items: results.length,
+    true_positives: results.filter(r => r.consensus_classification === 'TRUE_POSITIVE').length,
+    false_positives: results.filter(r => r.consensus_classification === 'FALSE_POSITIVE').length,
+    suspicious: results.filter(r => !r.consensus_classification || r.consensus_classification === 'UNKNOWN').length,
+    benign: results.filter(r => r.escalation_priority === 'LOW').length,
+    high_severity_count: results.filter(r => ['HIGH', 'CRITICAL'].includes(r.escalation_priority)).length,
+    average_risk_score: riskScores.length > 0
+      ? Math.round((riskScores.reduce((sum, score) => sum + score, 0) / riskScores.length) * 10) / 10
+      : 0
+  };
+}
+
+function describeGaps(report) {
+  const gaps = [];
+  if (report.missing_batches.length > 0) {
+    gaps.push(`missing batches: ${report.missing_batches.join(', ')}`);
+  }
+  if (report.truncated_batches.length > 0) {
+    gaps.push(`truncated batches: ${report.truncated_batches.join(', ')} (${report.missing_items} items lost)`);
+  }
+  return `Workflow completed with ${gaps.join('; ')}`;
+}
+
+/**
+ * Translate an event-bus event into the WebSocket messages clients expect
+ * @param {object} event - Event published by the callback handler
+ * @returns {Array<object>} Messages to send, in order
+ */
+function toMessages(event) {
+  const base = { execution_id: event.execution_id, timestamp: event.timestamp };
+
+  switch (event.type) {
+    case 'batch_completed': {
+      const results = event.results || [];
+      return [
+        {
+          type: 'batch_start',
+          ...base,
+          batch_number: event.batch_number,
+          total_batches: event.total_batches,
+          items_in_batch: results.length,
+          progress_percent: event.progress_percent
+        },
+        ...results.map((item, idx) => ({
+          type: 'threat_item',
+          ...base,
+          batch_number: event.batch_number,
+          item_number: idx + 1,
+          total_items_in_batch: results.length,
+          data: item
+        })),
+        {
+          type: 'batch_completed',
+          ...base,
+          batch_number: event.batch_number,
+          total_batches: event.total_batches,
+          progress_percent: event.progress_percent,
+          summary: summarizeBatch(results),
+          n8n_summary: event.summary
+        }
+      ];
+    }
+
+    case 'completed':
+      return [{
+        type: 'execution_completed',
+        ...base,
+        status: event.status,
+        total_items_sent: event.total_results_count,
+        total_batches: event.batches_received,
+        final_summary: event.final_summary,
+        message: event.status === 'incomplete'
+          ? describeGaps(event.batch_report)
+          : 'Workflow completed successfully'
+      }];
+
+    case 'alert':
+      return [{ type: 'alert', ...base, alert: event.alert }];
+
+    case 'verdict':
+      return [{ type: 'verdict', ...base, event_id: event.event_id, verdict: event.verdict }];
+
+    default:
+      return [{ type: 'execution_update', ...base, status: event.type, data: event.data }];
+  }
+}
+
+// ============================================================
+// SERVER
+// ============================================================
+
+/**
+ * Start the WebSocket server and bridge the event bus to it
+ * @param {object} options
+ * @param {number} options.port - Port to listen on
+ * @param {string} options.host - Host to bind
+ * @param {object} options.store - Execution store
+ * @param {object} options.events - Execution event bus
+ */
+function createWebSocketServer({ port, host, store, events }) {
+  const wss = new WebSocketServer({ port, host });
+
+  function send(socket, message) {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  function connectionMessage(executionId) {
+    const execution = executionId ? store.getExecution(executionId) : null;
+    const batches = executionId ? store.getBatches(executionId) : [];
+    const config = (execution && execution.config) || {};
+
+    return {
+      type: 'connection',
+      execution_id: executionId,
+      status: execution ? execution.status : null,
+      config: {
+        total_items: config.max_items ?? (execution ? execution.total_items : null),
+        batch_size: config.batch_size ?? null,
+        total_batches: batches.length > 0 ? batches[batches.length - 1].total_batches : null
+      },
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  wss.on('connection', (socket, req) => {
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const initial = url.searchParams.get('execution_id');
+
+    // Empty set = follow every execution
+    socket.subscriptions = new Set(initial ? [initial] : []);
+    console.log(`🔌 WebSocket client connected (${wss.clients.size} total)`);
+
+    send(socket, connectionMessage(initial));
+
+    socket.on('message', (raw) => {
+      let message;
+      try {
+        message = JSON.parse(raw);
+      } catch (error) {
+        return send(socket, { type: 'error', message: 'Invalid JSON' });
+      }
+
+      if (message.type === 'subscribe' && message.execution_id) {
+        socket.subscriptions.add(message.execution_id);
+        send(socket, connectionMessage(message.execution_id));
+      } else if (message.type === 'unsubscribe' && message.execution_id) {
+        socket.subscriptions.delete(message.execution_id);
+        send(socket, { type: 'unsubscribed', execution_id: message.execution_id });
+      } else {
+        send(socket, { type: 'error', message: `Unknown message type: ${message.type}` });
+      }
+    });
+
+    socket.on('close', () => {
+      console.log(`🔌 WebSocket client disconnected (${wss.clients.size} total)`);
+    });
+  });
+
+  const unsubscribe = events.subscribe(ALL_EXECUTIONS, (event) => {
+    if (wss.clients.size === 0) return;
+
+    const messages = toMessages(event);
+    for (const socket of wss.clients) {
+      const wantsEvent = socket.subscriptions.size === 0 || socket.subscriptions.has(event.execution_id);
+      if (wantsEvent) {
+        messages.forEach(message => send(socket, message));
+      }
+    }
+  });
+
+  wss.on('listening', () => {
+    console.log(`✅ WebSocket server is running on ws://${host}:${port}`);
+  });
+
+  return {
+    close() {
+      unsubscribe();
+      wss.close();
+    }
+  };
+}
+
+module.exports = { createWebSocketServer };
@@ -6,6 +6,29 @@
  */
 
 const express = require('express');
+const { createStore } = require('./lib/store');
+const { createExecutionsRouter, toExecutionResponse } = require('./lib/routes/executions');
+const { createTaxiiRouter } = require('./lib/routes/taxii');
+const { createWatchlistsRouter } = require('./lib/routes/watchlists');
+const { createForwardersRouter } = require('./lib/routes/forwarders');
+const { createNotificationsRouter } = require('./lib/routes/notifications');
+const { createAlertsRouter } = require('./lib/routes/alerts');
+const { createCasesRouter } = require('./lib/routes/cases');
+const { createEventBus } = require('./lib/events');
+const { encodeCursor } = require('./lib/pagination');
+const { computeProgress } = require('./lib/progress');
+const { computeBatchReport } = require('./lib/batchReport');
+const { createBatchAssembler } = require('./lib/batchAssembler');
+const { createWebSocketServer } = require('./lib/websocket');
+const { createCallbackVerifier } = require('./lib/callbackAuth');
+const { createCallbackValidator, createWorkflowConfigValidator } = require('./lib/callbackSchema');
+const { createN8nClient } = require('./lib/n8nClient');
+const { createSyslogForwarder } = require('./lib/syslogForwarder');
+const { createElasticWriter } = require('./lib/elasticWriter');
+const { createNotifier } = require('./lib/notifier');
+const { createAlertEngine } = require('./lib/alertRules');
+const { resultsWithVerdicts, summarizeWithVerdicts } = require('./lib/verdicts');
+const { sendError } = require('./lib/http');
 const app = express();
 
 // ============================================================
@@ -14,15 +37,28 @@ const app = express();
 
 const PORT = 3001;
 const HOST = 'localhost';
+const WS_PORT = parseInt(process.env.WS_PORT || '3000', 10);
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+const CALLBACK_URL = process.env.CALLBACK_URL || `http://${HOST}:${PORT}/callback`;
+const BODY_LIMIT = process.env.CALLBACK_BODY_LIMIT || '25mb';
+const TAXII_USERNAME = process.env.TAXII_USERNAME || '';
+const TAXII_PASSWORD = process.env.TAXII_PASSWORD || '';
 
-// Middleware
-app.use(express.json());
+// Middleware - keep the raw body so callback signatures can be verified.
+// gzip/deflate bodies (Content-Encoding) are inflated first, so rawBody and
+// the signature always cover the JSON itself.
+app.use(express.json({
+  limit: BODY_LIMIT,
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 
 // CORS Configuration - Allow frontend to access backend
 app.use((req, res, next) => {
-  res.header('Access-Control-Allow-Origin', '*'); // Allow all origins
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, X-Workflow-ID, X-Execution-ID');
+  res.header('Access-Control-Allow-Origin', CORS_ORIGIN);
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-Workflow-ID, X-Execution-ID');
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -32,8 +68,35 @@ app.use((req, res, next) => {
   next();
 });
 
-// Store execution data in memory
-const executions = new Map();
+// Persistent execution store (STORE_DRIVER=file|memory, STORE_DIR=./data)
+const store = createStore();
+
+// Live execution updates for streaming clients
+const events = createEventBus();
+
+// HMAC verification for n8n callbacks (CALLBACK_SECRET / CALLBACK_SECRETS)
+const verifyCallback = createCallbackVerifier({ store });
+
+// Callback contract (shared/callback.schema.json) - rejects malformed payloads, coerces types
+const validateCallback = createCallbackValidator();
+
+// Reassembles batches n8n splits across several callbacks (part_number / total_parts)
+const assembler = createBatchAssembler();
+
+// Workflow trigger (N8N_WEBHOOK_URL) - runs are started through POST /executions
+const n8n = createN8nClient();
+
+// CEF/LEEF syslog to SIEM collectors for HIGH/CRITICAL results (SYSLOG_DESTINATIONS)
+const syslog = createSyslogForwarder();
+
+// ECS documents to an Elasticsearch / OpenSearch _bulk endpoint after each batch (ELASTIC_BULK_URL)
+const elastic = createElasticWriter();
+
+// Webhook / email notifications for critical findings and finished runs (NOTIFICATION_CHANNELS)
+const notifier = createNotifier();
+
+// Analyst alert rules evaluated against every batch (managed through /alerts/rules)
+const alertEngine = createAlertEngine({ store });
 
 // ============================================================
 // CALLBACK URL - USE THIS IN YOUR n8n WORKFLOW
@@ -44,13 +107,161 @@ console.log('🚀 N8N CALLBACK SERVER');
 console.log('='.repeat(70));
 console.log('\n📡 CALLBACK URL (Use this in your n8n workflow):');
 console.log('\n   ➜  http://localhost:3001/callback\n');
+if (!verifyCallback.enabled) {
+  console.log('⚠️  No CALLBACK_SECRET set - callbacks are NOT authenticated\n');
+}
+if (syslog.enabled) {
+  console.log(`📤 Forwarding escalations to ${syslog.status().map(destination => destination.name).join(', ')}\n`);
+}
+if (elastic.enabled) {
+  console.log(`🗄️  Indexing results into ${elastic.status().url} (${elastic.status().index_template})\n`);
+}
+if (notifier.enabled) {
+  console.log(`🔔 Notifying ${notifier.status().map(channel => channel.name).join(', ')}\n`);
+}
 console.log('='.repeat(70) + '\n');
 
+// ============================================================
+// BATCH INGESTION
+// ============================================================
+
+/**
+ * Store a complete (or, on completion, a half-received) batch and push it
+ * to streaming clients
+ * @param {string} executionId - n8n execution id
+ * @param {object} data - Assembled batch_completed payload (see lib/batchAssembler.js)
+ */
+function ingestBatch(executionId, data) {
+  const batchNumber = data.batch_number;
+  const totalBatches = data.total_batches;
+  const progress = data.progress_percent || 0;
+  const batchResults = data.batch_results;
+  
+  console.log(`\n📦 Batch ${batchNumber}/${totalBatches} Completed (${progress}%)`);
+  console.log(`   Workflow ID: ${data.workflow_id}`);
+  console.log(`   Execution ID: ${executionId}`);
+  console.log(`   Timestamp: ${data.timestamp}`);
+  
+  if (data.summary) {
+    console.log(`\n   📊 Batch Summary:`);
+    console.log(`      Total Items: ${data.summary.total_items || 0}`);
+    console.log(`      True Positives: ${data.summary.true_positives || 0}`);
+    console.log(`      False Positives: ${data.summary.false_positives || 0}`);
+    console.log(`      Critical: ${data.summary.critical || 0}`);
+    console.log(`      High: ${data.summary.high || 0}`);
+    console.log(`      Medium: ${data.summary.medium || 0}`);
+    console.log(`      Low: ${data.summary.low || 0}`);
+  }
+  
+  // A batch arriving after `completed` is kept, but flagged in the batch report
+  const previousStatus = store.getExecution(executionId).status;
+  const isLate = previousStatus === 'completed' || previousStatus === 'incomplete';
+  if (isLate) {
+    console.log(`   ⚠️ Late batch - execution already ${previousStatus}`);
+  }
+  
+  // Fewer results than the batch summary counts, or parts that never arrived
+  const expectedItems = data.summary?.total_items ?? null;
+  const isTruncated = data.parts_received < data.total_parts
+    || (expectedItems !== null && batchResults.length < expectedItems);
+  if (data.total_parts > 1) {
+    console.log(`   🧩 Reassembled from ${data.parts_received}/${data.total_parts} parts`);
+  }
+  if (isTruncated) {
+    console.log(`   ⚠️ Truncated batch - ${batchResults.length} of ${expectedItems ?? '?'} results received`);
+  }
+  
+  // Store batch info - results are stored separately per threat
+  store.addBatch(executionId, {
+    batch_number: batchNumber,
+    total_batches: totalBatches,
+    progress_percent: progress,
+    summary: data.summary || null,
+    results_count: batchResults.length,
+    expected_items: expectedItems,
+    total_parts: data.total_parts,
+    parts_received: data.parts_received,
+    truncated: isTruncated,
+    timestamp: data.timestamp,
+    late: isLate
+  });
+  
+  // Also accumulate all results
+  const resultsOffset = store.countResults(executionId);
+  if (batchResults.length > 0) {
+    const total = store.addResults(executionId, batchResults);
+    console.log(`   💾 Stored ${batchResults.length} results (Total: ${total})`);
+  }
+  
+  // Queue escalated results for the SIEM - delivery happens in the background
+  if (syslog.enabled && batchResults.length > 0) {
+    const forwarded = syslog.forward(executionId, batchResults);
+    if (forwarded > 0) {
+      console.log(`   📤 Queued ${forwarded} syslog messages`);
+    }
+  }
+  
+  // Index the batch as ECS documents - ids follow the result offset, so retries overwrite
+  elastic.write(executionId, batchResults, { workflowId: data.workflow_id, offset: resultsOffset });
+  
+  // New CRITICAL items - a re-delivered batch never gets here, so nothing is announced twice
+  const criticalFindings = batchResults.filter(result => result.escalation_priority === 'CRITICAL');
+  if (criticalFindings.length > 0) {
+    notifier.notify({
+      type: 'critical_findings',
+      execution_id: executionId,
+      batch_number: batchNumber,
+      findings: criticalFindings
+    });
+  }
+  
+  // Analyst alert rules - raised alerts are stored and streamed, repeats fold into suppressed ones
+  const alerts = alertEngine.evaluate(executionId, batchResults, { batchNumber, offset: resultsOffset });
+  alerts.forEach(({ alert, folded }) => {
+    console.log(folded
+      ? `   🔁 Alert "${alert.title}" repeated (${alert.occurrences} occurrences): ${alert.message}`
+      : `   🚨 Alert "${alert.title}": ${alert.message}`);
+    events.publish(executionId, 'alert', { alert, folded });
+  });
+  
+  // Push the batch to streaming clients
+  events.publish(executionId, 'batch_completed', {
+    batch_number: batchNumber,
+    total_batches: totalBatches,
+    progress_percent: progress,
+    summary: data.summary || null,
+    truncated: isTruncated,
+    results: batchResults,
+    results_offset: resultsOffset,
+    batches_received: store.getBatches(executionId).length,
+    total_results_count: store.countResults(executionId),
+    next_cursor: encodeCursor(store.countResults(executionId)),
+    progress: computeProgress(
+      store.getExecution(executionId),
+      store.getBatches(executionId),
+      store.countResults(executionId)
+    )
+  });
+  
+  // A late batch may fill the last gap of an incomplete run
+  if (previousStatus === 'incomplete') {
+    const report = computeBatchReport(store.getExecution(executionId), store.getBatches(executionId));
+    if (report.is_complete) {
+      store.upsertExecution(executionId, { status: 'completed' });
+      console.log(`   ✅ All batches now received - execution completed`);
+      events.publish(executionId, 'completed', {
+        ...toExecutionResponse(store, store.getExecution(executionId)),
+        next_cursor: encodeCursor(store.countResults(executionId))
+      });
+    }
+  }
+}
+
 // ============================================================
 // MAIN CALLBACK ENDPOINT
 // ============================================================
 
-app.post('/callback', (req, res) => {
+app.post('/callback', verifyCallback, validateCallback, (req, res) => {
   const data = req.body;
   
   console.log('\n' + '='.repeat(70));
@@ -61,58 +272,83 @@ app.post('/callback', (req, res) => {
   const executionId = data.execution_id || 'unknown';
   const status = data.status || 'unknown';
   
-  // Initialize execution tracking if needed
-  if (!executions.has(executionId)) {
-    executions.set(executionId, {
-      startTime: new Date().toISOString(),
-      batches: [],
-      totalItems: 0
+  // Initialize execution tracking if needed - the first callback's workflow
+  // binds the run to that workflow's callback secret (see lib/callbackAuth.js)
+  const workflowId = data.workflow_id || req.get('X-Workflow-ID') || null;
+  const existing = store.getExecution(executionId);
+  if (!existing) {
+    store.upsertExecution(executionId, {
+      workflow_id: workflowId
     });
     console.log(`🆕 New Execution: ${executionId}`);
+  } else if (!existing.workflow_id && workflowId) {
+    store.upsertExecution(executionId, { workflow_id: workflowId });
+  }
+  
+  // Idempotent ingestion - n8n retries re-deliver the same batch_number
+  if (status === 'batch_completed' && store.getBatch(executionId, data.batch_number)) {
+    const execution = store.getExecution(executionId);
+    store.upsertExecution(executionId, {
+      duplicate_deliveries: (execution.duplicate_deliveries || 0) + 1
+    });
+    console.log(`♻️  Duplicate delivery of batch ${data.batch_number} ignored (${executionId})`);
+    console.log('='.repeat(70) + '\n');
+    
+    return res.status(200).json({
+      status: 'duplicate',
+      message: 'Batch already received - ignored',
+      execution_id: executionId,
+      batch_number: data.batch_number,
+      timestamp: new Date().toISOString()
+    });
   }
   
   // Handle different status types
   if (status === 'batch_completed') {
-    const batchNumber = data.batch_number;
-    const totalBatches = data.total_batches;
-    const progress = data.progress_percent || 0;
-    
-    console.log(`\n📦 Batch ${batchNumber}/${totalBatches} Completed (${progress}%)`);
-    console.log(`   Workflow ID: ${data.workflow_id}`);
-    console.log(`   Execution ID: ${executionId}`);
-    console.log(`   Timestamp: ${data.timestamp}`);
+    // Large batches arrive in several parts - buffer until the last one is in
+    const assembled = assembler.addPart(data);
     
-    if (data.summary) {
-      console.log(`\n   📊 Batch Summary:`);
-      console.log(`      Total Items: ${data.summary.total_items || 0}`);
-      console.log(`      True Positives: ${data.summary.true_positives || 0}`);
-      console.log(`      False Positives: ${data.summary.false_positives || 0}`);
-      console.log(`      Critical: ${data.summary.critical || 0}`);
-      console.log(`      High: ${data.summary.high || 0}`);
-      console.log(`      Medium: ${data.summary.medium || 0}`);
-      console.log(`      Low: ${data.summary.low || 0}`);
+    if (assembled.status === 'invalid') {
+      console.log(`   ❌ ${assembled.message}`);
+      console.log('='.repeat(70) + '\n');
+      return sendError(res, 400, 'Invalid batch part', { errors: [{ path: '/part_number', message: assembled.message }] });
     }
     
-    // Store batch info INCLUDING the actual data
-    const execution = executions.get(executionId);
-    execution.batches.push({
-      batchNumber,
-      totalBatches,
-      progress,
-      summary: data.summary,
-      batch_results: data.batch_results || [], // Store actual threat data
-      timestamp: data.timestamp
-    });
-    
-    // Also accumulate all results
-    if (!execution.allResults) {
-      execution.allResults = [];
+    if (assembled.status === 'duplicate') {
+      const execution = store.getExecution(executionId);
+      store.upsertExecution(executionId, {
+        duplicate_deliveries: (execution.duplicate_deliveries || 0) + 1
+      });
+      console.log(`♻️  Duplicate delivery of batch ${data.batch_number} part ${data.part_number}/${data.total_parts} ignored (${executionId})`);
+      console.log('='.repeat(70) + '\n');
+      
+      return res.status(200).json({
+        status: 'duplicate',
+        message: 'Batch part already received - ignored',
+        execution_id: executionId,
+        batch_number: data.batch_number,
+        part_number: data.part_number,
+        timestamp: new Date().toISOString()
+      });
     }
-    if (data.batch_results && Array.isArray(data.batch_results)) {
-      execution.allResults.push(...data.batch_results);
-      console.log(`   💾 Stored ${data.batch_results.length} results (Total: ${execution.allResults.length})`);
+    
+    if (assembled.status === 'pending') {
+      console.log(`🧩 Batch ${data.batch_number} part ${data.part_number}/${data.total_parts} buffered (${assembled.parts_received}/${assembled.total_parts} received)`);
+      console.log('='.repeat(70) + '\n');
+      
+      return res.status(202).json({
+        status: 'partial',
+        message: 'Batch part buffered - waiting for remaining parts',
+        execution_id: executionId,
+        batch_number: data.batch_number,
+        parts_received: assembled.parts_received,
+        total_parts: assembled.total_parts,
+        timestamp: new Date().toISOString()
+      });
     }
     
+    ingestBatch(executionId, assembled.payload);
+    
   } else if (status === 'completed') {
     console.log(`\n✅ WORKFLOW COMPLETED`);
     console.log(`   Execution ID: ${executionId}`);
@@ -127,14 +363,78 @@ app.post('/callback', (req, res) => {
       console.log(`      High: ${data.summary.high || 0}`);
     }
     
-    const execution = executions.get(executionId);
-    execution.completedTime = new Date().toISOString();
-    execution.finalSummary = data.summary;
+    // Batches still missing parts are stored as they are and flagged truncated
+    for (const partial of assembler.flush(executionId)) {
+      ingestBatch(executionId, partial);
+    }
+    
+    // Missing or truncated batches leave the run incomplete rather than completed
+    const report = computeBatchReport(
+      { ...store.getExecution(executionId), status: 'completed' },
+      store.getBatches(executionId)
+    );
+    if (report.missing_batches.length > 0) {
+      console.log(`\n   ⚠️ Missing batches: ${report.missing_batches.join(', ')} - marking execution incomplete`);
+    }
+    if (report.truncated_batches.length > 0) {
+      console.log(`\n   ⚠️ Truncated batches: ${report.truncated_batches.join(', ')} (${report.missing_items} items lost) - marking execution incomplete`);
+    }
+    
+    store.upsertExecution(executionId, {
+      status: report.is_complete ? 'completed' : 'incomplete',
+      completed_time: new Date().toISOString(),
+      final_summary: data.summary || null,
+      total_items: data.total_items || 0
+    });
+    
+    events.publish(executionId, 'completed', {
+      ...toExecutionResponse(store, store.getExecution(executionId)),
+      next_cursor: encodeCursor(store.countResults(executionId))
+    });
+    
+    notifier.notify({
+      type: 'run_completed',
+      execution_id: executionId,
+      status: store.getExecution(executionId).status,
+      total_items: data.total_items || 0,
+      summary: data.summary || null
+    });
+    
+  } else if (status === 'failed') {
+    console.log(`\n❌ WORKFLOW FAILED`);
+    console.log(`   Execution ID: ${executionId}`);
+    console.log(`   Message: ${data.message || '(none)'}`);
+    
+    store.upsertExecution(executionId, {
+      status: 'failed',
+      completed_time: new Date().toISOString(),
+      error: data.message || null
+    });
+    
+    events.publish(executionId, 'failed', { data });
+    notifier.notify({ type: 'run_failed', execution_id: executionId, message: data.message || null });
+    
+  } else if (status === 'paused' || status === 'resumed' || status === 'cancelled') {
+    // n8n confirming a control request (see POST /executions/:id/pause|resume|cancel)
+    console.log(`\n🎛️  WORKFLOW ${status.toUpperCase()}`);
+    console.log(`   Execution ID: ${executionId}`);
+    if (data.batch_number) {
+      console.log(`   After Batch: ${data.batch_number}/${data.total_batches}`);
+    }
+    
+    store.upsertExecution(executionId, {
+      status: status === 'resumed' ? 'processing' : status,
+      ...(status === 'cancelled' && { completed_time: new Date().toISOString() })
+    });
+    
+    events.publish(executionId, status, { data });
     
   } else {
     console.log(`\n❓ Status: ${status}`);
     console.log(`   Execution ID: ${executionId}`);
     console.log(`   Data:`, JSON.stringify(data, null, 2));
+    
+    events.publish(executionId, status, { data });
   }
   
   console.log('='.repeat(70) + '\n');
@@ -166,23 +466,83 @@ app.get('/health', (req, res) => {
 // ============================================================
 
 app.get('/status', (req, res) => {
-  const executionList = Array.from(executions.entries()).map(([id, data]) => ({
-    execution_id: id,
-    start_time: data.startTime,
-    completed_time: data.completedTime,
-    batches_received: data.batches.length,
-    final_summary: data.finalSummary,
-    all_results: data.allResults || [], // Include full threat data
-    total_results_count: (data.allResults || []).length
+  const executionList = store.listExecutions().map(execution => ({
+    execution_id: execution.execution_id,
+    start_time: execution.start_time,
+    completed_time: execution.completed_time,
+    batches_received: store.getBatches(execution.execution_id).length,
+    final_summary: summarizeWithVerdicts(
+      execution.final_summary,
+      execution.execution_id,
+      store.getResults(execution.execution_id),
+      store.getVerdicts(execution.execution_id)
+    ),
+    all_results: resultsWithVerdicts(store, execution.execution_id), // Include full threat data
+    total_results_count: store.countResults(execution.execution_id)
   }));
   
   res.status(200).json({
-    total_executions: executions.size,
+    total_executions: executionList.length,
     executions: executionList,
     timestamp: new Date().toISOString()
   });
 });
 
+// ============================================================
+// EXECUTION ENDPOINTS - Trigger runs, per-execution metadata and results
+// ============================================================
+
+app.use('/executions', createExecutionsRouter({
+  store,
+  events,
+  n8n,
+  validateConfig: createWorkflowConfigValidator(),
+  callbackUrl: CALLBACK_URL
+}));
+
+// ============================================================
+// WATCHLISTS - IOCs imported from MISP events
+// ============================================================
+
+app.use('/watchlists', createWatchlistsRouter({ store }));
+
+// ============================================================
+// FORWARDERS - Delivery status of outbound SIEM integrations
+// ============================================================
+
+app.use('/forwarders', createForwardersRouter({ syslog, elastic }));
+
+// ============================================================
+// NOTIFICATIONS - Channel status, delivery log and test sends
+// ============================================================
+
+app.use('/notifications', createNotificationsRouter({ notifier }));
+
+// ============================================================
+// ALERTS - Analyst alert rules and the alerts they raise
+// ============================================================
+
+app.use('/alerts', createAlertsRouter({ store, events, alertEngine }));
+
+// ============================================================
+// CASES - Analyst cases grouping related results
+// ============================================================
+
+app.use('/cases', createCasesRouter({ store }));
+
+// ============================================================
+// TAXII 2.1 - Confirmed indicators for other SOC tools
+// ============================================================
+
+if (!TAXII_PASSWORD) {
+  console.log('⚠️  No TAXII_PASSWORD set - /taxii2 is NOT authenticated\n');
+}
+
+app.use('/taxii2', createTaxiiRouter({
+  store,
+  credentials: TAXII_PASSWORD ? { username: TAXII_USERNAME, password: TAXII_PASSWORD } : null
+}));
+
 // ============================================================
 // START SERVER
 // ============================================================
@@ -192,13 +552,17 @@ app.listen(PORT, HOST, () => {
   console.log(`👂 Waiting for n8n workflow callbacks...\n`);
 });
 
+// WebSocket broadcast of every callback update (see testClient.js)
+const wsServer = createWebSocketServer({ port: WS_PORT, host: HOST, store, events });
+
 // ============================================================
 // ERROR HANDLING
 // ============================================================
 
 app.use((err, req, res, next) => {
   console.error('❌ Error:', err.message);
-  res.status(500).json({
+  // body-parser errors carry their own status (413 too large, 415 bad encoding, 400 bad JSON)
+  res.status(err.status || 500).json({
     status: 'error',
     message: err.message,
     timestamp: new Date().toISOString()
@@ -208,10 +572,18 @@ app.use((err, req, res, next) => {
 // Handle server shutdown gracefully
 process.on('SIGINT', () => {
   console.log('\n\n🛑 Shutting down callback server...');
+  wsServer.close();
+  syslog.close();
+  notifier.close();
+  store.close();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   console.log('\n\n🛑 Shutting down callback server...');
+  wsServer.close();
+  syslog.close();
+  notifier.close();
+  store.close();
   process.exit(0);
 });
@@ -0,0 +1,83 @@
+/**
+ * Syslog Test Listener
+ *
+ * Minimal syslog collector to check the CEF/LEEF forwarder locally.
+ * Listens on UDP and TCP (newline or octet-counting framing) and prints
+ * every message it receives.
+ *
+ * Usage: node syslogListener.js [port]        (default 5514)
+ * Then start the server with:
+ *   SYSLOG_DESTINATIONS='[{"host":"127.0.0.1","port":5514,"protocol":"tcp"}]' npm start
+ */
+
+const dgram = require('dgram');
+const net = require('net');
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const PORT = parseInt(process.argv[2] || '5514', 10);
+const HOST = '127.0.0.1';
+
+let received = 0;
+
+function print(transport, message) {
+  received += 1;
+  console.log(`\n[${received}] ${transport} ${new Date().toISOString()}`);
+  console.log(`   ${message}`);
+}
+
+// ============================================================
+// UDP
+// ============================================================
+
+const udp = dgram.createSocket('udp4');
+udp.on('message', (buffer, remote) => print(`UDP ${remote.address}:${remote.port}`, buffer.toString('utf8').trimEnd()));
+udp.on('error', error => console.error('❌ UDP error:', error.message));
+udp.bind(PORT, HOST);
+
+// ============================================================
+// TCP - newline (RFC 6587 non-transparent) or octet-counting framing
+// ============================================================
+
+const tcp = net.createServer(socket => {
+  const peer = `TCP ${socket.remoteAddress}:${socket.remotePort}`;
+  let buffer = '';
+  console.log(`🔌 Connected: ${peer}`);
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    for (;;) {
+      const octets = buffer.match(/^(\d+) /);
+      if (octets) {
+        const length = parseInt(octets[1], 10);
+        const start = octets[0].length;
+        if (Buffer.byteLength(buffer.slice(start)) < length) return;
+        // Slice by bytes so multi-byte characters keep the frame boundary
+        const bytes = Buffer.from(buffer.slice(start));
+        print(peer, bytes.subarray(0, length).toString('utf8'));
+        buffer = bytes.subarray(length).toString('utf8');
+        continue;
+      }
+      const newline = buffer.indexOf('\n');
+      if (newline === -1) return;
+      print(peer, buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+    }
+  });
+  socket.on('close', () => console.log(`🔌 Disconnected: ${peer}`));
+  socket.on('error', error => console.error(`❌ ${peer}:`, error.message));
+});
+tcp.listen(PORT, HOST);
+
+console.log('\n' + '='.repeat(70));
+console.log(`📥 Syslog listener on udp://${HOST}:${PORT} and tcp://${HOST}:${PORT}`);
+console.log('='.repeat(70));
+
+process.on('SIGINT', () => {
+  console.log(`\n\n🛑 Received ${received} messages`);
+  udp.close();
+  tcp.close();
+  process.exit(0);
+});
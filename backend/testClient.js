@@ -3,6 +3,9 @@
  *
  * Simple client to test the WebSocket threat analysis server
  * Run this to verify the server is working correctly
+ *
+ * Usage: node testClient.js [execution_id]
+ * Without an execution id the client follows every execution.
  */
 
 const WebSocket = require('ws');
@@ -11,7 +14,10 @@ const WebSocket = require('ws');
 // CONFIGURATION
 // ============================================================
 
-const WEBSOCKET_URL = 'ws://localhost:3000';
+const EXECUTION_ID = process.argv[2];
+const WEBSOCKET_URL = EXECUTION_ID
+  ? `ws://localhost:3000/?execution_id=${encodeURIComponent(EXECUTION_ID)}`
+  : 'ws://localhost:3000';
 
 // ============================================================
 // STATISTICS
@@ -77,6 +83,14 @@ ws.on('message', (data) => {
         handleExecutionCompleted(message);
         break;
 
+      case 'alert':
+        handleAlert(message);
+        break;
+
+      case 'verdict':
+        handleVerdict(message);
+        break;
+
       default:
         console.log(`📨 Unknown message type: ${message.type}`);
     }
@@ -120,9 +134,9 @@ function handleThreatItem(message) {
   const threat = message.data;
 
   // Count classifications
-  if (threat.consensus_classification === 'True Positive') {
+  if (threat.consensus_classification === 'TRUE_POSITIVE') {
     stats.truePositives++;
-  } else if (threat.consensus_classification === 'False Positive') {
+  } else if (threat.consensus_classification === 'FALSE_POSITIVE') {
     stats.falsePositives++;
   }
 
@@ -130,9 +144,9 @@ function handleThreatItem(message) {
   const severity = threat['Severity Level'];
   const severityIcon = getSeverityIcon(severity);
   const classification = threat.consensus_classification;
-  const classIcon = classification === 'True Positive' ? '🔴' : '🟡';
+  const classIcon = classification === 'TRUE_POSITIVE' ? '🔴' : '🟡';
 
-  console.log(`   ${severityIcon} ${classIcon} [${message.item_number}/${message.total_items_in_batch}] ${threat['Attack Type'].padEnd(18)} | ${threat['Source IP Address'].padEnd(15)} → ${threat['Destination IP Address'].padEnd(15)} | Risk: ${threat.final_risk_score.toString().padStart(3)} | ${classification}`);
+  console.log(`   ${severityIcon} ${classIcon} [${message.item_number}/${message.total_items_in_batch}] ${String(threat['Attack Type'] || '').padEnd(18)} | ${String(threat['Source IP Address'] || '').padEnd(15)} → ${String(threat['Destination IP Address'] || '').padEnd(15)} | Risk: ${String(threat.final_risk_score ?? '-').padStart(3)} | ${classification}`);
 }
 
 function handleBatchCompleted(message) {
@@ -151,6 +165,22 @@ function handleBatchCompleted(message) {
   console.log(`   Overall Progress: ${message.progress_percent}% [${'█'.repeat(message.progress_percent / 5)}${' '.repeat(20 - message.progress_percent / 5)}]`);
 }
 
+function handleAlert(message) {
+  const alert = message.alert;
+  console.log(`\n🚨 ALERT [${alert.severity.toUpperCase()}] ${alert.title}`);
+  console.log(`   ${alert.message}`);
+}
+
+function handleVerdict(message) {
+  const verdict = message.verdict;
+  if (!verdict) {
+    console.log(`\n⚖️  Verdict on ${message.event_id} cleared - back to the AI verdict`);
+    return;
+  }
+  console.log(`\n⚖️  ${message.event_id} marked ${verdict.verdict} (AI: ${verdict.ai_classification || 'none'})`);
+  console.log(`   ${verdict.reason}`);
+}
+
 function handleExecutionCompleted(message) {
   stats.endTime = Date.now();
 
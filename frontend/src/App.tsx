@@ -8,6 +8,11 @@ import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import Landing from './components/Landing';
 import IntegratedDashboard from './components/IntegratedDashboard';
+import ExecutionHistory from './components/ExecutionHistory';
+import AlertHistory from './components/AlertHistory';
+import CaseList from './components/CaseList';
+import CaseDetail from './components/CaseDetail';
+import DetectionQuality from './components/DetectionQuality';
 import './App.css';
 
 // Create QueryClient with optimized settings
@@ -38,6 +43,19 @@ function AppContent() {
           {/* Dashboard Route */}
           <Route path="/dashboard" element={<IntegratedDashboard />} />
           
+          {/* Execution History Route */}
+          <Route path="/executions" element={<ExecutionHistory />} />
+          
+          {/* Alert History Route */}
+          <Route path="/alerts" element={<AlertHistory />} />
+          
+          {/* Case Routes */}
+          <Route path="/cases" element={<CaseList />} />
+          <Route path="/cases/:caseId" element={<CaseDetail />} />
+          
+          {/* Detection Quality Route */}
+          <Route path="/metrics" element={<DetectionQuality />} />
+          
           {/* Redirect any unknown routes to landing */}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
@@ -1,4 +1,4 @@
-import { AlertTriangle, X } from 'lucide-react';
+import { AlertTriangle, Clock, X } from 'lucide-react';
 import { useState } from 'react';
 import { cn } from '../lib/utils';
 
@@ -8,25 +8,33 @@ interface Alert {
   message: string;
   severity?: string;
   details?: string;
+  count?: number;
 }
 
 interface AlertBannerProps {
   alerts: Alert[];
+  // When given, the parent owns dismissal (e.g. acknowledging server-side alerts)
+  // and decides which alerts to pass in; otherwise dismissals are kept locally
   onDismiss?: (id: string | number) => void;
+  onSnooze?: (id: string | number) => void;
+  dismissLabel?: string;
 }
 
-const AlertBanner = ({ alerts, onDismiss }: AlertBannerProps) => {
+const AlertBanner = ({ alerts, onDismiss, onSnooze, dismissLabel = 'Dismiss' }: AlertBannerProps) => {
   const [dismissedIds, setDismissedIds] = useState(new Set());
 
   if (!alerts || alerts.length === 0) return null;
 
-  const visibleAlerts = alerts.filter(alert => !dismissedIds.has(alert.id));
+  const visibleAlerts = onDismiss ? alerts : alerts.filter(alert => !dismissedIds.has(alert.id));
 
   if (visibleAlerts.length === 0) return null;
 
   const handleDismiss = (id: string | number) => {
-    setDismissedIds(prev => new Set([...prev, id]));
-    if (onDismiss) onDismiss(id);
+    if (onDismiss) {
+      onDismiss(id);
+    } else {
+      setDismissedIds(prev => new Set([...prev, id]));
+    }
   };
 
   const getSeverityStyles = (severity?: string) => {
@@ -56,20 +64,38 @@ const AlertBanner = ({ alerts, onDismiss }: AlertBannerProps) => {
             <div className="flex items-start space-x-3">
               <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0 animate-pulse" />
               <div>
-                <p className="font-semibold">{alert.title}</p>
+                <p className="font-semibold">
+                  {alert.title}
+                  {alert.count !== undefined && alert.count > 1 && (
+                    <span className="ml-2 text-xs font-mono opacity-75">×{alert.count}</span>
+                  )}
+                </p>
                 <p className="text-sm opacity-90 mt-1">{alert.message}</p>
                 {alert.details && (
                   <p className="text-xs opacity-75 mt-2 font-mono">{alert.details}</p>
                 )}
               </div>
             </div>
-            <button
-              onClick={() => handleDismiss(alert.id)}
-              className="ml-4 rounded-full p-1 hover:bg-white/10 transition-colors"
-              aria-label="Dismiss alert"
-            >
-              <X className="h-4 w-4" />
-            </button>
+            <div className="ml-4 flex items-center gap-1">
+              {onSnooze && (
+                <button
+                  onClick={() => onSnooze(alert.id)}
+                  className="rounded-full p-1 hover:bg-white/10 transition-colors"
+                  aria-label="Snooze alert"
+                  title="Snooze for an hour"
+                >
+                  <Clock className="h-4 w-4" />
+                </button>
+              )}
+              <button
+                onClick={() => handleDismiss(alert.id)}
+                className="rounded-full p-1 hover:bg-white/10 transition-colors"
+                aria-label={`${dismissLabel} alert`}
+                title={dismissLabel}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
           </div>
         </div>
       ))}
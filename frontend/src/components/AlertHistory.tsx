@@ -0,0 +1,416 @@
+/**
+ * Alert History
+ * Every alert raised by alert rules, with status / severity / rule / time
+ * filters and the acknowledge, snooze, resolve and reopen actions
+ */
+
+import { Fragment, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Check, ChevronDown, ChevronRight, Clock, Loader2, RotateCcw, Siren, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { getAnalystName } from '@/lib/analyst';
+import AnimatedBackground from './AnimatedBackground';
+import AnalystInput from './AnalystInput';
+import { useAlerts, useAlertAction, useAlertRules } from '../hooks/useThreatAnalysis';
+import type { AlertAction, AlertActionRequest, AlertSeverity, AlertStatus, ThreatAlert } from '../types/threat-analysis';
+
+const STATUS_STYLES: Record<AlertStatus, string> = {
+  open: 'bg-red-500/20 text-red-300',
+  acknowledged: 'bg-purple-500/20 text-purple-300',
+  snoozed: 'bg-yellow-500/20 text-yellow-300',
+  resolved: 'bg-green-500/20 text-green-300',
+};
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  critical: 'text-red-400',
+  high: 'text-orange-400',
+  medium: 'text-yellow-400',
+  low: 'text-purple-300',
+};
+
+const STATUSES: AlertStatus[] = ['open', 'acknowledged', 'snoozed', 'resolved'];
+
+const TIME_RANGES: Record<string, { label: string; hours: number | null }> = {
+  '24h': { label: 'Last 24 hours', hours: 24 },
+  '7d': { label: 'Last 7 days', hours: 7 * 24 },
+  '30d': { label: 'Last 30 days', hours: 30 * 24 },
+  all: { label: 'All time', hours: null },
+};
+
+const SNOOZE_OPTIONS = [
+  { label: '1 hour', minutes: 60 },
+  { label: '4 hours', minutes: 4 * 60 },
+  { label: '24 hours', minutes: 24 * 60 },
+];
+
+const shortId = (executionId: string): string =>
+  executionId.length > 12 ? `${executionId.slice(0, 12)}…` : executionId;
+
+const describeEntry = (entry: ThreatAlert['history'][number]): string => {
+  switch (entry.action) {
+    case 'raised':
+      return 'Raised';
+    case 'snooze':
+      return `Snoozed until ${entry.until ? new Date(entry.until).toLocaleString() : '?'}`;
+    case 'resolve':
+      return `Resolved: ${entry.reason}`;
+    case 'acknowledge':
+      return 'Acknowledged';
+    default:
+      return 'Reopened';
+  }
+};
+
+const AlertHistory = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [statusFilter, setStatusFilter] = useState<AlertStatus | 'all'>('all');
+  const [severityFilter, setSeverityFilter] = useState<AlertSeverity | 'all'>('all');
+  const [ruleFilter, setRuleFilter] = useState('all');
+  const [timeRange, setTimeRange] = useState('7d');
+  const [executionFilter, setExecutionFilter] = useState(searchParams.get('execution') ?? '');
+  const [analyst, setAnalyst] = useState(getAnalystName());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<ThreatAlert | null>(null);
+  const [resolveReason, setResolveReason] = useState('');
+
+  const range = TIME_RANGES[timeRange];
+  // Rounded to the minute so the query key stays stable between renders
+  const since = range?.hours
+    ? new Date(Math.floor(Date.now() / 60000) * 60000 - range.hours * 3600 * 1000).toISOString()
+    : undefined;
+
+  const { data, isLoading, error } = useAlerts({
+    status: statusFilter === 'all' ? undefined : [statusFilter],
+    severity: severityFilter === 'all' ? undefined : [severityFilter],
+    ruleId: ruleFilter === 'all' ? undefined : ruleFilter,
+    executionId: executionFilter.trim() || undefined,
+    since,
+    limit: 500,
+  });
+  const { data: rulesData } = useAlertRules();
+  const { mutate: updateAlert, isPending } = useAlertAction();
+
+  const alerts = data?.alerts ?? [];
+  const statusCounts = data?.status_counts;
+  const totalCount = statusCounts ? STATUSES.reduce((sum, status) => sum + statusCounts[status], 0) : 0;
+
+  const runAction = (alert: ThreatAlert, action: AlertAction, request: AlertActionRequest = {}, onDone?: () => void) => {
+    updateAlert({ alertId: alert.alert_id, action, request: { analyst: analyst.trim() || null, ...request } }, {
+      onSuccess: () => onDone?.(),
+      onError: (error) => {
+        toast.error(error.message, { duration: 4000 });
+      },
+    });
+  };
+
+  const handleResolve = () => {
+    if (!resolving || !resolveReason.trim()) return;
+    runAction(resolving, 'resolve', { reason: resolveReason.trim() }, () => {
+      setResolving(null);
+      setResolveReason('');
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] text-white relative overflow-hidden">
+      <AnimatedBackground />
+
+      <div className="relative z-10 max-w-[1400px] mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-6">
+            <motion.button
+              onClick={() => navigate('/dashboard')}
+              className="flex items-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.5 }}
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Dashboard
+            </motion.button>
+            <h1 className="text-xl font-medium flex items-center gap-3">
+              <Siren className="w-5 h-5 text-purple-400" />
+              Alert History
+            </h1>
+          </div>
+          <AnalystInput value={analyst} onChange={setAnalyst} />
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-1 p-1 rounded border border-purple-500/20 bg-black/30">
+            {(['all', ...STATUSES] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={cn(
+                  'px-3 py-1 rounded text-xs capitalize transition-colors',
+                  statusFilter === status ? 'bg-purple-500/20 text-purple-200' : 'text-white/50 hover:text-white/80'
+                )}
+              >
+                {status}
+                {statusCounts && (
+                  <span className="ml-1.5 font-mono text-white/40">
+                    {status === 'all' ? totalCount : statusCounts[status]}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+          <Select value={severityFilter} onValueChange={(value) => setSeverityFilter(value as AlertSeverity | 'all')}>
+            <SelectTrigger className="w-36 bg-purple-500/5 border-purple-500/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All severities</SelectItem>
+              {(Object.keys(SEVERITY_STYLES) as AlertSeverity[]).map(severity => (
+                <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={ruleFilter} onValueChange={setRuleFilter}>
+            <SelectTrigger className="w-48 bg-purple-500/5 border-purple-500/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All rules</SelectItem>
+              {(rulesData?.rules ?? []).map(rule => (
+                <SelectItem key={rule.rule_id} value={rule.rule_id}>{rule.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={timeRange} onValueChange={setTimeRange}>
+            <SelectTrigger className="w-36 bg-purple-500/5 border-purple-500/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TIME_RANGES).map(([value, option]) => (
+                <SelectItem key={value} value={value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={executionFilter}
+            onChange={(e) => setExecutionFilter(e.target.value)}
+            placeholder="Execution ID"
+            className="w-48 h-9 bg-purple-500/5 border-purple-500/20 font-mono text-xs"
+          />
+        </div>
+
+        <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+          <CardContent className="pt-6">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-white/50 text-sm">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading alerts...
+              </div>
+            )}
+            {error && (
+              <div className="text-red-400 text-sm">Failed to load alerts: {error.message}</div>
+            )}
+            {!isLoading && !error && alerts.length === 0 && (
+              <div className="text-white/50 text-sm">No alerts match these filters.</div>
+            )}
+            {alerts.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-purple-500/10">
+                    <TableHead className="w-8" />
+                    <TableHead className="text-white/50">Last seen</TableHead>
+                    <TableHead className="text-white/50">Alert</TableHead>
+                    <TableHead className="text-white/50">Group</TableHead>
+                    <TableHead className="text-right text-white/50">Seen</TableHead>
+                    <TableHead className="text-white/50">Runs</TableHead>
+                    <TableHead className="text-white/50">Status</TableHead>
+                    <TableHead className="text-right text-white/50">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {alerts.map(alert => {
+                    const isExpanded = expandedId === alert.alert_id;
+                    return (
+                      <Fragment key={alert.alert_id}>
+                        <TableRow className={cn('border-purple-500/10', isExpanded && 'bg-purple-500/5')}>
+                          <TableCell>
+                            <button
+                              onClick={() => setExpandedId(isExpanded ? null : alert.alert_id)}
+                              className="text-white/40 hover:text-white"
+                              aria-label={isExpanded ? 'Hide alert history' : 'Show alert history'}
+                            >
+                              {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                            </button>
+                          </TableCell>
+                          <TableCell className="text-white/70 text-xs whitespace-nowrap">
+                            {new Date(alert.last_seen_at).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="max-w-md">
+                            <p className="text-sm">
+                              <span className={cn('mr-2 text-[10px] uppercase font-semibold', SEVERITY_STYLES[alert.severity])}>
+                                {alert.severity}
+                              </span>
+                              {alert.title}
+                            </p>
+                            <p className="text-xs text-white/50 truncate">{alert.message}</p>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs text-white/70">{alert.group ?? '—'}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">
+                            {alert.occurrences}× <span className="text-white/40">({alert.match_count})</span>
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {alert.execution_ids.map(executionId => (
+                              <button
+                                key={executionId}
+                                onClick={() => navigate(`/dashboard?execution=${encodeURIComponent(executionId)}`)}
+                                className="block font-mono text-purple-300/80 hover:text-purple-200"
+                              >
+                                {shortId(executionId)}
+                              </button>
+                            ))}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="default" className={cn('text-xs', STATUS_STYLES[alert.status])}>
+                              {alert.status}
+                            </Badge>
+                            {alert.status === 'snoozed' && alert.snoozed_until && (
+                              <p className="text-[10px] text-white/40 mt-1">
+                                until {new Date(alert.snoozed_until).toLocaleTimeString()}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center justify-end gap-1">
+                              {(alert.status === 'open' || alert.status === 'snoozed') && (
+                                <Button variant="ghost" size="sm" disabled={isPending} onClick={() => runAction(alert, 'acknowledge')} title="Acknowledge">
+                                  <Check className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {alert.status !== 'resolved' && (
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button variant="ghost" size="sm" disabled={isPending} title="Snooze">
+                                      <Clock className="h-4 w-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end" className="bg-[#0f0f14] border-purple-500/20 text-white">
+                                    {SNOOZE_OPTIONS.map(option => (
+                                      <DropdownMenuItem key={option.minutes} onClick={() => runAction(alert, 'snooze', { minutes: option.minutes })}>
+                                        {option.label}
+                                      </DropdownMenuItem>
+                                    ))}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              )}
+                              {alert.status !== 'resolved' && (
+                                <Button variant="ghost" size="sm" disabled={isPending} onClick={() => setResolving(alert)} title="Resolve">
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {alert.status !== 'open' && (
+                                <Button variant="ghost" size="sm" disabled={isPending} onClick={() => runAction(alert, 'reopen')} title="Reopen">
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow className="border-purple-500/10 bg-purple-500/5">
+                            <TableCell />
+                            <TableCell colSpan={7} className="text-xs space-y-2">
+                              <div className="grid grid-cols-3 gap-4 text-white/60">
+                                <p>First raised: {new Date(alert.created_at).toLocaleString()}</p>
+                                <p>Rule: {alert.rule_name} ({alert.rule_type})</p>
+                                {alert.details && <p className="font-mono truncate" title={alert.details}>Query: {alert.details}</p>}
+                              </div>
+                              {alert.sample_ids.length > 0 && (
+                                <p className="text-white/40 font-mono break-all">Sample records: {alert.sample_ids.join(', ')}</p>
+                              )}
+                              <ol className="space-y-1 border-l border-purple-500/20 pl-3">
+                                {alert.history.map((entry, index) => (
+                                  <li key={index} className="text-white/70">
+                                    <span className="text-white/40 font-mono mr-2">{new Date(entry.at).toLocaleString()}</span>
+                                    {describeEntry(entry)}
+                                    {entry.analyst && <span className="text-white/40"> · {entry.analyst}</span>}
+                                    {entry.action !== 'resolve' && entry.reason && <span className="text-white/40"> · {entry.reason}</span>}
+                                  </li>
+                                ))}
+                              </ol>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Resolve reason */}
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent className="bg-[#0f0f14] border-purple-500/20 text-white">
+          <DialogHeader>
+            <DialogTitle>Resolve alert</DialogTitle>
+            <DialogDescription className="text-white/50">
+              {resolving?.title} - {resolving?.message}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={resolveReason}
+            onChange={(e) => setResolveReason(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleResolve()}
+            placeholder="Reason, e.g. known vulnerability scanner"
+            className="bg-black/50 border-purple-500/20"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setResolving(null)}>Cancel</Button>
+            <Button size="sm" onClick={handleResolve} disabled={!resolveReason.trim() || isPending}>
+              Resolve
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AlertHistory;
@@ -0,0 +1,426 @@
+/**
+ * Alert Rules Dialog - create, edit, enable and preview the rules the
+ * backend evaluates against every batch (see backend/lib/alertRules.js)
+ */
+
+import { useState } from 'react';
+import { Pencil, Play, Plus, ShieldAlert, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAlertRules, useSaveAlertRule, useDeleteAlertRule, usePreviewAlertRule } from '../hooks/useThreatAnalysis';
+import type { AlertRule, AlertRuleInput, AlertRuleType, AlertSeverity, ThreatAlert } from '../types/threat-analysis';
+import { cn } from '@/lib/utils';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+const TYPE_LABELS: Record<AlertRuleType, string> = {
+  conditions: 'Conditions',
+  threshold: 'Threshold',
+  conflict: 'Consensus conflict',
+};
+
+const TYPE_HINTS: Record<AlertRuleType, string> = {
+  conditions: 'Fires when any result in a batch matches the query',
+  threshold: 'Fires when more than N results match, per group if one is chosen',
+  conflict: 'Fires when the AI verdicts disagree (optionally narrowed by the query)',
+};
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  critical: 'text-red-400 border-red-500/30',
+  high: 'text-orange-400 border-orange-500/30',
+  medium: 'text-yellow-400 border-yellow-500/30',
+  low: 'text-purple-300 border-purple-500/30',
+};
+
+// Query aliases worth grouping on (see backend/lib/threatQuery.js)
+const GROUP_FIELDS = ['src_ip', 'dst_ip', 'attack_type', 'signature', 'protocol', 'segment', 'user', 'device'];
+const IP_GROUP_FIELDS = ['src_ip', 'dst_ip'];
+const PREFIXES = [32, 24, 16, 8];
+
+const EMPTY_RULE: AlertRuleInput = {
+  name: '',
+  description: '',
+  enabled: true,
+  type: 'conditions',
+  severity: 'high',
+  query: '',
+  threshold: 20,
+  window: 'batch',
+  group_by: null,
+  prefix: null,
+  suppress_minutes: 60,
+};
+
+function toInput(rule: AlertRule): AlertRuleInput {
+  return {
+    name: rule.name,
+    description: rule.description,
+    enabled: rule.enabled,
+    type: rule.type,
+    severity: rule.severity,
+    query: rule.query,
+    threshold: rule.type === 'threshold' ? rule.threshold : EMPTY_RULE.threshold,
+    window: rule.window,
+    group_by: rule.group_by,
+    prefix: rule.prefix,
+    suppress_minutes: rule.suppress_minutes,
+  };
+}
+
+function describeRule(rule: AlertRule): string {
+  const group = rule.group_by ? ` per ${rule.group_by}${rule.prefix ? `/${rule.prefix}` : ''}` : '';
+  const query = rule.query ? ` where ${rule.query}` : '';
+  if (rule.type === 'threshold') {
+    return `> ${rule.threshold} results${group} in a ${rule.window === 'execution' ? 'run' : 'batch'}${query}`;
+  }
+  if (rule.type === 'conflict') return `Conflicting AI verdicts${group}${query}`;
+  return `Any result${group}${query}`;
+}
+
+// Only the fields that apply to the rule's type are sent
+function toRequest(form: AlertRuleInput): AlertRuleInput {
+  const isIpGroup = !!form.group_by && IP_GROUP_FIELDS.includes(form.group_by);
+  return {
+    name: form.name,
+    description: form.description,
+    enabled: form.enabled,
+    type: form.type,
+    severity: form.severity,
+    query: form.query,
+    group_by: form.group_by || null,
+    prefix: isIpGroup ? form.prefix : null,
+    suppress_minutes: form.suppress_minutes,
+    ...(form.type === 'threshold' && { threshold: form.threshold, window: form.window }),
+  };
+}
+
+interface AlertRulesDialogProps {
+  executionId: string | null;
+}
+
+const AlertRulesDialog = ({ executionId }: AlertRulesDialogProps) => {
+  const { data } = useAlertRules();
+  const saveRule = useSaveAlertRule();
+  const deleteRule = useDeleteAlertRule();
+  const previewRule = usePreviewAlertRule();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AlertRuleInput>(EMPTY_RULE);
+  const [preview, setPreview] = useState<ThreatAlert[] | null>(null);
+  const rules = data?.rules ?? [];
+  const enabledCount = rules.filter(rule => rule.enabled).length;
+
+  const update = (changes: Partial<AlertRuleInput>) => {
+    setForm(current => ({ ...current, ...changes }));
+    setPreview(null);
+  };
+
+  const startNew = () => {
+    setEditingId(null);
+    setForm(EMPTY_RULE);
+    setPreview(null);
+  };
+
+  const startEdit = (rule: AlertRule) => {
+    setEditingId(rule.rule_id);
+    setForm(toInput(rule));
+    setPreview(null);
+  };
+
+  const handleSave = () => {
+    saveRule.mutate({ rule: toRequest(form), ruleId: editingId ?? undefined }, {
+      onSuccess: (rule) => {
+        toast.success(`Rule "${rule.name}" saved`, { duration: 3000 });
+        startNew();
+      },
+      onError: (error) => {
+        toast.error(error.message, { duration: 4000 });
+      },
+    });
+  };
+
+  const handleToggle = (rule: AlertRule) => {
+    saveRule.mutate({ rule: { ...toRequest(toInput(rule)), enabled: !rule.enabled }, ruleId: rule.rule_id }, {
+      onError: (error) => {
+        toast.error(error.message, { duration: 4000 });
+      },
+    });
+  };
+
+  const handleDelete = (rule: AlertRule) => {
+    deleteRule.mutate(rule.rule_id, {
+      onSuccess: () => {
+        if (editingId === rule.rule_id) startNew();
+      },
+      onError: (error) => {
+        toast.error(error.message, { duration: 4000 });
+      },
+    });
+  };
+
+  const handlePreview = () => {
+    if (!executionId) return;
+    previewRule.mutate({ rule: toRequest(form), executionId }, {
+      onSuccess: (result) => setPreview(result.alerts),
+      onError: (error) => {
+        toast.error(error.message, { duration: 4000 });
+      },
+    });
+  };
+
+  const isIpGroup = !!form.group_by && IP_GROUP_FIELDS.includes(form.group_by);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          className="flex items-center gap-2 px-3 py-1.5 bg-purple-500/10 border border-purple-500/20 rounded text-xs font-medium text-purple-300/90 hover:border-purple-500/40 transition-colors"
+          title={`${enabledCount} of ${rules.length} alert rules enabled`}
+        >
+          <ShieldAlert className="w-3.5 h-3.5" />
+          Rules
+          {enabledCount > 0 && <span className="text-white/40">{enabledCount}</span>}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto bg-[#0f0f14] border-purple-500/20 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-purple-400" />
+            Alert Rules
+          </DialogTitle>
+          <DialogDescription className="text-white/50">
+            Evaluated against every batch as it arrives - matches raise alerts on the dashboard
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Existing rules */}
+        <div className="space-y-2">
+          {rules.length === 0 && (
+            <p className="text-sm text-white/40">No rules yet - create one below</p>
+          )}
+          {rules.map(rule => (
+            <div
+              key={rule.rule_id}
+              className={cn(
+                'flex items-center justify-between gap-3 px-3 py-2 rounded border border-purple-500/10 bg-black/30',
+                editingId === rule.rule_id && 'border-purple-500/40',
+                !rule.enabled && 'opacity-50'
+              )}
+            >
+              <div className="min-w-0">
+                <p className="flex items-center gap-2 text-sm text-white/90">
+                  <span className="truncate">{rule.name}</span>
+                  <span className={cn('px-1.5 rounded border text-[10px] uppercase', SEVERITY_STYLES[rule.severity])}>{rule.severity}</span>
+                </p>
+                <p className="text-xs text-white/40 font-mono truncate">{describeRule(rule)}</p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <label className="flex items-center gap-1 text-xs text-white/50 mr-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => handleToggle(rule)}
+                    className="accent-purple-500"
+                  />
+                  On
+                </label>
+                <button
+                  onClick={() => startEdit(rule)}
+                  className="p-1 rounded text-white/40 hover:text-purple-300 hover:bg-purple-500/10 transition-colors"
+                  title="Edit rule"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  disabled={deleteRule.isPending}
+                  className="p-1 rounded text-white/40 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-40"
+                  title="Delete rule"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Editor */}
+        <div className="space-y-4 pt-4 border-t border-purple-500/10">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-white/80">{editingId ? 'Edit rule' : 'New rule'}</h3>
+            {editingId && (
+              <Button variant="ghost" size="sm" onClick={startNew}>
+                <Plus className="w-3.5 h-3.5 mr-1" />
+                New
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className="text-xs font-medium mb-1 block text-white/60">Name</label>
+              <Input
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="HIGH burst from one /24"
+                className="bg-black/50 border-purple-500/20"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium mb-1 block text-white/60">Type</label>
+              <Select value={form.type} onValueChange={(value) => update({ type: value as AlertRuleType })}>
+                <SelectTrigger className="bg-black/50 border-purple-500/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TYPE_LABELS) as AlertRuleType[]).map(type => (
+                    <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs font-medium mb-1 block text-white/60">Severity</label>
+              <Select value={form.severity} onValueChange={(value) => update({ severity: value as AlertSeverity })}>
+                <SelectTrigger className="bg-black/50 border-purple-500/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SEVERITY_STYLES) as AlertSeverity[]).map(severity => (
+                    <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="col-span-2 text-xs text-white/40">{TYPE_HINTS[form.type]}</p>
+            <div className="col-span-2">
+              <label className="text-xs font-medium mb-1 block text-white/60">
+                Query {form.type !== 'conditions' && <span className="text-white/30">(optional)</span>}
+              </label>
+              <Input
+                value={form.query}
+                onChange={(e) => update({ query: e.target.value })}
+                placeholder="priority:HIGH AND attack_type:DDoS"
+                className="bg-black/50 border-purple-500/20 font-mono"
+              />
+            </div>
+            {form.type === 'threshold' && (
+              <>
+                <div>
+                  <label className="text-xs font-medium mb-1 block text-white/60">More than</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={form.threshold}
+                    onChange={(e) => update({ threshold: Number(e.target.value) })}
+                    className="bg-black/50 border-purple-500/20"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-medium mb-1 block text-white/60">Window</label>
+                  <Select value={form.window} onValueChange={(value) => update({ window: value as AlertRuleInput['window'] })}>
+                    <SelectTrigger className="bg-black/50 border-purple-500/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="batch">Per batch</SelectItem>
+                      <SelectItem value="execution">Whole run</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            <div>
+              <label className="text-xs font-medium mb-1 block text-white/60">Group by</label>
+              <Select
+                value={form.group_by || 'none'}
+                onValueChange={(value) => update({ group_by: value === 'none' ? null : value, prefix: IP_GROUP_FIELDS.includes(value) ? 24 : null })}
+              >
+                <SelectTrigger className="bg-black/50 border-purple-500/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nothing</SelectItem>
+                  {GROUP_FIELDS.map(field => (
+                    <SelectItem key={field} value={field}>{field}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs font-medium mb-1 block text-white/60" title="Repeats of an unresolved alert within this window fold into it">
+                Suppress repeats (minutes)
+              </label>
+              <Input
+                type="number"
+                min={0}
+                value={form.suppress_minutes}
+                onChange={(e) => update({ suppress_minutes: Number(e.target.value) })}
+                className="bg-black/50 border-purple-500/20"
+              />
+            </div>
+            {isIpGroup && (
+              <div>
+                <label className="text-xs font-medium mb-1 block text-white/60">Network</label>
+                <Select value={String(form.prefix ?? 32)} onValueChange={(value) => update({ prefix: Number(value) })}>
+                  <SelectTrigger className="bg-black/50 border-purple-500/20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PREFIXES.map(prefix => (
+                      <SelectItem key={prefix} value={String(prefix)}>{prefix === 32 ? 'Single address' : `/${prefix}`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handlePreview}
+              disabled={!executionId || previewRule.isPending}
+              title={executionId ? 'Replay the current run through this rule' : 'Select a run to preview against'}
+            >
+              <Play className="w-3.5 h-3.5 mr-1" />
+              Preview
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!form.name.trim() || saveRule.isPending}>
+              {editingId ? 'Save changes' : 'Create rule'}
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="rounded border border-purple-500/10 bg-black/30 p-3 text-xs">
+              <p className="text-white/60 mb-1">
+                {preview.length === 0
+                  ? 'This rule would not have fired on the current run'
+                  : `Would have raised ${preview.length} alert${preview.length === 1 ? '' : 's'} on the current run`}
+              </p>
+              {preview.slice(0, 8).map(alert => (
+                <p key={alert.alert_id} className="text-white/40 font-mono truncate">{alert.message}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlertRulesDialog;
@@ -0,0 +1,34 @@
+/**
+ * Analyst Input - the name stamped on alert and case changes
+ * Remembered per browser (see lib/analyst.ts)
+ */
+
+import { setAnalystName } from '@/lib/analyst';
+import { Input } from './ui/input';
+
+interface AnalystInputProps {
+  value: string;
+  onChange: (name: string) => void;
+}
+
+const AnalystInput = ({ value, onChange }: AnalystInputProps) => {
+  const handleChange = (name: string) => {
+    onChange(name);
+    setAnalystName(name);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <label className="text-xs text-white/50" htmlFor="analyst-name">Analyst</label>
+      <Input
+        id="analyst-name"
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder="Your name"
+        className="w-40 h-8 bg-black/50 border-purple-500/20"
+      />
+    </div>
+  );
+};
+
+export default AnalystInput;
@@ -0,0 +1,103 @@
+/**
+ * Case Actions - open a case from a result, or add it to an open case
+ * Shown in EliteTable's expanded row; cases are managed on /cases
+ */
+
+import { useNavigate } from 'react-router-dom';
+import { FolderPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getAnalystName } from '@/lib/analyst';
+import { CASE_PRIORITY_STYLES } from '@/lib/cases';
+import { cn } from '@/lib/utils';
+import { useCases, useCreateCase, useAttachCaseEvents } from '../hooks/useThreatAnalysis';
+import type { CaseEventSelector, CaseStatus, ThreatData } from '../types/threat-analysis';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+interface CaseActionsProps {
+  result: ThreatData;
+  executionId: string;
+}
+
+const OPEN_CASE_STATUSES: CaseStatus[] = ['new', 'investigating', 'contained'];
+
+const CaseActions = ({ result, executionId }: CaseActionsProps) => {
+  const navigate = useNavigate();
+  const { data } = useCases({ status: OPEN_CASE_STATUSES, limit: 8 });
+  const { mutate: createCase, isPending: isCreating } = useCreateCase();
+  const { mutate: attachEvents, isPending: isAttaching } = useAttachCaseEvents();
+  const sourceIp = result['Source IP Address'];
+  const uniqueId = result._unique_id;
+
+  const onError = (error: Error) => {
+    toast.error(error.message, { duration: 4000 });
+  };
+
+  const openCase = (selector: CaseEventSelector) => {
+    createCase({ ...selector, analyst: getAnalystName() || null }, {
+      onSuccess: (record) => {
+        toast.success(`Case opened: ${record.title}`, { duration: 3000 });
+        navigate(`/cases/${encodeURIComponent(record.case_id)}`);
+      },
+      onError,
+    });
+  };
+
+  const addToCase = (caseId: string, title: string) => {
+    if (!uniqueId) return;
+    attachEvents({ caseId, selector: { execution_id: executionId, unique_ids: [uniqueId] }, analyst: getAnalystName() || null }, {
+      onSuccess: (record) => {
+        toast.success(record.attached > 0 ? `Added to ${title}` : `Already on ${title}`, { duration: 3000 });
+      },
+      onError,
+    });
+  };
+
+  const cases = data?.cases ?? [];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          disabled={isCreating || isAttaching}
+          className="flex items-center gap-1.5 px-2 py-1 rounded border border-purple-500/20 text-purple-300/90 hover:border-purple-500/40 transition-colors disabled:opacity-40"
+        >
+          <FolderPlus className="w-3.5 h-3.5" />
+          Case
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-72 bg-[#0f0f14] border-purple-500/20 text-white">
+        {uniqueId && (
+          <DropdownMenuItem onClick={() => openCase({ execution_id: executionId, unique_ids: [uniqueId] })}>
+            Open a case for this event
+          </DropdownMenuItem>
+        )}
+        {sourceIp && (
+          <DropdownMenuItem onClick={() => openCase({ execution_id: executionId, src_ip: sourceIp })}>
+            Open a case for every event from <span className="font-mono ml-1">{sourceIp}</span>
+          </DropdownMenuItem>
+        )}
+        {uniqueId && cases.length > 0 && (
+          <>
+            <DropdownMenuSeparator className="bg-purple-500/10" />
+            <DropdownMenuLabel className="text-xs text-white/50 uppercase tracking-wider">Add to an open case</DropdownMenuLabel>
+            {cases.map(record => (
+              <DropdownMenuItem key={record.case_id} onClick={() => addToCase(record.case_id, record.title)}>
+                <span className={cn('mr-2 text-[10px] font-semibold', CASE_PRIORITY_STYLES[record.priority])}>{record.priority}</span>
+                <span className="truncate">{record.title}</span>
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default CaseActions;
@@ -0,0 +1,388 @@
+/**
+ * Case Detail
+ * A case's status, priority and assignee, the results attached to it and
+ * its timeline of notes, attachments and changes
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, FolderOpen, Loader2, Paperclip, UserCheck, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { getAnalystName } from '@/lib/analyst';
+import {
+  CASE_PRIORITIES,
+  CASE_PRIORITY_STYLES,
+  CASE_STATUSES,
+  CASE_STATUS_STYLES,
+  shortExecutionId,
+} from '@/lib/cases';
+import AnimatedBackground from './AnimatedBackground';
+import AnalystInput from './AnalystInput';
+import {
+  useCase,
+  useUpdateCase,
+  useAddCaseNote,
+  useAttachCaseEvents,
+  useDetachCaseEvent,
+} from '../hooks/useThreatAnalysis';
+import type { CaseEventSelector, CasePriority, CaseStatus, CaseTimelineEntry, CaseUpdateRequest } from '../types/threat-analysis';
+
+type AttachMode = 'src_ip' | 'unique_ids';
+
+const describeEntry = (entry: CaseTimelineEntry): string => {
+  const count = entry.event_ids?.length ?? 0;
+  switch (entry.type) {
+    case 'created':
+      return 'Opened the case';
+    case 'note':
+      return 'Note';
+    case 'attached':
+      return entry.src_ip
+        ? `Attached ${count} events from ${entry.src_ip} (run ${shortExecutionId(entry.execution_id ?? '')})`
+        : `Attached ${count === 1 ? entry.event_ids![0] : `${count} events`} (run ${shortExecutionId(entry.execution_id ?? '')})`;
+    case 'detached':
+      return `Detached ${entry.event_ids?.join(', ')}`;
+    case 'assignee':
+      return entry.to ? `Assigned to ${entry.to}` : 'Unassigned';
+    default:
+      return `Changed ${entry.type}: ${entry.from ?? '—'} → ${entry.to ?? '—'}`;
+  }
+};
+
+const CaseDetail = () => {
+  const navigate = useNavigate();
+  const { caseId } = useParams<{ caseId: string }>();
+  const [analyst, setAnalyst] = useState(getAnalystName());
+  const [assigneeDraft, setAssigneeDraft] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [attachMode, setAttachMode] = useState<AttachMode>('src_ip');
+  const [attachExecution, setAttachExecution] = useState('');
+  const [attachValue, setAttachValue] = useState('');
+
+  const { data: record, isLoading, error } = useCase(caseId);
+  const { mutate: updateCase, isPending: isUpdating } = useUpdateCase();
+  const { mutate: addNote, isPending: isAddingNote } = useAddCaseNote();
+  const { mutate: attachEvents, isPending: isAttaching } = useAttachCaseEvents();
+  const { mutate: detachEvent } = useDetachCaseEvent();
+
+  const analystName = analyst.trim() || null;
+  const onError = (error: Error) => {
+    toast.error(error.message, { duration: 4000 });
+  };
+
+  const update = (request: CaseUpdateRequest, onDone?: () => void) => {
+    if (!record) return;
+    updateCase({ caseId: record.case_id, request: { ...request, analyst: analystName } }, {
+      onSuccess: () => onDone?.(),
+      onError,
+    });
+  };
+
+  const handleAddNote = () => {
+    if (!record || !note.trim()) return;
+    addNote({ caseId: record.case_id, text: note.trim(), analyst: analystName }, {
+      onSuccess: () => setNote(''),
+      onError,
+    });
+  };
+
+  const latestExecution = record?.events[record.events.length - 1]?.execution_id ?? '';
+  const handleAttach = () => {
+    const executionId = attachExecution.trim() || latestExecution;
+    if (!record || !executionId || !attachValue.trim()) return;
+    const selector: CaseEventSelector = attachMode === 'src_ip'
+      ? { execution_id: executionId, src_ip: attachValue.trim() }
+      : { execution_id: executionId, unique_ids: attachValue.split(',').map(id => id.trim()).filter(Boolean) };
+
+    attachEvents({ caseId: record.case_id, selector, analyst: analystName }, {
+      onSuccess: (updated) => {
+        toast.success(updated.attached > 0 ? `Attached ${updated.attached} events` : 'Those events are already on the case', { duration: 3000 });
+        setAttachValue('');
+      },
+      onError,
+    });
+  };
+
+  const assignee = assigneeDraft ?? record?.assignee ?? '';
+  const saveAssignee = (name: string | null) => {
+    update({ assignee: name }, () => setAssigneeDraft(null));
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] text-white relative overflow-hidden">
+      <AnimatedBackground />
+
+      <div className="relative z-10 max-w-[1400px] mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-6 min-w-0">
+            <motion.button
+              onClick={() => navigate('/cases')}
+              className="flex items-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.5 }}
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Cases
+            </motion.button>
+            <h1 className="text-xl font-medium flex items-center gap-3 min-w-0">
+              <FolderOpen className="w-5 h-5 text-purple-400 shrink-0" />
+              <span className="truncate">{record?.title ?? 'Case'}</span>
+              {record && (
+                <Badge variant="default" className={cn('text-xs', CASE_STATUS_STYLES[record.status])}>
+                  {record.status}
+                </Badge>
+              )}
+            </h1>
+          </div>
+          <AnalystInput value={analyst} onChange={setAnalyst} />
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-white/50 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading case...
+          </div>
+        )}
+        {error && (
+          <div className="text-red-400 text-sm">Failed to load case: {error.message}</div>
+        )}
+
+        {record && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Attached results */}
+              <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+                <CardHeader>
+                  <CardTitle className="text-sm font-medium text-white/80">
+                    Events <span className="text-white/40 font-mono">{record.events.length}</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {record.events.length === 0 && (
+                    <div className="text-white/50 text-sm">Every event has been detached from this case.</div>
+                  )}
+                  {record.events.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="border-purple-500/10">
+                          <TableHead className="text-white/50">Time</TableHead>
+                          <TableHead className="text-white/50">Source → Destination</TableHead>
+                          <TableHead className="text-white/50">Attack</TableHead>
+                          <TableHead className="text-white/50">Priority</TableHead>
+                          <TableHead className="text-right text-white/50">Risk</TableHead>
+                          <TableHead className="text-white/50">Run</TableHead>
+                          <TableHead className="w-8" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {record.events.map(event => (
+                          <TableRow key={`${event.execution_id}/${event.event_id}`} className="border-purple-500/10">
+                            <TableCell className="text-white/70 text-xs whitespace-nowrap">
+                              {event.timestamp ?? '—'}
+                              <p className="text-[10px] text-white/30 font-mono">{event.event_id}</p>
+                            </TableCell>
+                            <TableCell className="font-mono text-xs text-white/70 whitespace-nowrap">
+                              {event.src_ip ?? '?'} → {event.dst_ip ?? '?'}
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              {event.attack_type ?? '—'}
+                              {event.result === null && (
+                                <p className="text-[10px] text-yellow-300/70">Result no longer stored</p>
+                              )}
+                              {event.consensus_classification && (
+                                <p className="text-[10px] text-white/40">{event.consensus_classification}</p>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs">{event.escalation_priority ?? '—'}</TableCell>
+                            <TableCell className="text-right font-mono text-xs">
+                              {event.final_risk_score != null ? Number(event.final_risk_score).toFixed(1) : '—'}
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              <button
+                                onClick={() => navigate(`/dashboard?execution=${encodeURIComponent(event.execution_id)}`)}
+                                className="font-mono text-purple-300/80 hover:text-purple-200"
+                              >
+                                {shortExecutionId(event.execution_id)}
+                              </button>
+                            </TableCell>
+                            <TableCell>
+                              <button
+                                onClick={() => detachEvent(
+                                  { caseId: record.case_id, executionId: event.execution_id, eventId: event.event_id, analyst: analystName },
+                                  { onError }
+                                )}
+                                className="text-white/30 hover:text-red-400"
+                                title="Detach from case"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  {record.status !== 'closed' && (
+                    <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-purple-500/10">
+                      <Paperclip className="w-4 h-4 text-white/40" />
+                      <Input
+                        value={attachExecution}
+                        onChange={(e) => setAttachExecution(e.target.value)}
+                        placeholder={latestExecution || 'Execution ID'}
+                        className="w-44 h-8 bg-black/50 border-purple-500/20 font-mono text-xs"
+                      />
+                      <Select value={attachMode} onValueChange={(value) => setAttachMode(value as AttachMode)}>
+                        <SelectTrigger className="w-36 h-8 bg-purple-500/5 border-purple-500/20 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="src_ip">By source IP</SelectItem>
+                          <SelectItem value="unique_ids">By event ID</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={attachValue}
+                        onChange={(e) => setAttachValue(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAttach()}
+                        placeholder={attachMode === 'src_ip' ? '10.0.5.77' : 'item_75_…, item_76_…'}
+                        className="flex-1 min-w-40 h-8 bg-black/50 border-purple-500/20 font-mono text-xs"
+                      />
+                      <Button size="sm" onClick={handleAttach} disabled={!attachValue.trim() || isAttaching}>
+                        Attach
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Timeline */}
+              <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+                <CardHeader>
+                  <CardTitle className="text-sm font-medium text-white/80">Timeline</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ol className="space-y-2 border-l border-purple-500/20 pl-3 text-xs">
+                    {record.timeline.map(entry => (
+                      <li key={entry.entry_id} className="text-white/70">
+                        <span className="text-white/40 font-mono mr-2">{new Date(entry.at).toLocaleString()}</span>
+                        {describeEntry(entry)}
+                        {entry.analyst && <span className="text-white/40"> · {entry.analyst}</span>}
+                        {entry.type === 'note' && (
+                          <p className="mt-1 p-2 rounded bg-black/30 border border-purple-500/10 text-white/80 whitespace-pre-wrap">
+                            {entry.text}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  <div className="space-y-2">
+                    <textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="Add a note - findings, containment steps, hand-over..."
+                      rows={3}
+                      className="w-full rounded-md border border-purple-500/20 bg-black/50 px-3 py-2 text-sm text-white placeholder:text-white/30 focus:outline-none focus:border-purple-500/50"
+                    />
+                    <div className="flex justify-end">
+                      <Button size="sm" onClick={handleAddNote} disabled={!note.trim() || isAddingNote}>
+                        Add note
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Triage */}
+            <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm h-fit">
+              <CardHeader>
+                <CardTitle className="text-sm font-medium text-white/80">Triage</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                <div className="space-y-1">
+                  <label className="text-xs text-white/50">Status</label>
+                  <Select value={record.status} onValueChange={(value) => update({ status: value as CaseStatus })} disabled={isUpdating}>
+                    <SelectTrigger className="bg-purple-500/5 border-purple-500/20 capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CASE_STATUSES.map(status => (
+                        <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-white/50">Priority</label>
+                  <Select value={record.priority} onValueChange={(value) => update({ priority: value as CasePriority })} disabled={isUpdating}>
+                    <SelectTrigger className={cn('bg-purple-500/5 border-purple-500/20', CASE_PRIORITY_STYLES[record.priority])}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CASE_PRIORITIES.map(priority => (
+                        <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-white/50" htmlFor="case-assignee">Assignee</label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="case-assignee"
+                      value={assignee}
+                      onChange={(e) => setAssigneeDraft(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && saveAssignee(assignee.trim() || null)}
+                      onBlur={() => assigneeDraft !== null && saveAssignee(assignee.trim() || null)}
+                      placeholder="Unassigned"
+                      className="h-9 bg-black/50 border-purple-500/20"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!analystName || record.assignee === analystName || isUpdating}
+                      onClick={() => saveAssignee(analystName)}
+                      title="Assign to me"
+                    >
+                      <UserCheck className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="pt-2 border-t border-purple-500/10 text-xs text-white/50 space-y-1">
+                  <p>Opened {new Date(record.created_at).toLocaleString()}{record.created_by && ` by ${record.created_by}`}</p>
+                  <p>Updated {new Date(record.updated_at).toLocaleString()}</p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaseDetail;
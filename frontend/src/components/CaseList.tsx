@@ -0,0 +1,216 @@
+/**
+ * Case List
+ * Analyst cases with status / priority / assignee / source IP filters;
+ * open a case for its timeline and attached results
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, FolderOpen, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { getAnalystName } from '@/lib/analyst';
+import { CASE_PRIORITIES, CASE_PRIORITY_STYLES, CASE_STATUSES, CASE_STATUS_STYLES } from '@/lib/cases';
+import AnimatedBackground from './AnimatedBackground';
+import AnalystInput from './AnalystInput';
+import { useCases } from '../hooks/useThreatAnalysis';
+import type { CasePriority, CaseStatus } from '../types/threat-analysis';
+
+type AssigneeFilter = 'anyone' | 'me' | 'none';
+
+const CaseList = () => {
+  const navigate = useNavigate();
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | 'open' | 'all'>('open');
+  const [priorityFilter, setPriorityFilter] = useState<CasePriority | 'all'>('all');
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>('anyone');
+  const [sourceFilter, setSourceFilter] = useState('');
+  const [analyst, setAnalyst] = useState(getAnalystName());
+
+  const assignee = assigneeFilter === 'none' ? 'none' : assigneeFilter === 'me' ? analyst.trim() || undefined : undefined;
+  const { data, isLoading, error } = useCases({
+    status: statusFilter === 'all'
+      ? undefined
+      : statusFilter === 'open' ? CASE_STATUSES.filter(status => status !== 'closed') : [statusFilter],
+    priority: priorityFilter === 'all' ? undefined : [priorityFilter],
+    assignee,
+    srcIp: sourceFilter.trim() || undefined,
+    limit: 500,
+  });
+
+  const cases = data?.cases ?? [];
+  const statusCounts = data?.status_counts;
+  const countOf = (status: CaseStatus | 'open' | 'all'): number => {
+    if (!statusCounts) return 0;
+    if (status === 'all') return CASE_STATUSES.reduce((sum, value) => sum + statusCounts[value], 0);
+    if (status === 'open') return CASE_STATUSES.reduce((sum, value) => sum + (value === 'closed' ? 0 : statusCounts[value]), 0);
+    return statusCounts[status];
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] text-white relative overflow-hidden">
+      <AnimatedBackground />
+
+      <div className="relative z-10 max-w-[1400px] mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-6">
+            <motion.button
+              onClick={() => navigate('/dashboard')}
+              className="flex items-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.5 }}
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Dashboard
+            </motion.button>
+            <h1 className="text-xl font-medium flex items-center gap-3">
+              <FolderOpen className="w-5 h-5 text-purple-400" />
+              Cases
+            </h1>
+          </div>
+          <AnalystInput value={analyst} onChange={setAnalyst} />
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-1 p-1 rounded border border-purple-500/20 bg-black/30">
+            {(['open', ...CASE_STATUSES, 'all'] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={cn(
+                  'px-3 py-1 rounded text-xs capitalize transition-colors',
+                  statusFilter === status ? 'bg-purple-500/20 text-purple-200' : 'text-white/50 hover:text-white/80'
+                )}
+              >
+                {status}
+                {statusCounts && <span className="ml-1.5 font-mono text-white/40">{countOf(status)}</span>}
+              </button>
+            ))}
+          </div>
+          <Select value={priorityFilter} onValueChange={(value) => setPriorityFilter(value as CasePriority | 'all')}>
+            <SelectTrigger className="w-36 bg-purple-500/5 border-purple-500/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All priorities</SelectItem>
+              {CASE_PRIORITIES.map(priority => (
+                <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={assigneeFilter} onValueChange={(value) => setAssigneeFilter(value as AssigneeFilter)}>
+            <SelectTrigger className="w-40 bg-purple-500/5 border-purple-500/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="anyone">Any assignee</SelectItem>
+              <SelectItem value="me" disabled={!analyst.trim()}>Assigned to me</SelectItem>
+              <SelectItem value="none">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={sourceFilter}
+            onChange={(e) => setSourceFilter(e.target.value)}
+            placeholder="Source IP"
+            className="w-40 h-9 bg-purple-500/5 border-purple-500/20 font-mono text-xs"
+          />
+        </div>
+
+        <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+          <CardContent className="pt-6">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-white/50 text-sm">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading cases...
+              </div>
+            )}
+            {error && (
+              <div className="text-red-400 text-sm">Failed to load cases: {error.message}</div>
+            )}
+            {!isLoading && !error && cases.length === 0 && (
+              <div className="text-white/50 text-sm">
+                No cases match these filters. Open one from an expanded row of the dashboard's results table.
+              </div>
+            )}
+            {cases.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-purple-500/10">
+                    <TableHead className="text-white/50">Updated</TableHead>
+                    <TableHead className="text-white/50">Case</TableHead>
+                    <TableHead className="text-white/50">Priority</TableHead>
+                    <TableHead className="text-white/50">Sources</TableHead>
+                    <TableHead className="text-right text-white/50">Events</TableHead>
+                    <TableHead className="text-white/50">Assignee</TableHead>
+                    <TableHead className="text-white/50">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cases.map(record => (
+                    <TableRow
+                      key={record.case_id}
+                      onClick={() => navigate(`/cases/${encodeURIComponent(record.case_id)}`)}
+                      className="border-purple-500/10 cursor-pointer hover:bg-purple-500/5"
+                    >
+                      <TableCell className="text-white/70 text-xs whitespace-nowrap">
+                        {new Date(record.updated_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="max-w-md">
+                        <p className="text-sm truncate">{record.title}</p>
+                        <p className="text-xs text-white/50 truncate">
+                          {record.attack_types.join(', ') || 'No attack type'}
+                          {record.note_count > 0 && <span className="text-white/40"> · {record.note_count} notes</span>}
+                        </p>
+                      </TableCell>
+                      <TableCell className={cn('text-xs font-semibold', CASE_PRIORITY_STYLES[record.priority])}>
+                        {record.priority}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-white/70">
+                        {record.source_ips.slice(0, 3).join(', ')}
+                        {record.source_ips.length > 3 && <span className="text-white/40"> +{record.source_ips.length - 3}</span>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {record.event_count}
+                        {record.execution_ids.length > 1 && (
+                          <span className="text-white/40"> ({record.execution_ids.length} runs)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-white/70">{record.assignee ?? <span className="text-white/30">—</span>}</TableCell>
+                      <TableCell>
+                        <Badge variant="default" className={cn('text-xs', CASE_STATUS_STYLES[record.status])}>
+                          {record.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CaseList;
@@ -0,0 +1,290 @@
+/**
+ * Detection Quality
+ * Scores the Dual-AI consensus against analyst verdicts: precision, recall,
+ * F1 and a confusion matrix, broken down by attack type, enrichment method
+ * and pre-filter score band, and tracked run by run against the accuracy
+ * claimed in n8n/UPGRADE_SUMMARY.txt
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, Target } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { shortExecutionId } from '@/lib/cases';
+import AnimatedBackground from './AnimatedBackground';
+import { useAllExecutions, useDetectionMetrics } from '../hooks/useThreatAnalysis';
+import type { AiPrediction, ConfusionScores, Verdict } from '../types/threat-analysis';
+
+// "Detection Accuracy ~85%" in n8n/UPGRADE_SUMMARY.txt
+const CLAIMED_ACCURACY = 0.85;
+
+// Below this many labels a measured rate says little about the claim
+const MIN_LABELED = 30;
+
+const TRUTHS: Verdict[] = ['TRUE_POSITIVE', 'FALSE_POSITIVE'];
+const PREDICTIONS: AiPrediction[] = ['TRUE_POSITIVE', 'FALSE_POSITIVE', 'UNKNOWN'];
+
+const SERIES = [
+  { key: 'accuracy', label: 'Accuracy', color: '#a78bfa' },
+  { key: 'precision', label: 'Precision', color: '#22d3ee' },
+  { key: 'recall', label: 'Recall', color: '#f472b6' },
+  { key: 'f1', label: 'F1', color: '#facc15' },
+] as const;
+
+const formatRatio = (value: number | null): string =>
+  value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+interface BreakdownTableProps {
+  title: string;
+  rows: Array<ConfusionScores & { value: string }>;
+}
+
+const BreakdownTable = ({ title, rows }: BreakdownTableProps) => (
+  <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+    <CardHeader className="pb-2">
+      <CardTitle className="text-sm font-medium text-white/80">{title}</CardTitle>
+    </CardHeader>
+    <CardContent>
+      {rows.length === 0 ? (
+        <p className="text-white/40 text-sm">No labeled results yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-purple-500/10">
+              <TableHead className="text-white/50" />
+              <TableHead className="text-right text-white/50">Labeled</TableHead>
+              <TableHead className="text-right text-white/50">Precision</TableHead>
+              <TableHead className="text-right text-white/50">Recall</TableHead>
+              <TableHead className="text-right text-white/50">F1</TableHead>
+              <TableHead className="text-right text-white/50">Accuracy</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.value} className="border-purple-500/10">
+                <TableCell className="text-xs">{row.value}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{row.labeled}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatRatio(row.precision)}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatRatio(row.recall)}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatRatio(row.f1)}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatRatio(row.accuracy)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </CardContent>
+  </Card>
+);
+
+const DetectionQuality = () => {
+  const navigate = useNavigate();
+  const [executionFilter, setExecutionFilter] = useState('all');
+  const { data: history } = useAllExecutions();
+  const { data: metrics, isLoading, error } = useDetectionMetrics(executionFilter === 'all' ? [] : [executionFilter]);
+
+  const trend = (metrics?.executions ?? [])
+    .filter(execution => execution.labeled > 0)
+    .map(execution => ({ ...execution, run: shortExecutionId(execution.execution_id) }));
+  const enoughLabels = (metrics?.labeled ?? 0) >= MIN_LABELED;
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] text-white relative overflow-hidden">
+      <AnimatedBackground />
+
+      <div className="relative z-10 max-w-[1400px] mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-6">
+            <motion.button
+              onClick={() => navigate('/dashboard')}
+              className="flex items-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.5 }}
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Dashboard
+            </motion.button>
+            <h1 className="text-xl font-medium flex items-center gap-3">
+              <Target className="w-5 h-5 text-purple-400" />
+              Detection Quality
+            </h1>
+          </div>
+          <Select value={executionFilter} onValueChange={setExecutionFilter}>
+            <SelectTrigger className="w-56 bg-purple-500/5 border-purple-500/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All runs</SelectItem>
+              {history?.executions.map(execution => (
+                <SelectItem key={execution.execution_id} value={execution.execution_id}>
+                  {shortExecutionId(execution.execution_id)} · {new Date(execution.start_time).toLocaleDateString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-white/50 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading detection metrics...
+          </div>
+        )}
+        {error && (
+          <div className="text-red-400 text-sm">Failed to load detection metrics: {error.message}</div>
+        )}
+
+        {metrics && (
+          <>
+            {/* Headline scores */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+                <CardContent className="pt-6">
+                  <p className="text-xs text-white/50 uppercase tracking-wider">Accuracy</p>
+                  <p className={cn(
+                    'text-2xl font-mono mt-1',
+                    metrics.accuracy === null ? 'text-white/40' : metrics.accuracy >= CLAIMED_ACCURACY ? 'text-green-400' : 'text-orange-400'
+                  )}>
+                    {formatRatio(metrics.accuracy)}
+                  </p>
+                  <p className="text-[10px] text-white/40 mt-1">claimed ~{CLAIMED_ACCURACY * 100}%</p>
+                </CardContent>
+              </Card>
+              {SERIES.filter(({ key }) => key !== 'accuracy').map(({ key, label }) => (
+                <Card key={key} className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+                  <CardContent className="pt-6">
+                    <p className="text-xs text-white/50 uppercase tracking-wider">{label}</p>
+                    <p className="text-2xl font-mono mt-1">{formatRatio(metrics[key])}</p>
+                  </CardContent>
+                </Card>
+              ))}
+              <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+                <CardContent className="pt-6">
+                  <p className="text-xs text-white/50 uppercase tracking-wider">Labeled</p>
+                  <p className="text-2xl font-mono mt-1">{metrics.labeled}</p>
+                  <p className="text-[10px] text-white/40 mt-1">
+                    {formatRatio(metrics.coverage)} of {metrics.total_results} results
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {metrics.labeled === 0 ? (
+              <div className="text-white/50 text-sm">
+                No analyst verdicts yet. Mark results as true or false positives from an expanded row of the dashboard's results table.
+              </div>
+            ) : !enoughLabels && (
+              <div className="text-orange-300/80 text-sm">
+                Only {metrics.labeled} labeled results - label at least {MIN_LABELED} before reading these rates against the claimed accuracy.
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Confusion matrix */}
+              <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-white/80">Confusion Matrix</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-purple-500/10">
+                        <TableHead className="text-white/50 text-xs">Analyst ↓ / AI →</TableHead>
+                        {PREDICTIONS.map(prediction => (
+                          <TableHead key={prediction} className="text-right text-white/50 text-xs">{prediction}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {TRUTHS.map(truth => (
+                        <TableRow key={truth} className="border-purple-500/10">
+                          <TableCell className="text-xs text-white/70">{truth}</TableCell>
+                          {PREDICTIONS.map(prediction => (
+                            <TableCell
+                              key={prediction}
+                              className={cn(
+                                'text-right font-mono',
+                                prediction === truth ? 'text-green-400' : metrics.confusion[truth][prediction] > 0 ? 'text-red-400' : 'text-white/40'
+                              )}
+                            >
+                              {metrics.confusion[truth][prediction]}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-[10px] text-white/40 mt-3">
+                    TRUE_POSITIVE is the positive class. An AI that said UNKNOWN counts against accuracy and recall, not precision.
+                  </p>
+                </CardContent>
+              </Card>
+
+              {/* Across runs */}
+              <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-white/80">Across Runs</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {trend.length === 0 ? (
+                    <p className="text-white/40 text-sm">No labeled runs yet.</p>
+                  ) : (
+                    <ResponsiveContainer width="100%" height={220}>
+                      <LineChart data={trend}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                        <XAxis dataKey="run" stroke="rgba(255,255,255,0.4)" tick={{ fontSize: 11 }} />
+                        <YAxis
+                          domain={[0, 1]}
+                          tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                          stroke="rgba(255,255,255,0.4)"
+                          tick={{ fontSize: 11 }}
+                        />
+                        <Tooltip
+                          formatter={(value) => formatRatio(typeof value === 'number' ? value : null)}
+                          contentStyle={{ background: '#0f0f14', border: '1px solid rgba(168,85,247,0.2)', fontSize: 12 }}
+                        />
+                        <Legend wrapperStyle={{ fontSize: 11 }} />
+                        <ReferenceLine y={CLAIMED_ACCURACY} stroke="rgba(255,255,255,0.3)" strokeDasharray="4 4" label={{ value: 'claimed', fill: 'rgba(255,255,255,0.4)', fontSize: 10 }} />
+                        {SERIES.map(({ key, label, color }) => (
+                          <Line key={key} type="monotone" dataKey={key} name={label} stroke={color} dot={{ r: 3 }} connectNulls />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <BreakdownTable title="By Attack Type" rows={metrics.by_attack_type} />
+              <BreakdownTable title="By Enrichment Method" rows={metrics.by_enrichment_method} />
+              <BreakdownTable title="By Pre-filter Score" rows={metrics.by_pre_filter_band} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DetectionQuality;
@@ -7,14 +7,15 @@ import { motion } from 'framer-motion';
 import { 
   Activity, Shield, AlertTriangle, TrendingUp, TrendingDown, Clock, 
   Network, Server, Database, Eye, Download, Zap,
-  Target, ArrowUpRight, ArrowDownRight, Minus
+  Target, ArrowUpRight, ArrowDownRight, Minus, Loader2
 } from 'lucide-react';
-import type { ThreatData } from '../types/threat-analysis';
+import type { AggregateParams, FacetCount } from '../types/threat-analysis';
 import { useMemo, useState } from 'react';
+import { useExecutionAggregates } from '../hooks/useThreatAnalysis';
 import { cn } from '@/lib/utils';
 
 interface EliteChartsProps {
-  data: ThreatData[];
+  executionId: string | null;
 }
 
 interface TimelineEntry {
@@ -26,141 +27,45 @@ interface TimelineEntry {
   hour?: string;
 }
 
-interface PortAnalysis {
-  port: string;
-  count: number;
-  risk: number;
-}
+type TimeRange = '24h' | '7d' | '30d';
+
+// Server-side timeline bucketing for each range button
+const TIME_RANGE_PARAMS: Record<TimeRange, AggregateParams> = {
+  '24h': { bucket: 'hour', last: 24 },
+  '7d': { bucket: 'day', last: 7 },
+  '30d': { bucket: 'day', last: 30 },
+};
+
+const toNameValue = ({ value, count }: FacetCount) => ({ name: value, value: count });
 
-const EliteCharts = ({ data }: EliteChartsProps) => {
-  const [timeRange, setTimeRange] = useState<'24h' | '7d' | '30d'>('7d');
+const EliteCharts = ({ executionId }: EliteChartsProps) => {
+  const [timeRange, setTimeRange] = useState<TimeRange>('7d');
   const [showLegend, setShowLegend] = useState(true);
 
-  // Advanced data processing with memoization
+  // Compact aggregates from the backend - refreshed by the SSE stream as batches land
+  const { data: aggregates, error } = useExecutionAggregates(executionId, TIME_RANGE_PARAMS[timeRange]);
+  const total = aggregates?.total_results ?? 0;
+
   const processedData = useMemo(() => {
-    // Severity distribution
-    const severityData = Object.entries(
-      data.reduce((acc: Record<string, number>, item: ThreatData) => {
-        const severity = item['Severity Level'] || 'Unknown';
-        acc[severity] = (acc[severity] || 0) + 1;
-        return acc;
-      }, {})
-    ).map(([name, value]) => ({ 
-      name, 
-      value: value as number,
-      percentage: ((value as number) / data.length * 100).toFixed(1)
+    const severityData = (aggregates?.severity ?? []).map(({ value, count }) => ({
+      name: value,
+      value: count,
+      percentage: total > 0 ? (count / total * 100).toFixed(1) : '0.0'
     }));
 
-    // Enhanced timeline with all severity levels
-    const timelineData = data.reduce((acc: Record<string, TimelineEntry>, item: ThreatData) => {
-      const date = item.Timestamp?.split(' ')[0] || 'Unknown';
-      if (!acc[date]) {
-        acc[date] = { date, count: 0, critical: 0, medium: 0, low: 0 };
-      }
-      acc[date].count += 1;
-      const severity = item['Severity Level']?.toLowerCase();
-      if (severity === 'high') acc[date].critical += 1;
-      else if (severity === 'medium') acc[date].medium += 1;
-      else if (severity === 'low') acc[date].low += 1;
-      return acc;
-    }, {});
-
-    const chartData = Object.values(timelineData)
-      .sort((a: TimelineEntry, b: TimelineEntry) => a.date.localeCompare(b.date))
-      .slice(timeRange === '24h' ? -1 : timeRange === '7d' ? -7 : -30);
-
-    // Hourly distribution
-    const hourlyData = data.reduce((acc: Record<string, number>, item: ThreatData) => {
-      const hour = new Date(item.Timestamp).getHours();
-      const hourKey = `${hour.toString().padStart(2, '0')}:00`;
-      acc[hourKey] = (acc[hourKey] || 0) + 1;
-      return acc;
-    }, {});
-
-    const hourlyChartData = Object.entries(hourlyData)
-      .map(([hour, count]) => ({ hour, count }))
-      .sort((a, b) => a.hour.localeCompare(b.hour));
-
-    // Attack type analysis
-    const attackTypeData = Object.entries(
-      data.reduce((acc: Record<string, number>, item: ThreatData) => {
-        const type = item['Attack Type'] || 'Unknown';
-        acc[type] = (acc[type] || 0) + 1;
-        return acc;
-      }, {})
-    ).map(([name, value]) => ({ name, value: value as number }))
-      .sort((a, b) => b.value - a.value);
-
-    // Port analysis
-    const portData = data.reduce((acc: Record<string, PortAnalysis>, item: ThreatData) => {
-      const port = item['Destination Port'] || 'Unknown';
-      if (!acc[port]) {
-        acc[port] = { port, count: 0, risk: 0 };
-      }
-      acc[port].count += 1;
-      acc[port].risk += item.final_risk_score || 0;
-      return acc;
-    }, {});
-
-    const topPorts = Object.values(portData)
-      .map(p => ({ ...p, avgRisk: p.risk / p.count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
-
-    // Protocol distribution
-    const protocolData = Object.entries(
-      data.reduce((acc: Record<string, number>, item: ThreatData) => {
-        const protocol = item.Protocol || 'Unknown';
-        acc[protocol] = (acc[protocol] || 0) + 1;
-        return acc;
-      }, {})
-    ).map(([name, value]) => ({ name, value: value as number }));
-
-    // Network segment analysis
-    const segmentData = Object.entries(
-      data.reduce((acc: Record<string, number>, item: ThreatData) => {
-        const segment = item['Network Segment'] || 'Unknown';
-        acc[segment] = (acc[segment] || 0) + 1;
-        return acc;
-      }, {})
-    ).map(([name, value]) => ({ name, value: value as number }));
-
-    // Top source IPs
-    const topSourceIPs = Object.entries(
-      data.reduce((acc: Record<string, number>, item: ThreatData) => {
-        const ip = item['Source IP Address'] || 'Unknown';
-        acc[ip] = (acc[ip] || 0) + 1;
-        return acc;
-      }, {})
-    )
-      .map(([ip, count]) => ({ ip, count: count as number }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
-
-    // Action distribution
-    const actionData = Object.entries(
-      data.reduce((acc: Record<string, number>, item: ThreatData) => {
-        const action = item['Action Taken'] || 'Unknown';
-        acc[action] = (acc[action] || 0) + 1;
-        return acc;
-      }, {})
-    ).map(([name, value]) => ({ name, value: value as number }));
-
-    // Risk score distribution
-    const riskBuckets = data.reduce((acc: Record<string, number>, item: ThreatData) => {
-      const score = item.final_risk_score || 0;
-      let bucket = '0-20';
-      if (score > 80) bucket = '80-100';
-      else if (score > 60) bucket = '60-80';
-      else if (score > 40) bucket = '40-60';
-      else if (score > 20) bucket = '20-40';
-      acc[bucket] = (acc[bucket] || 0) + 1;
-      return acc;
-    }, {});
-
-    const riskDistribution = Object.entries(riskBuckets)
-      .map(([range, count]) => ({ range, count: count as number }))
-      .sort((a, b) => a.range.localeCompare(b.range));
+    const chartData: TimelineEntry[] = (aggregates?.timeline ?? []).map((entry) => ({
+      date: entry.bucket,
+      count: entry.count,
+      critical: entry.high,
+      medium: entry.medium,
+      low: entry.low
+    }));
+
+    const topPorts = (aggregates?.ports ?? []).map((port) => ({
+      port: port.value,
+      count: port.count,
+      avgRisk: port.average_risk_score
+    }));
 
     // Trends calculation
     const recentData = chartData.slice(-3);
@@ -173,18 +78,18 @@ const EliteCharts = ({ data }: EliteChartsProps) => {
     return {
       severityData,
       chartData,
-      hourlyChartData,
-      attackTypeData,
+      hourlyChartData: aggregates?.hour_of_day ?? [],
+      attackTypeData: (aggregates?.attack_types ?? []).map(toNameValue),
       topPorts,
-      protocolData,
-      segmentData,
-      topSourceIPs,
-      actionData,
-      riskDistribution,
+      protocolData: (aggregates?.protocols ?? []).map(toNameValue),
+      segmentData: (aggregates?.segments ?? []).map(toNameValue),
+      topSourceIPs: (aggregates?.top_source_ips ?? []).map(({ value, count }) => ({ ip: value, count })),
+      actionData: (aggregates?.actions ?? []).map(toNameValue),
+      riskDistribution: aggregates?.risk_distribution ?? [],
       trend,
       trendPercentage
     };
-  }, [data, timeRange]);
+  }, [aggregates, total]);
 
   const radarData = processedData.attackTypeData.slice(0, 6).map((item) => ({
     subject: item.name,
@@ -243,6 +148,21 @@ const EliteCharts = ({ data }: EliteChartsProps) => {
     return 'text-yellow-400';
   };
 
+  if (!aggregates) {
+    return (
+      <div className="flex items-center justify-center gap-2 h-64 text-sm text-white/40">
+        {error ? (
+          `Failed to load chart data: ${error.message}`
+        ) : (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading chart data...
+          </>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Control Bar */}
@@ -292,7 +212,7 @@ const EliteCharts = ({ data }: EliteChartsProps) => {
         {[
           { 
             label: 'Active Threats', 
-            value: data.length, 
+            value: total, 
             icon: Activity, 
             color: 'text-purple-400',
             bgColor: 'bg-purple-500/10',
@@ -308,7 +228,7 @@ const EliteCharts = ({ data }: EliteChartsProps) => {
           },
           { 
             label: 'Blocked', 
-            value: data.filter((t: ThreatData) => t['Action Taken'] === 'Blocked').length, 
+            value: aggregates?.blocked ?? 0, 
             icon: Shield, 
             color: 'text-green-400',
             bgColor: 'bg-green-500/10',
@@ -316,7 +236,7 @@ const EliteCharts = ({ data }: EliteChartsProps) => {
           },
           { 
             label: 'Avg Risk', 
-            value: Math.round(data.reduce((sum: number, t: ThreatData) => sum + parseFloat(String(t.final_risk_score || 0)), 0) / data.length), 
+            value: Math.round(aggregates?.average_risk_score ?? 0), 
             icon: TrendingUp, 
             color: 'text-yellow-400',
             bgColor: 'bg-yellow-500/10',
@@ -394,7 +314,8 @@ const EliteCharts = ({ data }: EliteChartsProps) => {
                 dataKey="date" 
                 stroke="rgba(168, 85, 247, 0.4)"
                 tick={{ fontSize: 11, fill: 'rgba(168, 85, 247, 0.6)' }}
-                tickFormatter={(value) => value.split('-').slice(1).join('/')}
+                // Hourly buckets ("2020-03-01T14:00") show the hour, daily ones MM/DD
+                tickFormatter={(value: string) => value.includes('T') ? value.slice(11) : value.split('-').slice(1).join('/')}
               />
               <YAxis 
                 stroke="rgba(168, 85, 247, 0.4)"
@@ -698,7 +619,7 @@ const EliteCharts = ({ data }: EliteChartsProps) => {
                       <motion.div
                         className="h-full bg-purple-500"
                         initial={{ width: 0 }}
-                        animate={{ width: `${(item.value / data.length) * 100}%` }}
+                        animate={{ width: `${total > 0 ? (item.value / total) * 100 : 0}%` }}
                         transition={{ duration: 0.5, delay: idx * 0.1 }}
                       />
                     </div>
@@ -730,7 +651,7 @@ const EliteCharts = ({ data }: EliteChartsProps) => {
                       <motion.div
                         className="h-full bg-cyan-500"
                         initial={{ width: 0 }}
-                        animate={{ width: `${(item.value / data.length) * 100}%` }}
+                        animate={{ width: `${total > 0 ? (item.value / total) * 100 : 0}%` }}
                         transition={{ duration: 0.5, delay: idx * 0.1 }}
                       />
                     </div>
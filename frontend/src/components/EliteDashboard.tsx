@@ -25,7 +25,7 @@ interface EliteDashboardProps {
   onBackToWorkflow: () => void;
 }
 
-const EliteDashboard = ({ threatData, executionId: _executionId, onBackToLanding, onBackToWorkflow: _onBackToWorkflow }: EliteDashboardProps) => {
+const EliteDashboard = ({ threatData, executionId, onBackToLanding, onBackToWorkflow: _onBackToWorkflow }: EliteDashboardProps) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterSeverity, setFilterSeverity] = useState('all');
   const [selectedView, setSelectedView] = useState('overview');
@@ -79,6 +79,12 @@ const EliteDashboard = ({ threatData, executionId: _executionId, onBackToLanding
     });
   }, [threatData, searchTerm, filterSeverity]);
 
+  // The same filters in the backend filter language, for exports
+  const filterQuery = [
+    filterSeverity !== 'all' ? `severity:${filterSeverity}` : '',
+    searchTerm ? `"${searchTerm.replace(/["\\]/g, '\\$&')}"` : '',
+  ].filter(Boolean).join(' AND ');
+
   const navItems = [
     { id: 'overview', label: 'Overview', icon: Layers },
     { id: 'threats', label: 'Threats', icon: AlertCircle },
@@ -294,7 +300,7 @@ const EliteDashboard = ({ threatData, executionId: _executionId, onBackToLanding
                 </div>
 
                 {/* Elite Data Table */}
-                <EliteTable data={filteredData} />
+                <EliteTable data={filteredData} executionId={executionId} baseQuery={filterQuery} />
               </motion.div>
             )}
 
@@ -306,7 +312,7 @@ const EliteDashboard = ({ threatData, executionId: _executionId, onBackToLanding
                 exit={{ opacity: 0, y: -10 }}
                 transition={{ duration: 0.2 }}
               >
-                <EliteCharts data={threatData} />
+                <EliteCharts executionId={executionId} />
               </motion.div>
             )}
 
@@ -331,7 +337,11 @@ const EliteDashboard = ({ threatData, executionId: _executionId, onBackToLanding
                     {stats.critical} Active
                   </Badge>
                 </div>
-                <EliteTable data={filteredData.filter(t => t['Severity Level']?.toLowerCase() === 'high')} />
+                <EliteTable
+                  data={filteredData.filter(t => t['Severity Level']?.toLowerCase() === 'high')}
+                  executionId={executionId}
+                  baseQuery={[filterQuery, 'severity:high'].filter(Boolean).join(' AND ')}
+                />
               </motion.div>
             )}
 
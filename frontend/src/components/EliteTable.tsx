@@ -2,10 +2,16 @@ import { useState, Fragment, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   ChevronRight, AlertCircle, Shield, Activity, Zap, Globe, Clock, User,
-  ChevronLeft, ChevronsLeft, ChevronsRight, Filter, X, Search, Calendar
+  ChevronLeft, ChevronsLeft, ChevronsRight, Filter, X, Search, Calendar, Download, Eye
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { ThreatData } from '../types/threat-analysis';
+import { buildWatchlistMatcher } from '@/lib/watchlist';
+import type { ThreatData, ExportFormat } from '../types/threat-analysis';
+import { getExecutionExportUrl } from '../services/threatAnalysisApi';
+import { useWatchlists } from '../hooks/useThreatAnalysis';
+import { dashboardConfig } from '../config/dashboardConfig';
+import CaseActions from './CaseActions';
+import VerdictControl from './VerdictControl';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
 import {
@@ -18,6 +24,11 @@ import {
 
 interface EliteTableProps {
   data: ThreatData[];
+  // Enables the export buttons, case menu and analyst verdicts - downloads come
+  // from the backend, not `data`
+  executionId?: string | null;
+  // Backend filter-language query `data` was already narrowed by
+  baseQuery?: string;
 }
 
 interface Filters {
@@ -36,12 +47,54 @@ interface Filters {
   dateTo: string;
 }
 
-const EliteTable = ({ data }: EliteTableProps) => {
+const isPresent = (value: string | undefined): value is string => !!value;
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'ndjson', label: 'NDJSON' },
+  { format: 'stix', label: 'STIX 2.1' },
+  { format: 'misp', label: 'MISP' },
+  { format: 'ecs', label: 'ECS' },
+];
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+// Translate the table filters into the backend filter language, so an
+// export contains exactly the rows the table shows
+const toFilterQuery = (filters: Filters): string => {
+  const anyOf = (field: string, values: string[]) =>
+    values.length > 0 ? `(${values.map(value => `${field}:${quote(value)}`).join(' OR ')})` : '';
+  const contains = (field: string, value: string) =>
+    value ? `${field}:${quote(`*${value}*`)}` : '';
+
+  return [
+    anyOf('severity', filters.severity),
+    anyOf('attack_type', filters.attackType),
+    anyOf('action', filters.actionTaken),
+    anyOf('protocol', filters.protocol),
+    anyOf('segment', filters.networkSegment),
+    anyOf('classification', filters.classification),
+    contains('src_ip', filters.sourceIP),
+    contains('dst_ip', filters.destIP),
+    contains('location', filters.location),
+    filters.minRiskScore > 0 ? `risk>=${filters.minRiskScore}` : '',
+    filters.maxRiskScore < 100 ? `risk<=${filters.maxRiskScore}` : '',
+    filters.dateFrom ? `ts>=${filters.dateFrom}` : '',
+    filters.dateTo ? `ts<=${filters.dateTo}` : '',
+  ].filter(Boolean).join(' AND ');
+};
+
+const EliteTable = ({ data, executionId, baseQuery }: EliteTableProps) => {
   const [selectedRow, setSelectedRow] = useState<number | null>(null);
   const [, setHoveredRow] = useState<number | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
   const [showFilters, setShowFilters] = useState(false);
+  const { data: watchlistData } = useWatchlists();
+  const matchWatchlists = useMemo(
+    () => buildWatchlistMatcher(watchlistData?.watchlists ?? []),
+    [watchlistData]
+  );
   const [filters, setFilters] = useState<Filters>({
     severity: [],
     attackType: [],
@@ -112,12 +165,12 @@ const EliteTable = ({ data }: EliteTableProps) => {
 
   // Extract unique values for filters
   const uniqueValues = useMemo(() => ({
-    severities: [...new Set(data.map(d => d['Severity Level']).filter(Boolean))],
-    attackTypes: [...new Set(data.map(d => d['Attack Type']).filter(Boolean))],
-    actions: [...new Set(data.map(d => d['Action Taken']).filter(Boolean))],
-    protocols: [...new Set(data.map(d => d.Protocol).filter(Boolean))],
-    segments: [...new Set(data.map(d => d['Network Segment']).filter(Boolean))],
-    classifications: [...new Set(data.map(d => d.consensus_classification).filter(Boolean))],
+    severities: [...new Set(data.map(d => d['Severity Level']).filter(isPresent))],
+    attackTypes: [...new Set(data.map(d => d['Attack Type']).filter(isPresent))],
+    actions: [...new Set(data.map(d => d['Action Taken']).filter(isPresent))],
+    protocols: [...new Set(data.map(d => d.Protocol).filter(isPresent))],
+    segments: [...new Set(data.map(d => d['Network Segment']).filter(isPresent))],
+    classifications: [...new Set(data.map(d => d.consensus_classification).filter(isPresent))],
   }), [data]);
 
   // Filter data
@@ -246,6 +299,10 @@ const EliteTable = ({ data }: EliteTableProps) => {
     return count;
   }, [filters]);
 
+  const exportQuery = [baseQuery ? `(${baseQuery})` : '', toFilterQuery(filters)]
+    .filter(Boolean)
+    .join(' AND ');
+
   return (
     <div className="relative space-y-4">
       {/* Filter Bar */}
@@ -287,6 +344,22 @@ const EliteTable = ({ data }: EliteTableProps) => {
         </div>
 
         <div className="flex items-center gap-3">
+          {dashboardConfig.features.enableExport && executionId && (
+            <div className="flex items-center gap-2">
+              <Download className="w-4 h-4 text-purple-400" />
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <a
+                  key={format}
+                  href={getExecutionExportUrl(executionId, format, { q: exportQuery })}
+                  download
+                  className="px-3 py-2 rounded-lg border border-purple-500/20 bg-purple-500/5 text-purple-400 hover:bg-purple-500/10 transition-all text-sm"
+                >
+                  {label}
+                </a>
+              ))}
+            </div>
+          )}
+
           <span className="text-sm text-white/60">Items per page:</span>
           <Select value={itemsPerPage.toString()} onValueChange={(v) => {
             setItemsPerPage(Number(v));
@@ -579,6 +652,7 @@ const EliteTable = ({ data }: EliteTableProps) => {
           <tbody>
             {paginatedData.map((row: ThreatData, idx: number) => {
               const Icon = getSeverityIcon(row['Severity Level']);
+              const watchlistMatches = matchWatchlists(row);
               return (
                 <Fragment key={`row-${row._unique_id || idx}`}>
                   <motion.tr
@@ -588,6 +662,7 @@ const EliteTable = ({ data }: EliteTableProps) => {
                     whileHover={{ backgroundColor: 'rgba(168, 85, 247, 0.05)' }}
                     className={cn(
                       "border-b border-purple-500/5 transition-all duration-200 cursor-pointer relative",
+                      watchlistMatches.length > 0 && "bg-amber-500/5 shadow-[inset_3px_0_0_rgba(245,158,11,0.7)]",
                       selectedRow === idx && "bg-purple-500/10 border-purple-500/20"
                     )}
                     onMouseEnter={() => setHoveredRow(idx)}
@@ -603,6 +678,15 @@ const EliteTable = ({ data }: EliteTableProps) => {
                             minute: '2-digit',
                           })}
                         </span>
+                        {watchlistMatches.length > 0 && (
+                          <span
+                            title={watchlistMatches.map(({ watchlist, ioc }) => `${watchlist}: ${ioc.type} ${ioc.value}`).join('\n')}
+                            className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-300 uppercase tracking-wider"
+                          >
+                            <Eye className="w-3 h-3" />
+                            Watchlist
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="p-4">
@@ -759,11 +843,16 @@ const EliteTable = ({ data }: EliteTableProps) => {
                                     <span className="text-white/60">Signature</span>
                                     <span className="text-purple-300">{row['Attack Signature']}</span>
                                   </div>
-                                  <div className="flex justify-between items-center p-2 bg-black/30 rounded border border-purple-500/10">
-                                    <span className="text-white/60">Classification</span>
-                                    <span className="text-cyan-400">{row.consensus_classification}</span>
-                                  </div>
+                                  {!(executionId && row._unique_id) && (
+                                    <div className="flex justify-between items-center p-2 bg-black/30 rounded border border-purple-500/10">
+                                      <span className="text-white/60">Classification</span>
+                                      <span className="text-cyan-400">{row.consensus_classification}</span>
+                                    </div>
+                                  )}
                                 </div>
+                                {executionId && row._unique_id && (
+                                  <VerdictControl result={row} executionId={executionId} eventId={row._unique_id} />
+                                )}
                               </div>
               
                               <div className="space-y-4">
@@ -802,7 +891,10 @@ const EliteTable = ({ data }: EliteTableProps) => {
                             )}
 
                             <div className="mt-4 pt-4 border-t border-purple-500/10 flex items-center justify-between text-xs">
-                              <span className="text-white/40">ID: {row._unique_id}</span>
+                              <div className="flex items-center gap-3">
+                                {executionId && <CaseActions result={row} executionId={executionId} />}
+                                <span className="text-white/40">ID: {row._unique_id}</span>
+                              </div>
                               <span className="text-purple-400/60">{row.Timestamp}</span>
                             </div>
                           </div>
@@ -0,0 +1,360 @@
+/**
+ * Execution History
+ * Lists past runs with their config, duration, summary and status,
+ * and compares two runs side by side
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, History, GitCompare, ExternalLink, Loader2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn, formatDuration } from '@/lib/utils';
+import AnimatedBackground from './AnimatedBackground';
+import { useAllExecutions, useExecutionBreakdown } from '../hooks/useThreatAnalysis';
+import type { ExecutionResponse, ExecutionRunStatus, ThreatSummary } from '../types/threat-analysis';
+
+const STATUS_STYLES: Record<ExecutionRunStatus, string> = {
+  processing: 'bg-purple-500/20 text-purple-300',
+  paused: 'bg-yellow-500/20 text-yellow-300',
+  completed: 'bg-green-500/20 text-green-300',
+  incomplete: 'bg-orange-500/20 text-orange-300',
+  cancelled: 'bg-red-500/20 text-red-300',
+  failed: 'bg-red-500/30 text-red-200',
+};
+
+const SUMMARY_ROWS: Array<{ key: keyof ThreatSummary; label: string }> = [
+  { key: 'total_items', label: 'Total Items' },
+  { key: 'true_positives', label: 'True Positives' },
+  { key: 'false_positives', label: 'False Positives' },
+  { key: 'critical', label: 'Critical' },
+  { key: 'high', label: 'High' },
+  { key: 'medium', label: 'Medium' },
+  { key: 'low', label: 'Low' },
+];
+
+const SEVERITY_ORDER = ['High', 'Medium', 'Low'];
+
+const formatRunDuration = (execution: ExecutionResponse): string => {
+  const end = execution.completed_time ? Date.parse(execution.completed_time) : Date.now();
+  return formatDuration(Math.max(end - Date.parse(execution.start_time), 0) / 1000);
+};
+
+const shortId = (executionId: string): string =>
+  executionId.length > 12 ? `${executionId.slice(0, 12)}…` : executionId;
+
+// ============================================================
+// COMPARISON
+// ============================================================
+
+interface RunComparisonProps {
+  left: ExecutionResponse;
+  right: ExecutionResponse;
+  onClose: () => void;
+}
+
+const RunComparison = ({ left, right, onClose }: RunComparisonProps) => {
+  const { data: leftBreakdown, isLoading: leftLoading } = useExecutionBreakdown(left.execution_id);
+  const { data: rightBreakdown, isLoading: rightLoading } = useExecutionBreakdown(right.execution_id);
+
+  const severities = [
+    ...SEVERITY_ORDER,
+    ...Object.keys({ ...leftBreakdown?.severity, ...rightBreakdown?.severity })
+      .filter(severity => !SEVERITY_ORDER.includes(severity)),
+  ];
+
+  const attackTypes = Array.from(new Set([
+    ...(leftBreakdown?.top_attack_types ?? []).map(entry => entry.value),
+    ...(rightBreakdown?.top_attack_types ?? []).map(entry => entry.value),
+  ]));
+
+  const countFor = (entries: Array<{ value: string; count: number }> | undefined, value: string) =>
+    entries?.find(entry => entry.value === value)?.count ?? 0;
+
+  // Difference column: right minus left
+  const renderDelta = (leftValue: number, rightValue: number) => {
+    const delta = rightValue - leftValue;
+    return (
+      <TableCell className={cn(
+        'text-right font-mono text-xs',
+        delta > 0 ? 'text-red-400' : delta < 0 ? 'text-green-400' : 'text-white/40'
+      )}>
+        {delta > 0 ? `+${delta}` : delta}
+      </TableCell>
+    );
+  };
+
+  return (
+    <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl flex items-center gap-3">
+            <GitCompare className="w-5 h-5 text-purple-400" />
+            Run Comparison
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {leftLoading || rightLoading ? (
+          <div className="flex items-center gap-2 text-white/50 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading breakdowns...
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-purple-500/10">
+                <TableHead className="text-white/50">Metric</TableHead>
+                <TableHead className="text-right text-white/50">{shortId(left.execution_id)}</TableHead>
+                <TableHead className="text-right text-white/50">{shortId(right.execution_id)}</TableHead>
+                <TableHead className="text-right text-white/50">Δ</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow className="border-purple-500/10 bg-purple-500/5">
+                <TableCell colSpan={4} className="text-xs uppercase tracking-wider text-purple-300">Summary</TableCell>
+              </TableRow>
+              {SUMMARY_ROWS.map(({ key, label }) => {
+                const leftValue = left.final_summary?.[key] ?? 0;
+                const rightValue = right.final_summary?.[key] ?? 0;
+                return (
+                  <TableRow key={key} className="border-purple-500/10">
+                    <TableCell className="text-white/70">{label}</TableCell>
+                    <TableCell className="text-right font-mono">{leftValue}</TableCell>
+                    <TableCell className="text-right font-mono">{rightValue}</TableCell>
+                    {renderDelta(leftValue, rightValue)}
+                  </TableRow>
+                );
+              })}
+
+              <TableRow className="border-purple-500/10 bg-purple-500/5">
+                <TableCell colSpan={4} className="text-xs uppercase tracking-wider text-purple-300">Severity Mix</TableCell>
+              </TableRow>
+              {severities.map(severity => {
+                const leftValue = leftBreakdown?.severity[severity] ?? 0;
+                const rightValue = rightBreakdown?.severity[severity] ?? 0;
+                const leftShare = leftBreakdown?.total_results ? (leftValue / leftBreakdown.total_results) * 100 : 0;
+                const rightShare = rightBreakdown?.total_results ? (rightValue / rightBreakdown.total_results) * 100 : 0;
+                return (
+                  <TableRow key={severity} className="border-purple-500/10">
+                    <TableCell className="text-white/70">{severity}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {leftValue} <span className="text-white/40 text-xs">({leftShare.toFixed(0)}%)</span>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {rightValue} <span className="text-white/40 text-xs">({rightShare.toFixed(0)}%)</span>
+                    </TableCell>
+                    {renderDelta(leftValue, rightValue)}
+                  </TableRow>
+                );
+              })}
+
+              <TableRow className="border-purple-500/10 bg-purple-500/5">
+                <TableCell colSpan={4} className="text-xs uppercase tracking-wider text-purple-300">Top Attack Types</TableCell>
+              </TableRow>
+              {attackTypes.map(attackType => {
+                const leftValue = countFor(leftBreakdown?.top_attack_types, attackType);
+                const rightValue = countFor(rightBreakdown?.top_attack_types, attackType);
+                return (
+                  <TableRow key={attackType} className="border-purple-500/10">
+                    <TableCell className="text-white/70">{attackType}</TableCell>
+                    <TableCell className="text-right font-mono">{leftValue}</TableCell>
+                    <TableCell className="text-right font-mono">{rightValue}</TableCell>
+                    {renderDelta(leftValue, rightValue)}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// ============================================================
+// HISTORY PAGE
+// ============================================================
+
+const ExecutionHistory = () => {
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useAllExecutions();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const executions = data?.executions ?? [];
+  const selected = selectedIds
+    .map(id => executions.find(execution => execution.execution_id === id))
+    .filter((execution): execution is ExecutionResponse => !!execution);
+
+  // Keep at most two runs selected - the oldest selection drops off
+  const toggleSelected = (executionId: string) => {
+    setIsComparing(false);
+    setSelectedIds(current =>
+      current.includes(executionId)
+        ? current.filter(id => id !== executionId)
+        : [...current, executionId].slice(-2)
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] text-white relative overflow-hidden">
+      <AnimatedBackground />
+
+      <div className="relative z-10 max-w-[1400px] mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-6">
+            <motion.button
+              onClick={() => navigate('/dashboard')}
+              className="flex items-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.5 }}
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Dashboard
+            </motion.button>
+            <h1 className="text-xl font-medium flex items-center gap-3">
+              <History className="w-5 h-5 text-purple-400" />
+              Execution History
+            </h1>
+          </div>
+          <Button
+            onClick={() => setIsComparing(true)}
+            disabled={selected.length !== 2}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            <GitCompare className="mr-2 h-4 w-4" />
+            Compare {selected.length}/2
+          </Button>
+        </div>
+
+        {isComparing && selected.length === 2 && selected[0] && selected[1] && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            <RunComparison left={selected[0]} right={selected[1]} onClose={() => setIsComparing(false)} />
+          </motion.div>
+        )}
+
+        <Card className="border-purple-500/20 bg-[#0f0f14]/50 backdrop-blur-sm">
+          <CardContent className="pt-6">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-white/50 text-sm">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading executions...
+              </div>
+            )}
+            {error && (
+              <div className="text-red-400 text-sm">Failed to load executions: {error.message}</div>
+            )}
+            {!isLoading && !error && executions.length === 0 && (
+              <div className="text-white/50 text-sm">No executions yet - start one from the dashboard.</div>
+            )}
+            {executions.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-purple-500/10">
+                    <TableHead className="w-10" />
+                    <TableHead className="text-white/50">Execution</TableHead>
+                    <TableHead className="text-white/50">Started</TableHead>
+                    <TableHead className="text-white/50">Duration</TableHead>
+                    <TableHead className="text-white/50">Config</TableHead>
+                    <TableHead className="text-right text-white/50">Results</TableHead>
+                    <TableHead className="text-right text-white/50">TP / FP</TableHead>
+                    <TableHead className="text-right text-white/50">Critical / High</TableHead>
+                    <TableHead className="text-white/50">Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {executions.map(execution => (
+                    <TableRow
+                      key={execution.execution_id}
+                      className={cn(
+                        'border-purple-500/10',
+                        selectedIds.includes(execution.execution_id) && 'bg-purple-500/10'
+                      )}
+                    >
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(execution.execution_id)}
+                          onChange={() => toggleSelected(execution.execution_id)}
+                          className="accent-purple-500"
+                          aria-label={`Select ${execution.execution_id} for comparison`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{shortId(execution.execution_id)}</TableCell>
+                      <TableCell className="text-white/70 text-xs">
+                        {new Date(execution.start_time).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{formatRunDuration(execution)}</TableCell>
+                      <TableCell className="text-white/70 text-xs">
+                        {execution.config
+                          ? `${execution.config.max_items} items · ${execution.config.batch_size}/batch`
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{execution.total_results_count}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {execution.final_summary
+                          ? `${execution.final_summary.true_positives ?? '—'} / ${execution.final_summary.false_positives ?? '—'}`
+                          : '—'}
+                        {execution.verdict_count > 0 && execution.ai_final_summary && (
+                          <span
+                            className="block text-[10px] text-white/40"
+                            title={`${execution.verdict_count} analyst verdicts applied`}
+                          >
+                            AI {execution.ai_final_summary.true_positives ?? '—'} / {execution.ai_final_summary.false_positives ?? '—'}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {execution.final_summary
+                          ? `${execution.final_summary.critical ?? '—'} / ${execution.final_summary.high ?? '—'}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="default" className={cn('text-xs', STATUS_STYLES[execution.status])}>
+                          {execution.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => navigate(`/dashboard?execution=${encodeURIComponent(execution.execution_id)}`)}
+                        >
+                          <ExternalLink className="mr-1 h-4 w-4" />
+                          Open
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ExecutionHistory;
@@ -5,13 +5,12 @@
  */
 
 import { useState, useMemo, useEffect } from 'react';
-import { flushSync } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   Activity, AlertCircle, Shield, TrendingUp, Search, BarChart3, 
   Globe2, Cpu, Layers, Zap, Lock, ArrowLeft, Play, Loader2, CheckCircle2,
-  Clock, Database
+  Clock, Database, Pause, Square, History, Siren, FolderOpen, Target
 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import {
@@ -26,16 +25,37 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { cn } from '@/lib/utils';
+import { cn, formatDuration } from '@/lib/utils';
+import { dashboardConfig } from '../config/dashboardConfig';
 import EliteTable from './EliteTable';
+import WatchlistMenu from './WatchlistMenu';
+import NotificationsMenu from './NotificationsMenu';
+import AlertRulesDialog from './AlertRulesDialog';
+import AlertBanner from './AlertBanner';
 import EliteCharts from './EliteCharts';
 import EliteMetricCard from './EliteMetricCard';
 import AnimatedBackground from './AnimatedBackground';
 import ThreatGlobeMap from './ThreatGlobeMap';
 import toast, { Toaster } from 'react-hot-toast';
-import { useTriggerAnalysis, useExecutionStatus } from '../hooks/useThreatAnalysis';
+import {
+  useTriggerAnalysis,
+  useExecutionStatus,
+  useExecutionControl,
+  useExecutionQuery,
+  useExecutionAggregates,
+  useAlerts,
+  useAlertAction,
+} from '../hooks/useThreatAnalysis';
+import { getAnalystName } from '@/lib/analyst';
 import type { ThreatData, WorkflowConfig } from '../types/threat-analysis';
 
+// Matches fetched per server-side query - the table pages through them locally
+const QUERY_PAGE_SIZE = 1000;
+
+// Most recent open rule alerts shown above the workflow panel
+const MAX_BANNER_ALERTS = 5;
+const BANNER_SNOOZE_MINUTES = 60;
+
 const IntegratedDashboard = () => {
   const navigate = useNavigate();
   // Workflow state
@@ -43,136 +63,83 @@ const IntegratedDashboard = () => {
     batch_size: 50,
     max_items: 200,
   });
-  const [currentExecutionId, setCurrentExecutionId] = useState<string | null>(null);
+  // The run lives in the URL (?execution=<id>) so a refresh or a link from history reopens it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const currentExecutionId = searchParams.get('execution');
+  const setCurrentExecutionId = (executionId: string) => setSearchParams({ execution: executionId });
   const [startTime, setStartTime] = useState<number | null>(null);
   const [currentTime, setCurrentTime] = useState(Date.now());
-  const [threatData, setThreatData] = useState<ThreatData[]>([]);
 
   // Dashboard state
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [filterSeverity, setFilterSeverity] = useState('all');
   const [selectedView, setSelectedView] = useState('overview');
   const [isLive, setIsLive] = useState(true);
   const [showWorkflowPanel, setShowWorkflowPanel] = useState(true);
-  const [forceUpdateCounter, setForceUpdateCounter] = useState(0);
-  const [firstBatchReceived, setFirstBatchReceived] = useState(false);
 
-  // Workflow hooks
+  // Workflow hooks - execution status is streamed into the query cache over SSE
   const { mutate: triggerWorkflow, isPending, error: triggerError } = useTriggerAnalysis();
-  const { 
-    data: executionStatus, 
-    dataUpdatedAt,
-    isLoading: isLoadingStatus,
-    isFetching: isFetchingStatus
-  } = useExecutionStatus(currentExecutionId, {
+  const { data: executionStatus } = useExecutionStatus(currentExecutionId, {
     enabled: !!currentExecutionId,
-    refetchInterval: 1000,
   });
 
-  const isProcessing = isPending || (!!currentExecutionId && executionStatus?.status !== 'completed');
+  const { mutate: controlExecution, isPending: isControlPending } = useExecutionControl();
+
   const isCompleted = executionStatus?.status === 'completed';
-  
-  // CRITICAL: Keep tab active to prevent browser throttling
-  useEffect(() => {
-    if (!isProcessing) return;
-    
-    console.log('🔄 [KEEP-ALIVE] Starting keep-alive mechanism');
-    
-    // Use requestAnimationFrame loop to keep tab active
-    let animationFrameId: number;
-    const keepAlive = () => {
-      // This keeps the browser from throttling the tab
-      animationFrameId = requestAnimationFrame(keepAlive);
-    };
-    keepAlive();
-    
-    return () => {
-      console.log('🛑 [KEEP-ALIVE] Stopping keep-alive mechanism');
-      cancelAnimationFrame(animationFrameId);
-    };
-  }, [isProcessing]);
-  
-  // Detect when tab becomes visible and force update
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (!document.hidden && threatData.length > 0) {
-        console.log('👁️ [VISIBILITY] Tab became visible, forcing update');
-        setForceUpdateCounter(prev => prev + 1);
-      }
-    };
-    
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [threatData.length]);
-  
-  // Log execution status updates
+  const isCancelled = executionStatus?.status === 'cancelled';
+  const isFailed = executionStatus?.status === 'failed';
+  const isIncomplete = executionStatus?.status === 'incomplete';
+  const isPaused = executionStatus?.status === 'paused';
+  const isFinished = isCompleted || isIncomplete || isCancelled || isFailed;
+  const batchReport = executionStatus?.batchReport;
+  const isProcessing = isPending || (!!currentExecutionId && !isFinished);
+  // A request n8n hasn't acted on yet (it checks between batches)
+  const pendingControl = executionStatus?.control === 'cancel'
+    ? 'Cancelling after the current batch...'
+    : executionStatus?.control === 'pause' && !isPaused
+      ? 'Pausing after the current batch...'
+      : executionStatus?.control === 'run' && isPaused
+        ? 'Resuming...'
+        : null;
+  const threatData = useMemo<ThreatData[]>(
+    () => executionStatus?.allResults ?? [],
+    [executionStatus?.allResults]
+  );
+
+  // Search and severity run as a server-side query (backend filter language)
   useEffect(() => {
-    console.log('📡 [INTEGRATED] Execution status update:', {
-      executionId: currentExecutionId,
-      status: executionStatus?.status,
-      resultsCount: executionStatus?.allResults?.length || 0,
-      batchesReceived: executionStatus?.batchesReceived || 0,
-      isLoading: isLoadingStatus,
-      isFetching: isFetchingStatus,
-      dataUpdatedAt: new Date(dataUpdatedAt).toISOString(),
-      documentHidden: document.hidden,
-    });
-  }, [executionStatus, currentExecutionId, isLoadingStatus, isFetchingStatus, dataUpdatedAt]);
-  
-  // Removed backup polling - primary polling is working fine
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const filterQuery = [
+    filterSeverity !== 'all' ? `severity:${filterSeverity}` : '',
+    debouncedSearch ? `(${debouncedSearch})` : '',
+  ].filter(Boolean).join(' AND ');
+  const isQueryActive = filterQuery !== '';
 
-  // Update current time every second - stop when completed
+  const { data: queryResult, error: queryError, isFetching: isQueryFetching } = useExecutionQuery(
+    currentExecutionId,
+    { q: filterQuery, sort: '-risk', facets: ['attack_type'], limit: QUERY_PAGE_SIZE },
+    { enabled: isQueryActive }
+  );
+
+  // Update current time every second - stop when completed or cancelled
   useEffect(() => {
-    if (!startTime || isCompleted) return;
+    if (!currentExecutionId || isFinished) return;
     
     const interval = setInterval(() => {
       setCurrentTime(Date.now());
     }, 1000);
     
     return () => clearInterval(interval);
-  }, [startTime, isCompleted]);
-
-  // Update threat data - NUCLEAR OPTION: Update on every query change
-  useEffect(() => {
-    console.log('🔄 [INTEGRATED] executionStatus changed, dataUpdatedAt:', new Date(dataUpdatedAt).toISOString());
-    
-    if (executionStatus?.allResults && executionStatus.allResults.length > 0) {
-      const newLength = executionStatus.allResults.length;
-      
-      setThreatData(prevData => {
-        const currentLength = prevData.length;
-        if (newLength !== currentLength) {
-          console.log(`📊 [INTEGRATED] Data update: ${currentLength} -> ${newLength} results`);
-          
-          // ALWAYS use flushSync for immediate rendering
-          flushSync(() => {
-            if (!firstBatchReceived) {
-              console.log('🚀 [INTEGRATED] FIRST BATCH - Setting flag');
-              setFirstBatchReceived(true);
-            }
-            setForceUpdateCounter(prev => prev + 1);
-          });
-          
-          // Force browser to repaint
-          requestAnimationFrame(() => {
-            console.log('🎨 [INTEGRATED] Forcing browser repaint');
-            document.body.offsetHeight; // Force reflow
-          });
-          
-          return executionStatus.allResults ? [...executionStatus.allResults] : prevData;
-        }
-        return prevData;
-      });
-    }
-  }, [dataUpdatedAt, executionStatus?.allResults, firstBatchReceived]); // Depend on dataUpdatedAt to catch every update // Changed dependency to full array, not just length
+  }, [currentExecutionId, isFinished]);
 
   // Handle workflow trigger
   const handleTrigger = () => {
     console.log('🎬 [INTEGRATED] Starting workflow');
     setStartTime(Date.now());
-    setThreatData([]); // Clear previous data
-    setFirstBatchReceived(false); // Reset for new workflow
-    setForceUpdateCounter(0); // Reset counter
     
     triggerWorkflow(config, {
       onSuccess: (data) => {
@@ -193,33 +160,40 @@ const IntegratedDashboard = () => {
     });
   };
 
-  // Calculate progress
-  const calculateProgress = (): number => {
-    if (!executionStatus) return 0;
-    if (executionStatus.status === 'completed') return 100;
-    
-    const resultsReceived = executionStatus.allResults?.length || 0;
-    const expectedTotal = config.max_items;
-    const resultsProgress = (resultsReceived / expectedTotal) * 100;
-    
-    const expectedBatches = Math.ceil(config.max_items / config.batch_size);
-    const batchProgress = ((executionStatus.batchesReceived || 0) / expectedBatches) * 100;
+  // Pause / resume / cancel - applied by n8n between batches
+  const handleControl = (request: 'pause' | 'resume' | 'cancel') => {
+    if (!currentExecutionId) return;
     
-    return Math.min(Math.max(resultsProgress, batchProgress), 99);
+    controlExecution({ executionId: currentExecutionId, request }, {
+      onSuccess: () => {
+        toast.success(`${request.charAt(0).toUpperCase() + request.slice(1)} requested - applied after the current batch`, {
+          duration: 3000,
+        });
+      },
+      onError: (error) => {
+        toast.error(error.message, {
+          icon: '❌',
+          duration: 5000,
+        });
+      },
+    });
   };
 
   const formatElapsedTime = (): string => {
-    if (!startTime) return '0:00';
-    const elapsed = currentTime - startTime;
+    // Reopened runs weren't started in this session - use the server's start time
+    const runStart = startTime ?? (executionStatus?.startTime ? Date.parse(executionStatus.startTime) : null);
+    if (!runStart) return '0:00';
+    const elapsed = (isFinished && executionStatus?.completedTime ? Date.parse(executionStatus.completedTime) : currentTime) - runStart;
     const minutes = Math.floor(elapsed / 60000);
     const seconds = Math.floor((elapsed % 60000) / 1000);
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const progress = calculateProgress();
+  // Authoritative progress from the backend (total_batches / progress_percent)
+  const progress = executionStatus?.progress ?? 0;
 
 
-  // Dashboard calculations - recalculate on every data change
+  // Dashboard calculations
   const stats = useMemo(() => {
     const total = threatData.length;
     const critical = threatData.filter((t: ThreatData) => t['Severity Level']?.toLowerCase() === 'high').length;
@@ -228,8 +202,6 @@ const IntegratedDashboard = () => {
       ? (threatData.reduce((sum: number, t: ThreatData) => sum + parseFloat(String(t.final_risk_score || 0)), 0) / total).toFixed(0)
       : '0';
 
-    console.log('📈 [INTEGRATED] Stats calculated:', { total, critical, blocked });
-
     return {
       total,
       critical,
@@ -238,24 +210,62 @@ const IntegratedDashboard = () => {
       blockRate: total > 0 ? ((blocked / total) * 100).toFixed(0) : '0',
       criticalRate: total > 0 ? ((critical / total) * 100).toFixed(0) : '0',
     };
-  }, [threatData, forceUpdateCounter]); // Added forceUpdateCounter
-
-  const filteredData = useMemo(() => {
-    const filtered = threatData.filter((item: ThreatData) => {
-      const matchesSearch = searchTerm === '' || 
-        Object.values(item).some(val => 
-          String(val).toLowerCase().includes(searchTerm.toLowerCase())
-        );
-      
-      const matchesSeverity = filterSeverity === 'all' || 
-        item['Severity Level']?.toLowerCase() === filterSeverity;
+  }, [threatData]);
+
+  // Country and attack-type counts for Global Intel, aggregated server-side
+  const { data: aggregates } = useExecutionAggregates(currentExecutionId, {}, {
+    enabled: selectedView === 'global',
+  });
 
-      return matchesSearch && matchesSeverity;
+  // Open alerts raised by alert rules - new ones arrive over the execution stream.
+  // Dismissing acknowledges server-side, so every analyst sees it handled
+  const { data: alertsData } = useAlerts(
+    { executionId: currentExecutionId, status: ['open'] },
+    { enabled: !!currentExecutionId }
+  );
+  const { mutate: updateAlert } = useAlertAction();
+  const handleAlertAction = (alertId: string | number, action: 'acknowledge' | 'snooze') => {
+    updateAlert({
+      alertId: String(alertId),
+      action,
+      request: {
+        analyst: getAnalystName() || null,
+        ...(action === 'snooze' && { minutes: BANNER_SNOOZE_MINUTES }),
+      },
+    }, {
+      onError: (error) => {
+        toast.error(error.message, { duration: 4000 });
+      },
     });
-    
-    console.log('🔍 [INTEGRATED] Filtered data:', filtered.length);
-    return filtered;
-  }, [threatData, searchTerm, filterSeverity, forceUpdateCounter]); // Added forceUpdateCounter
+  };
+  const bannerAlerts = useMemo(
+    () => (alertsData?.alerts ?? [])
+      .filter(alert => dashboardConfig.alerts.showCritical || alert.severity !== 'critical')
+      .filter(alert => dashboardConfig.alerts.showConflicts || alert.rule_type !== 'conflict')
+      .slice(0, MAX_BANNER_ALERTS)
+      .map(alert => ({
+        id: alert.alert_id,
+        title: alert.title,
+        message: alert.message,
+        severity: alert.severity,
+        details: alert.details ?? undefined,
+        count: alert.occurrences,
+      })),
+    [alertsData?.alerts]
+  );
+
+  const filteredData = useMemo<ThreatData[]>(
+    () => (isQueryActive ? queryResult?.results ?? [] : threatData),
+    [isQueryActive, queryResult?.results, threatData]
+  );
+  const matchCount = isQueryActive ? queryResult?.total_matches ?? 0 : threatData.length;
+  const topAttackTypes = isQueryActive ? queryResult?.facets.attack_type?.slice(0, 3) ?? [] : [];
+
+  // Narrow the query to one attack type from the facet counts
+  const addAttackTypeFilter = (attackType: string) => {
+    const term = `attack_type:"${attackType.replace(/"/g, '\\"')}"`;
+    setSearchTerm(searchTerm.trim() ? `${searchTerm.trim()} AND ${term}` : term);
+  };
 
   const navItems = [
     { id: 'overview', label: 'Overview', icon: Layers },
@@ -291,6 +301,58 @@ const IntegratedDashboard = () => {
                     <ArrowLeft className="w-4 h-4" />
                     <span className="text-sm">Back</span>
                   </motion.button>
+
+                  <motion.button
+                    onClick={() => navigate('/executions')}
+                    className="flex items-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.5 }}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <History className="w-4 h-4" />
+                    <span className="text-sm">History</span>
+                  </motion.button>
+
+                  <motion.button
+                    onClick={() => navigate(currentExecutionId ? `/alerts?execution=${encodeURIComponent(currentExecutionId)}` : '/alerts')}
+                    className="flex items-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.5 }}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <Siren className="w-4 h-4" />
+                    <span className="text-sm">Alerts</span>
+                  </motion.button>
+
+                  <motion.button
+                    onClick={() => navigate('/cases')}
+                    className="flex items-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.5 }}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    <span className="text-sm">Cases</span>
+                  </motion.button>
+
+                  <motion.button
+                    onClick={() => navigate('/metrics')}
+                    className="flex items-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.5 }}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <Target className="w-4 h-4" />
+                    <span className="text-sm">Quality</span>
+                  </motion.button>
                   
                   <motion.div 
                     className="flex items-center gap-3"
@@ -344,6 +406,9 @@ const IntegratedDashboard = () => {
               </div>
 
               <div className="flex items-center gap-4">
+                <WatchlistMenu />
+                <AlertRulesDialog executionId={currentExecutionId} />
+                {dashboardConfig.features.enableNotifications && <NotificationsMenu />}
                 <motion.div 
                   className="flex items-center gap-2 px-3 py-1.5 bg-purple-500/10 border border-purple-500/20 rounded cursor-pointer"
                   whileHover={{ scale: 1.05, borderColor: 'rgba(168, 85, 247, 0.4)' }}
@@ -383,6 +448,13 @@ const IntegratedDashboard = () => {
         </header>
 
         <main className="max-w-[1800px] mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-8">
+          <AlertBanner
+            alerts={bannerAlerts}
+            onDismiss={(id) => handleAlertAction(id, 'acknowledge')}
+            onSnooze={(id) => handleAlertAction(id, 'snooze')}
+            dismissLabel="Acknowledge"
+          />
+
           {/* Workflow Control Panel */}
           <motion.div
             initial={{ opacity: 0, y: -20 }}
@@ -395,16 +467,36 @@ const IntegratedDashboard = () => {
                   <CardTitle className="text-xl flex items-center gap-3">
                     <Zap className="w-6 h-6 text-purple-400" />
                     Threat Analysis Workflow
-                    {isProcessing && (
+                    {isProcessing && !isPaused && (
                       <Badge variant="default" className="text-sm px-3 py-1 bg-purple-500/20">
                         ⚡ Processing
                       </Badge>
                     )}
+                    {isPaused && (
+                      <Badge variant="default" className="text-sm px-3 py-1 bg-yellow-500/20">
+                        ⏸ Paused
+                      </Badge>
+                    )}
                     {isCompleted && (
                       <Badge variant="default" className="text-sm px-3 py-1 bg-green-500/20">
                         ✓ Completed
                       </Badge>
                     )}
+                    {isIncomplete && (
+                      <Badge variant="default" className="text-sm px-3 py-1 bg-orange-500/20">
+                        ⚠ Incomplete
+                      </Badge>
+                    )}
+                    {isCancelled && (
+                      <Badge variant="default" className="text-sm px-3 py-1 bg-red-500/20">
+                        ✕ Cancelled
+                      </Badge>
+                    )}
+                    {isFailed && (
+                      <Badge variant="default" className="text-sm px-3 py-1 bg-red-500/30">
+                        ✕ Failed
+                      </Badge>
+                    )}
                   </CardTitle>
                   <Button
                     variant="ghost"
@@ -451,16 +543,66 @@ const IntegratedDashboard = () => {
                         </div>
                       )}
 
-                      {/* Progress Bar - Hide when completed */}
+                      {/* Progress Bar - Hide when completed or cancelled */}
                       {currentExecutionId && (
                         <div className="space-y-4">
-                          {!isCompleted && (
+                          {!isFinished && (
                             <div className="space-y-2">
                               <div className="flex justify-between text-sm font-medium">
                                 <span className="text-white/70">Progress</span>
                                 <span className="text-purple-400">{Math.round(progress)}%</span>
                               </div>
                               <Progress value={progress} className="h-3" />
+                              <div className="flex justify-between text-xs text-white/50">
+                                <span>
+                                  ETA {executionStatus?.etaSeconds != null ? formatDuration(executionStatus.etaSeconds) : '--:--'}
+                                </span>
+                                <span>
+                                  {executionStatus?.itemsPerSecond != null ? `${executionStatus.itemsPerSecond.toFixed(1)} items/s` : '-- items/s'}
+                                </span>
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Run Controls */}
+                          {!isFinished && executionStatus?.found && (
+                            <div className="flex items-center gap-3">
+                              {executionStatus.control === 'pause' || isPaused ? (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleControl('resume')}
+                                  disabled={isControlPending || executionStatus.control === 'cancel'}
+                                  className="border-purple-500/30"
+                                >
+                                  <Play className="mr-2 h-4 w-4" />
+                                  Resume
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleControl('pause')}
+                                  disabled={isControlPending || executionStatus.control === 'cancel'}
+                                  className="border-purple-500/30"
+                                >
+                                  <Pause className="mr-2 h-4 w-4" />
+                                  Pause
+                                </Button>
+                              )}
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleControl('cancel')}
+                                disabled={isControlPending || executionStatus.control === 'cancel'}
+                                className="border-red-500/30 text-red-400 hover:text-red-300"
+                              >
+                                <Square className="mr-2 h-4 w-4" />
+                                Cancel
+                              </Button>
+                              {pendingControl && (
+                                <span className="text-xs text-white/50">{pendingControl}</span>
+                              )}
                             </div>
                           )}
 
@@ -481,6 +623,9 @@ const IntegratedDashboard = () => {
                               </div>
                               <div className="text-lg font-bold text-white">
                                 {executionStatus?.batchesReceived || 0}
+                                {executionStatus?.totalBatches != null && (
+                                  <span className="text-xs text-white/50 ml-1">/ {executionStatus.totalBatches}</span>
+                                )}
                               </div>
                             </div>
 
@@ -491,7 +636,7 @@ const IntegratedDashboard = () => {
                               </div>
                               <div className="text-lg font-bold text-white">
                                 {threatData.length}
-                                <span className="text-xs text-white/50 ml-1">/ {config.max_items}</span>
+                                <span className="text-xs text-white/50 ml-1">/ {executionStatus?.totalItems ?? config.max_items}</span>
                               </div>
                             </div>
 
@@ -501,7 +646,7 @@ const IntegratedDashboard = () => {
                                 Status
                               </div>
                               <div className="text-sm font-medium text-white">
-                                {isCompleted ? '✓ Done' : '⚡ Live'}
+                                {isCompleted ? '✓ Done' : isIncomplete ? '⚠ Incomplete' : isCancelled ? '✕ Cancelled' : isFailed ? '✕ Failed' : isPaused ? '⏸ Paused' : '⚡ Live'}
                               </div>
                             </div>
                           </div>
@@ -516,16 +661,69 @@ const IntegratedDashboard = () => {
                                   <div>
                                     <span className="text-white/60">True Positives:</span>
                                     <span className="ml-2 font-bold text-green-400">
-                                      {executionStatus.finalSummary.true_positives}
+                                      {executionStatus.finalSummary.true_positives ?? '—'}
                                     </span>
+                                    {!!executionStatus.verdictCount && executionStatus.aiSummary && (
+                                      <span className="ml-2 text-xs text-white/40">
+                                        (AI: {executionStatus.aiSummary.true_positives ?? '—'})
+                                      </span>
+                                    )}
                                   </div>
                                   <div>
                                     <span className="text-white/60">Critical:</span>
                                     <span className="ml-2 font-bold text-red-400">
-                                      {executionStatus.finalSummary.critical}
+                                      {executionStatus.finalSummary.critical ?? '—'}
                                     </span>
                                   </div>
                                 </div>
+                                {!!executionStatus.verdictCount && (
+                                  <div className="mt-2 text-xs text-white/50">
+                                    Includes {executionStatus.verdictCount} analyst {executionStatus.verdictCount === 1 ? 'verdict' : 'verdicts'}
+                                  </div>
+                                )}
+                              </AlertDescription>
+                            </Alert>
+                          )}
+
+                          {/* Gap Report - missing, truncated, late or re-delivered batches */}
+                          {batchReport && (batchReport.missing_batches.length > 0 || batchReport.truncated_batches.length > 0 || batchReport.late_batches.length > 0 || batchReport.duplicate_deliveries > 0) && (
+                            <Alert className="border-orange-500/50 bg-orange-500/10">
+                              <AlertCircle className="h-5 w-5 text-orange-400" />
+                              <AlertDescription className="ml-2 space-y-1 text-sm">
+                                {batchReport.missing_batches.length > 0 && (
+                                  <div>
+                                    <span className="font-medium">
+                                      {isFinished ? 'Missing batches' : 'Gaps so far'}:
+                                    </span>
+                                    <span className="ml-2 font-mono text-orange-300">
+                                      {batchReport.missing_batches.join(', ')}
+                                    </span>
+                                    <span className="ml-2 text-white/50">
+                                      ({batchReport.received_batches.length}/{batchReport.total_batches ?? '?'} received)
+                                    </span>
+                                  </div>
+                                )}
+                                {batchReport.truncated_batches.length > 0 && (
+                                  <div>
+                                    <span className="font-medium">Truncated batches:</span>
+                                    <span className="ml-2 font-mono text-orange-300">
+                                      {batchReport.truncated_batches.join(', ')}
+                                    </span>
+                                    <span className="ml-2 text-white/50">
+                                      ({batchReport.missing_items.toLocaleString()} results not received)
+                                    </span>
+                                  </div>
+                                )}
+                                {batchReport.late_batches.length > 0 && (
+                                  <div className="text-white/70">
+                                    Arrived after completion: {batchReport.late_batches.join(', ')}
+                                  </div>
+                                )}
+                                {batchReport.duplicate_deliveries > 0 && (
+                                  <div className="text-white/70">
+                                    Duplicate deliveries ignored: {batchReport.duplicate_deliveries}
+                                  </div>
+                                )}
                               </AlertDescription>
                             </Alert>
                           )}
@@ -541,6 +739,21 @@ const IntegratedDashboard = () => {
                         </div>
                       )}
 
+                      {/* New Run - clears the finished run from the URL */}
+                      {isFinished && (
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setStartTime(null);
+                            setSearchParams({});
+                          }}
+                          className="w-full border-purple-500/30"
+                        >
+                          <Play className="mr-2 h-4 w-4" />
+                          New Analysis
+                        </Button>
+                      )}
+
                       {/* Start Button */}
                       {!currentExecutionId && (
                         <Button
@@ -577,7 +790,7 @@ const IntegratedDashboard = () => {
                   {/* Elite Metrics - Aggressive keys ONLY before first batch */}
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
                     <EliteMetricCard
-                      key={!firstBatchReceived ? `metric-total-${forceUpdateCounter}` : 'metric-total'}
+                      key="metric-total"
                       title="Total Threats"
                       value={stats.total}
                       subtitle={`${stats.criticalRate}% critical`}
@@ -586,7 +799,7 @@ const IntegratedDashboard = () => {
                       glowColor="purple"
                     />
                     <EliteMetricCard
-                      key={!firstBatchReceived ? `metric-critical-${forceUpdateCounter}` : 'metric-critical'}
+                      key="metric-critical"
                       title="Critical Events"
                       value={stats.critical}
                       subtitle="Immediate action"
@@ -596,7 +809,7 @@ const IntegratedDashboard = () => {
                       glowColor="red"
                     />
                     <EliteMetricCard
-                      key={!firstBatchReceived ? `metric-blocked-${forceUpdateCounter}` : 'metric-blocked'}
+                      key="metric-blocked"
                       title="Blocked Attacks"
                       value={stats.blocked}
                       subtitle={`${stats.blockRate}% block rate`}
@@ -606,7 +819,7 @@ const IntegratedDashboard = () => {
                       glowColor="green"
                     />
                     <EliteMetricCard
-                      key={!firstBatchReceived ? `metric-risk-${forceUpdateCounter}` : 'metric-risk'}
+                      key="metric-risk"
                       title="Risk Score"
                       value={stats.avgRisk}
                       subtitle="Average threat level"
@@ -622,7 +835,7 @@ const IntegratedDashboard = () => {
                       <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-purple-400/50" />
                       <Input
                         type="text"
-                        placeholder="Search threats..."
+                        placeholder='Search or filter: severity:high AND risk>=70'
                         value={searchTerm}
                         onChange={(e) => setSearchTerm(e.target.value)}
                         className="w-full pl-10 bg-black/50 border-purple-500/20 text-white placeholder:text-white/30"
@@ -642,8 +855,12 @@ const IntegratedDashboard = () => {
                     <div className="flex items-center gap-2">
                       <Zap className="w-4 h-4 text-purple-400/50" />
                       <span className="text-sm text-purple-300/70">
-                        {filteredData.length} active threats
+                        {matchCount.toLocaleString()} active threats
+                        {queryResult?.has_more && isQueryActive && ` (top ${filteredData.length.toLocaleString()} by risk)`}
                       </span>
+                      {isQueryActive && isQueryFetching && (
+                        <Loader2 className="w-3 h-3 text-purple-400/50 animate-spin" />
+                      )}
                       {isProcessing && (
                         <Badge variant="outline" className="bg-purple-500/10 text-purple-300 border-purple-500/30 text-xs">
                           <Activity className="w-3 h-3 mr-1 animate-pulse" />
@@ -653,11 +870,31 @@ const IntegratedDashboard = () => {
                     </div>
                   </div>
 
+                  {/* Query feedback - syntax errors and the top attack types among the matches */}
+                  {isQueryActive && (queryError || topAttackTypes.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-2 -mt-4 px-1 text-xs">
+                      {queryError ? (
+                        <span className="text-red-400">{queryError.message}</span>
+                      ) : (
+                        <>
+                          <span className="text-white/40">Top attack types:</span>
+                          {topAttackTypes.map(facet => (
+                            <button
+                              key={facet.value}
+                              type="button"
+                              onClick={() => addAttackTypeFilter(facet.value)}
+                              className="px-2 py-0.5 rounded border border-purple-500/20 bg-purple-500/5 text-purple-300 hover:bg-purple-500/15"
+                            >
+                              {facet.value} <span className="text-white/40">{facet.count.toLocaleString()}</span>
+                            </button>
+                          ))}
+                        </>
+                      )}
+                    </div>
+                  )}
+
                   {/* Elite Data Table */}
-                  <EliteTable 
-                    key={`table-${forceUpdateCounter}`}
-                    data={filteredData} 
-                  />
+                  <EliteTable data={filteredData} executionId={currentExecutionId} baseQuery={filterQuery} />
                 </div>
               )}
 
@@ -669,10 +906,7 @@ const IntegratedDashboard = () => {
 
               {selectedView === 'analytics' && (
                 <div>
-                  <EliteCharts 
-                    key={`charts-${forceUpdateCounter}`}
-                    data={threatData} 
-                  />
+                  <EliteCharts executionId={currentExecutionId} />
                 </div>
               )}
 
@@ -690,9 +924,10 @@ const IntegratedDashboard = () => {
                       {stats.critical} Active
                     </Badge>
                   </div>
-                  <EliteTable 
-                    key={`threats-table-${forceUpdateCounter}`}
-                    data={filteredData.filter(t => t['Severity Level']?.toLowerCase() === 'high')} 
+                  <EliteTable
+                    data={filteredData.filter(t => t['Severity Level']?.toLowerCase() === 'high')}
+                    executionId={currentExecutionId}
+                    baseQuery={[filterQuery, 'severity:high'].filter(Boolean).join(' AND ')}
                   />
                 </div>
               )}
@@ -710,19 +945,12 @@ const IntegratedDashboard = () => {
                     >
                       <h3 className="text-lg font-medium mb-6 text-purple-300">Top Attack Origins</h3>
                       <div className="space-y-4">
-                        {Object.entries(
-                          threatData.reduce((acc: Record<string, number>, t: ThreatData) => {
-                            const country = t['Geo-location Data']?.split(',').pop()?.trim() || 'Unknown';
-                            acc[country] = (acc[country] || 0) + 1;
-                            return acc;
-                          }, {})
-                        )
-                          .sort(([,a], [,b]) => (b as number) - (a as number))
+                        {(aggregates?.countries ?? [])
                           .slice(0, 5)
-                          .map(([country, count]) => (
+                          .map(({ value: country, count }) => (
                             <div key={country} className="flex items-center justify-between">
                               <span className="text-white/80">{country}</span>
-                              <span className="text-purple-300">{count as number}</span>
+                              <span className="text-purple-300">{count}</span>
                             </div>
                           ))
                         }
@@ -736,17 +964,10 @@ const IntegratedDashboard = () => {
                     >
                       <h3 className="text-lg font-medium mb-6 text-purple-300">Attack Patterns</h3>
                       <div className="space-y-4">
-                        {Object.entries(
-                          threatData.reduce((acc: Record<string, number>, t: ThreatData) => {
-                            const type = t['Attack Type'] || 'Unknown';
-                            acc[type] = (acc[type] || 0) + 1;
-                            return acc;
-                          }, {})
-                        )
-                          .sort(([,a], [,b]) => (b as number) - (a as number))
+                        {(aggregates?.attack_types ?? [])
                           .slice(0, 5)
-                          .map(([type, count]) => {
-                            const percentage = (((count as number) / threatData.length) * 100).toFixed(1);
+                          .map(({ value: type, count }) => {
+                            const percentage = ((count / (aggregates?.total_results || 1)) * 100).toFixed(1);
                             return (
                               <div key={type} className="space-y-2">
                                 <div className="flex items-center justify-between">
@@ -0,0 +1,117 @@
+/**
+ * Notifications Menu - webhook / email channels and their delivery log
+ * Channels are configured on the backend (NOTIFICATION_CHANNELS)
+ */
+
+import { Bell, BellOff, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useNotifications, useNotificationDeliveries, useSendTestNotification } from '../hooks/useThreatAnalysis';
+import type { NotificationDelivery } from '../types/threat-analysis';
+import { cn } from '@/lib/utils';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+const EVENT_LABELS: Record<NotificationDelivery['event_types'][number], string> = {
+  critical_findings: 'Critical findings',
+  run_completed: 'Run completed',
+  run_failed: 'Run failed',
+  test: 'Test',
+};
+
+const STATUS_STYLES: Record<NotificationDelivery['status'], string> = {
+  delivered: 'text-green-400',
+  failed: 'text-red-400',
+  pending: 'text-yellow-300',
+};
+
+const NotificationsMenu = () => {
+  const { data } = useNotifications();
+  const { data: log } = useNotificationDeliveries(8);
+  const sendTest = useSendTestNotification();
+  const channels = data?.channels ?? [];
+  const failing = channels.filter(channel => channel.failed > 0 && channel.last_error).length;
+
+  const handleTest = (channel: string) => {
+    sendTest.mutate(channel, {
+      onSuccess: () => {
+        toast.success(`Test notification sent to ${channel}`, { duration: 3000 });
+      },
+      onError: (error) => {
+        toast.error(error.message, { duration: 4000 });
+      },
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="relative flex items-center gap-2 px-3 py-1.5 bg-purple-500/10 border border-purple-500/20 rounded text-xs font-medium text-purple-300/90 hover:border-purple-500/40 transition-colors"
+          title={data?.enabled ? `${channels.length} notification channels` : 'No notification channels configured'}
+        >
+          {data?.enabled ? <Bell className="w-3.5 h-3.5" /> : <BellOff className="w-3.5 h-3.5 text-white/40" />}
+          Notifications
+          {failing > 0 && <span className="w-1.5 h-1.5 rounded-full bg-red-500" />}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 bg-[#0f0f14] border-purple-500/20 text-white">
+        <DropdownMenuLabel className="text-xs text-white/50 uppercase tracking-wider">Notification channels</DropdownMenuLabel>
+        {channels.length === 0 && (
+          <p className="px-2 py-1.5 text-xs text-white/40">
+            None configured - set NOTIFICATION_CHANNELS on the backend to send Slack, Teams, Mattermost or email alerts
+          </p>
+        )}
+        {channels.map(channel => (
+          <div key={channel.name} className="flex items-center justify-between gap-2 px-2 py-1.5 text-sm">
+            <div className="min-w-0">
+              <p className="truncate text-white/80">
+                {channel.name}
+                <span className="ml-1.5 text-[10px] text-white/40">{channel.template}</span>
+              </p>
+              <p className="text-[10px] text-white/40" title={channel.last_error ?? undefined}>
+                {channel.delivered} sent
+                {channel.failed > 0 && <span className="text-red-400"> · {channel.failed} failed</span>}
+                {channel.pending_events > 0 && <span className="text-yellow-300"> · {channel.pending_events} waiting</span>}
+              </p>
+            </div>
+            <button
+              onClick={() => handleTest(channel.name)}
+              disabled={sendTest.isPending}
+              className="p-1 rounded text-white/40 hover:text-purple-300 hover:bg-purple-500/10 transition-colors disabled:opacity-40"
+              title="Send a test notification"
+            >
+              <Send className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        {log && log.deliveries.length > 0 && (
+          <>
+            <DropdownMenuSeparator className="bg-purple-500/10" />
+            <DropdownMenuLabel className="text-xs text-white/50 uppercase tracking-wider">Recent deliveries</DropdownMenuLabel>
+            {log.deliveries.map(delivery => (
+              <div key={delivery.delivery_id} className="px-2 py-1 text-[11px]" title={delivery.error ?? undefined}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-white/70">
+                    {delivery.event_types.map(type => EVENT_LABELS[type]).join(', ')}
+                    {delivery.digest && <span className="text-white/40"> ({delivery.events})</span>}
+                  </span>
+                  <span className={cn('shrink-0 font-mono', STATUS_STYLES[delivery.status])}>{delivery.status}</span>
+                </div>
+                <p className="text-white/40">
+                  {delivery.channel} · {new Date(delivery.created_at).toLocaleTimeString()}
+                </p>
+              </div>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationsMenu;
@@ -23,6 +23,7 @@ import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
 import { Alert, AlertDescription } from './ui/alert';
 import { Input } from './ui/input';
+import { formatDuration } from '../lib/utils';
 import { useTriggerAnalysis, useExecutionStatus } from '../hooks/useThreatAnalysis';
 import toast from 'react-hot-toast';
 import type { ThreatAnalysisWorkflowProps, WorkflowConfig, ThreatData } from '../types/threat-analysis';
@@ -40,19 +41,14 @@ const ThreatAnalysisWorkflow = ({ onComplete, onBack }: ThreatAnalysisWorkflowPr
   // Trigger mutation
   const { mutate: triggerWorkflow, isPending, error: triggerError } = useTriggerAnalysis();
   
-  // Poll execution status - faster polling for real-time updates
-  const { 
-    data: executionStatus,
-    dataUpdatedAt, // Track when data was last updated
-  } = useExecutionStatus(currentExecutionId, {
+  // Execution status - streamed live over SSE
+  const { data: executionStatus } = useExecutionStatus(currentExecutionId, {
     enabled: !!currentExecutionId,
-    refetchInterval: 1000, // Poll every 1 second
   });
 
   // Send progressive data updates to parent component
   useEffect(() => {
     console.log('🎯 [COMPONENT] Execution status changed:', executionStatus);
-    console.log('🕒 [COMPONENT] Data updated at:', new Date(dataUpdatedAt).toISOString());
     
     // If we have results and onComplete callback, send progressive updates
     if (executionStatus?.allResults && executionStatus.allResults.length > 0 && onComplete) {
@@ -85,7 +81,7 @@ const ThreatAnalysisWorkflow = ({ onComplete, onBack }: ThreatAnalysisWorkflowPr
     };
 
     fetchResults();
-  }, [executionStatus?.status, executionStatus?.allResults?.length, currentExecutionId, onComplete, executionStatus?.finalSummary, executionStatus?.allResults, dataUpdatedAt]);
+  }, [executionStatus?.status, executionStatus?.allResults?.length, currentExecutionId, onComplete, executionStatus?.finalSummary, executionStatus?.allResults]);
 
   // Handle workflow trigger
   const handleTrigger = () => {
@@ -115,57 +111,28 @@ const ThreatAnalysisWorkflow = ({ onComplete, onBack }: ThreatAnalysisWorkflowPr
     });
   };
 
-  const isProcessing = isPending || (!!currentExecutionId && executionStatus?.status !== 'completed');
   const isCompleted = executionStatus?.status === 'completed';
+  const isCancelled = executionStatus?.status === 'cancelled';
+  const isFailed = executionStatus?.status === 'failed';
+  const isIncomplete = executionStatus?.status === 'incomplete';
+  const isFinished = isCompleted || isIncomplete || isCancelled || isFailed;
+  const isProcessing = isPending || (!!currentExecutionId && !isFinished);
   // Use state to force re-renders for time-based updates
   const [currentTime, setCurrentTime] = useState(Date.now());
 
   // Update current time every second to keep elapsed time and progress updating - stop when completed
   useEffect(() => {
-    if (!startTime || isCompleted) return;
+    if (!startTime || isFinished) return;
     
     const interval = setInterval(() => {
       setCurrentTime(Date.now());
     }, 1000); // Update every second
     
     return () => clearInterval(interval);
-  }, [startTime, isCompleted]);
+  }, [startTime, isFinished]);
 
-  // Calculate estimated progress based on batches received and items processed
-  const calculateProgress = (): number => {
-    if (!executionStatus) return 0;
-    
-    if (executionStatus.status === 'completed') {
-      return 100;
-    }
-    
-    // Calculate based on actual results received vs expected
-    const resultsReceived = executionStatus.allResults?.length || 0;
-    const expectedTotal = config.max_items;
-    const resultsProgress = (resultsReceived / expectedTotal) * 100;
-    
-    // Also consider batches received
-    const expectedBatches = Math.ceil(config.max_items / config.batch_size);
-    const batchProgress = ((executionStatus.batchesReceived || 0) / expectedBatches) * 100;
-    
-    // Use the maximum of the two for best accuracy
-    const calculatedProgress = Math.max(resultsProgress, batchProgress);
-    
-    console.log('📊 [PROGRESS] Calculation:', {
-      resultsReceived,
-      expectedTotal,
-      resultsProgress: resultsProgress.toFixed(1),
-      batchesReceived: executionStatus.batchesReceived,
-      expectedBatches,
-      batchProgress: batchProgress.toFixed(1),
-      finalProgress: calculatedProgress.toFixed(1)
-    });
-    
-    // Cap at 99% until actually completed
-    return Math.min(calculatedProgress, 99);
-  };
-
-  const progress = calculateProgress();
+  // Authoritative progress from the backend (total_batches / progress_percent)
+  const progress = executionStatus?.progress ?? 0;
   
 
   // Format elapsed time - using currentTime state to force updates
@@ -217,7 +184,7 @@ const ThreatAnalysisWorkflow = ({ onComplete, onBack }: ThreatAnalysisWorkflowPr
               </div>
               {executionStatus?.found && (
                 <Badge variant={isCompleted ? "default" : "default"} className="text-sm px-3 py-1">
-                  {isCompleted ? '✓ Completed' : '⚡ Processing'}
+                  {isCompleted ? '✓ Completed' : isIncomplete ? '⚠ Incomplete' : isCancelled ? '✕ Cancelled' : isFailed ? '✕ Failed' : executionStatus?.status === 'paused' ? '⏸ Paused' : '⚡ Processing'}
                 </Badge>
               )}
             </div>
@@ -307,13 +274,21 @@ const ThreatAnalysisWorkflow = ({ onComplete, onBack }: ThreatAnalysisWorkflowPr
               </CardHeader>
               <CardContent className="space-y-6">
                 {/* Progress Bar - Hide when completed */}
-                {!isCompleted && (
+                {!isFinished && (
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm font-medium">
                       <span>Progress</span>
                       <span className="text-primary">{Math.round(progress)}%</span>
                     </div>
                     <Progress value={progress} className="h-3" />
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>
+                        ETA {executionStatus?.etaSeconds != null ? formatDuration(executionStatus.etaSeconds) : '--:--'}
+                      </span>
+                      <span>
+                        {executionStatus?.itemsPerSecond != null ? `${executionStatus.itemsPerSecond.toFixed(1)} items/s` : '-- items/s'}
+                      </span>
+                    </div>
                   </div>
                 )}
 
@@ -334,6 +309,9 @@ const ThreatAnalysisWorkflow = ({ onComplete, onBack }: ThreatAnalysisWorkflowPr
                     </div>
                     <div className="text-2xl font-bold">
                       {executionStatus?.batchesReceived || 0}
+                      {executionStatus?.totalBatches != null && (
+                        <span className="text-sm text-muted-foreground ml-1">/ {executionStatus.totalBatches}</span>
+                      )}
                     </div>
                   </div>
 
@@ -344,7 +322,7 @@ const ThreatAnalysisWorkflow = ({ onComplete, onBack }: ThreatAnalysisWorkflowPr
                     </div>
                     <div className="text-2xl font-bold">
                       {executionStatus?.allResults?.length || 0}
-                      <span className="text-sm text-muted-foreground ml-1">/ {config.max_items}</span>
+                      <span className="text-sm text-muted-foreground ml-1">/ {executionStatus?.totalItems ?? config.max_items}</span>
                     </div>
                   </div>
 
@@ -354,7 +332,7 @@ const ThreatAnalysisWorkflow = ({ onComplete, onBack }: ThreatAnalysisWorkflowPr
                       Status
                     </div>
                     <div className="text-sm font-medium">
-                      {isCompleted ? '✓ Completed' : '⚡ Processing'}
+                      {isCompleted ? '✓ Completed' : isIncomplete ? '⚠ Incomplete' : isCancelled ? '✕ Cancelled' : isFailed ? '✕ Failed' : executionStatus?.status === 'paused' ? '⏸ Paused' : '⚡ Processing'}
                     </div>
                   </div>
                 </div>
@@ -369,25 +347,35 @@ const ThreatAnalysisWorkflow = ({ onComplete, onBack }: ThreatAnalysisWorkflowPr
                         <div>
                           <span className="text-muted-foreground">True Positives:</span>
                           <span className="ml-2 font-bold text-green-600">
-                            {executionStatus.finalSummary.true_positives}
+                            {executionStatus.finalSummary.true_positives ?? '—'}
                           </span>
+                          {!!executionStatus.verdictCount && executionStatus.aiSummary && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              (AI: {executionStatus.aiSummary.true_positives ?? '—'})
+                            </span>
+                          )}
                         </div>
                         <div>
                           <span className="text-muted-foreground">False Positives:</span>
                           <span className="ml-2 font-bold">
-                            {executionStatus.finalSummary.false_positives}
+                            {executionStatus.finalSummary.false_positives ?? '—'}
                           </span>
+                          {!!executionStatus.verdictCount && executionStatus.aiSummary && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              (AI: {executionStatus.aiSummary.false_positives ?? '—'})
+                            </span>
+                          )}
                         </div>
                         <div>
                           <span className="text-muted-foreground">Critical:</span>
                           <span className="ml-2 font-bold text-red-600">
-                            {executionStatus.finalSummary.critical}
+                            {executionStatus.finalSummary.critical ?? '—'}
                           </span>
                         </div>
                         <div>
                           <span className="text-muted-foreground">High:</span>
                           <span className="ml-2 font-bold text-orange-600">
-                            {executionStatus.finalSummary.high}
+                            {executionStatus.finalSummary.high ?? '—'}
                           </span>
                         </div>
                       </div>
@@ -85,7 +85,7 @@ interface MarkerData {
 }
 
 // Fast geocoding using offline city database
-const geocodeLocation = (locationString: string): { lat: number; lng: number; country: string } | null => {
+const geocodeLocation = (locationString: string | undefined): { lat: number; lng: number; country: string } | null => {
   if (!locationString) return null;
   
   // Build index on first call
@@ -0,0 +1,139 @@
+/**
+ * Verdict Control - overrule the Dual-AI consensus on a result
+ * Shown in EliteTable's expanded row: the AI verdict, the analyst verdict
+ * (who, why, when) and the actions to mark TP / FP with a reason or clear it
+ */
+
+import { useState } from 'react';
+import { Gavel, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { getAnalystName } from '@/lib/analyst';
+import { VERDICT_LABELS, VERDICT_STYLES } from '@/lib/verdicts';
+import { useSetVerdict, useClearVerdict } from '../hooks/useThreatAnalysis';
+import type { ThreatData, Verdict } from '../types/threat-analysis';
+
+interface VerdictControlProps {
+  result: ThreatData;
+  executionId: string;
+  eventId: string;
+}
+
+const VerdictControl = ({ result, executionId, eventId }: VerdictControlProps) => {
+  const [marking, setMarking] = useState<Verdict | null>(null);
+  const [reason, setReason] = useState('');
+  const { mutate: saveVerdict, isPending: isSaving } = useSetVerdict();
+  const { mutate: removeVerdict, isPending: isClearing } = useClearVerdict();
+  const overruled = result.analyst_verdict;
+  const aiVerdict = overruled ? result.ai_classification : result.consensus_classification;
+
+  const openDialog = (verdict: Verdict) => {
+    setReason(verdict === overruled?.verdict ? overruled.reason : '');
+    setMarking(verdict);
+  };
+
+  const handleSave = () => {
+    if (!marking || !reason.trim()) return;
+    saveVerdict(
+      { executionId, eventId, request: { verdict: marking, reason: reason.trim(), analyst: getAnalystName() || null } },
+      {
+        onSuccess: (verdict) => {
+          toast.success(`Marked ${VERDICT_LABELS[verdict.verdict].toLowerCase()}`, { duration: 3000 });
+          setMarking(null);
+        },
+        onError: (error) => toast.error(error.message, { duration: 4000 }),
+      }
+    );
+  };
+
+  const handleClear = () => {
+    removeVerdict({ executionId, eventId }, {
+      onSuccess: () => toast.success('Verdict cleared - back to the AI verdict', { duration: 3000 }),
+      onError: (error) => toast.error(error.message, { duration: 4000 }),
+    });
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex justify-between items-center p-2 bg-black/30 rounded border border-purple-500/10">
+        <span className="text-white/60">AI Verdict</span>
+        <span className={cn('text-cyan-400', overruled && 'line-through text-white/40')}>{aiVerdict ?? 'UNKNOWN'}</span>
+      </div>
+      {overruled && (
+        <div className={cn('p-2 bg-black/30 rounded border', VERDICT_STYLES[overruled.verdict])}>
+          <div className="flex justify-between items-center">
+            <span className="text-white/60">Analyst Verdict</span>
+            <span className="font-medium">{overruled.verdict}</span>
+          </div>
+          <p className="mt-1 text-xs text-white/70 whitespace-pre-wrap">{overruled.reason}</p>
+          <p className="mt-1 text-[10px] text-white/40">
+            {overruled.analyst ?? 'Unknown analyst'} · {new Date(overruled.at).toLocaleString()}
+          </p>
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        {(['TRUE_POSITIVE', 'FALSE_POSITIVE'] as const).map(verdict => (
+          <button
+            key={verdict}
+            onClick={() => openDialog(verdict)}
+            disabled={isSaving || isClearing}
+            className={cn(
+              'flex items-center gap-1.5 px-2 py-1 rounded border text-xs transition-colors hover:bg-white/5 disabled:opacity-40',
+              VERDICT_STYLES[verdict]
+            )}
+          >
+            <Gavel className="w-3 h-3" />
+            {verdict === 'TRUE_POSITIVE' ? 'Mark TP' : 'Mark FP'}
+          </button>
+        ))}
+        {overruled && (
+          <button
+            onClick={handleClear}
+            disabled={isSaving || isClearing}
+            title="Clear the analyst verdict"
+            className="flex items-center gap-1.5 px-2 py-1 rounded border border-purple-500/20 text-xs text-white/60 hover:text-white transition-colors disabled:opacity-40"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <Dialog open={!!marking} onOpenChange={(open) => !open && setMarking(null)}>
+        <DialogContent className="bg-[#0f0f14] border-purple-500/20 text-white">
+          <DialogHeader>
+            <DialogTitle>Mark as {marking ? VERDICT_LABELS[marking].toLowerCase() : ''}</DialogTitle>
+            <DialogDescription className="text-white/50">
+              {result['Attack Type']} from {result['Source IP Address']} - the AI said {aiVerdict ?? 'UNKNOWN'}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Reason, e.g. authorised internal pentest"
+            className="bg-black/50 border-purple-500/20"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setMarking(null)}>Cancel</Button>
+            <Button size="sm" onClick={handleSave} disabled={!reason.trim() || isSaving}>
+              Save verdict
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default VerdictControl;
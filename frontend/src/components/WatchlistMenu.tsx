@@ -0,0 +1,102 @@
+/**
+ * Watchlist Menu - import MISP events as IOC watchlists
+ * Results matching a watchlist are highlighted in EliteTable
+ */
+
+import { useRef, type ChangeEvent } from 'react';
+import { Eye, Upload, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useWatchlists, useImportWatchlist, useDeleteWatchlist } from '../hooks/useThreatAnalysis';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+const WatchlistMenu = () => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { data } = useWatchlists();
+  const importWatchlist = useImportWatchlist();
+  const deleteWatchlist = useDeleteWatchlist();
+  const watchlists = data?.watchlists ?? [];
+  const iocCount = watchlists.reduce((sum, watchlist) => sum + watchlist.ioc_count, 0);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after an edit
+    event.target.value = '';
+    if (!file) return;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      toast.error(`${file.name} is not valid JSON`, { duration: 4000 });
+      return;
+    }
+
+    importWatchlist.mutate(json, {
+      onSuccess: (watchlist) => {
+        const skipped = watchlist.skipped_attributes > 0 ? ` (${watchlist.skipped_attributes} unsupported attributes skipped)` : '';
+        toast.success(`${watchlist.replaced ? 'Updated' : 'Imported'} "${watchlist.name}": ${watchlist.ioc_count} IOCs${skipped}`, {
+          duration: 4000,
+        });
+      },
+      onError: (error) => {
+        toast.error(`Import failed: ${error.message}`, { duration: 4000 });
+      },
+    });
+  };
+
+  return (
+    <>
+      <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex items-center gap-2 px-3 py-1.5 bg-amber-500/10 border border-amber-500/20 rounded text-xs font-medium text-amber-300/90 hover:border-amber-500/40 transition-colors">
+            <Eye className="w-3.5 h-3.5" />
+            Watchlists
+            {iocCount > 0 && <span className="font-mono text-amber-200">{iocCount}</span>}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72 bg-[#0f0f14] border-purple-500/20 text-white">
+          <DropdownMenuLabel className="text-xs text-white/50 uppercase tracking-wider">IOC watchlists</DropdownMenuLabel>
+          {watchlists.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-white/40">No watchlists yet - import a MISP event to highlight its IOCs</p>
+          )}
+          {watchlists.map(watchlist => (
+            <div key={watchlist.watchlist_id} className="flex items-center justify-between gap-2 px-2 py-1.5 text-sm">
+              <div className="min-w-0">
+                <p className="truncate text-white/80">{watchlist.name}</p>
+                <p className="text-[10px] text-white/40">
+                  {watchlist.ioc_count} IOCs · {new Date(watchlist.imported_at).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => deleteWatchlist.mutate(watchlist.watchlist_id)}
+                className="p-1 rounded text-white/40 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                title="Remove watchlist"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <DropdownMenuSeparator className="bg-purple-500/10" />
+          <DropdownMenuItem
+            disabled={importWatchlist.isPending}
+            onSelect={() => fileInput.current?.click()}
+            className="text-purple-300 focus:bg-purple-500/10 focus:text-purple-200"
+          >
+            <Upload />
+            {importWatchlist.isPending ? 'Importing...' : 'Import MISP event'}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
+
+export default WatchlistMenu;
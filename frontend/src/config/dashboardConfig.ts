@@ -82,8 +82,8 @@ export const dashboardConfig = {
   features: {
     enableSearch: true,
     enableFilters: true,
-    enableExport: false, // Future feature
-    enableNotifications: false, // Future feature
+    enableExport: true, // CSV / NDJSON / STIX 2.1 / MISP / ECS downloads in EliteTable
+    enableNotifications: true, // Channel status and delivery log for the backend's webhook / email notifications
     showGeolocation: true,
     showTimeline: true,
   }
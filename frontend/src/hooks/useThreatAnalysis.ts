@@ -1,24 +1,120 @@
 /**
  * TanStack Query hooks for Threat Analysis
- * Handles workflow triggering, progress polling, and caching
+ * Handles workflow triggering, live execution streaming, and caching
  */
 
-import { useQuery, useMutation, useQueryClient, UseQueryResult, UseMutationResult } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData, QueryClient, UseQueryResult, UseMutationResult } from '@tanstack/react-query';
+import { eventIdOf, withVerdict } from '@/lib/verdicts';
 import {
   triggerThreatAnalysis,
   getExecutionStatus,
+  getExecutionEventsUrl,
+  toStatusProgress,
+  requestExecutionControl,
   getAllExecutions,
+  getExecutionBreakdown,
+  queryExecutionResults,
+  getExecutionAggregates,
+  getWatchlists,
+  importMispWatchlist,
+  deleteWatchlist,
+  getNotifications,
+  getNotificationDeliveries,
+  sendTestNotification,
+  getAlerts,
+  updateAlertStatus,
+  getAlertRules,
+  saveAlertRule,
+  deleteAlertRule,
+  previewAlertRule,
+  getCases,
+  getCase,
+  createCase,
+  updateCase,
+  addCaseNote,
+  attachCaseEvents,
+  detachCaseEvent,
+  setVerdict,
+  clearVerdict,
+  getDetectionMetrics,
   checkCallbackServerHealth,
 } from '../services/threatAnalysisApi';
 import type {
   WorkflowConfig,
   TriggerResponse,
   ExecutionStatus,
+  ExecutionResponse,
   AllExecutionsResponse,
+  ExecutionBreakdown,
+  ThreatQueryParams,
+  ThreatQueryResponse,
+  AggregateParams,
+  ExecutionAggregates,
+  WatchlistsResponse,
+  WatchlistImportResponse,
+  NotificationsResponse,
+  NotificationDeliveriesResponse,
+  NotificationDelivery,
+  AlertRule,
+  AlertRuleInput,
+  AlertRulesResponse,
+  AlertsResponse,
+  AlertFilters,
+  AlertAction,
+  AlertActionRequest,
+  ThreatAlert,
+  AlertPreviewResponse,
+  CaseFilters,
+  CasesResponse,
+  ThreatCase,
+  ThreatCaseDetail,
+  NewCaseRequest,
+  CaseUpdateRequest,
+  CaseEventSelector,
+  ThreatVerdict,
+  VerdictRequest,
+  DetectionMetricsResponse,
   HealthCheckResponse,
   QueryOptions,
+  BatchCompletedEvent,
+  ExecutionCompletedEvent,
+  AlertEvent,
+  VerdictEvent,
 } from '../types/threat-analysis';
 
+/**
+ * Apply a verdict change to a run's cached results, then refetch what it moves
+ * Status fetches only page in new results, so the cached row is patched here
+ */
+const applyVerdictChange = (
+  queryClient: QueryClient,
+  executionId: string,
+  eventId: string,
+  verdict: ThreatVerdict | null
+) => {
+  const queryKey = ['execution', executionId];
+  const current = queryClient.getQueryData<ExecutionStatus>(queryKey);
+
+  if (current?.allResults) {
+    queryClient.setQueryData<ExecutionStatus>(queryKey, {
+      ...current,
+      allResults: current.allResults.map((result, index) =>
+        eventIdOf(result, executionId, index) === eventId ? withVerdict(result, verdict) : result
+      ),
+    });
+  }
+
+  // Summary counts, server-side queries, charts and cases all read the verdict
+  queryClient.invalidateQueries({ queryKey });
+  queryClient.invalidateQueries({ queryKey: ['execution-query', executionId] });
+  queryClient.invalidateQueries({ queryKey: ['execution-aggregates', executionId] });
+  queryClient.invalidateQueries({ queryKey: ['execution-breakdown', executionId] });
+  queryClient.invalidateQueries({ queryKey: ['executions'] });
+  queryClient.invalidateQueries({ queryKey: ['case'] });
+  queryClient.invalidateQueries({ queryKey: ['detection-metrics'] });
+};
+
 /**
  * Mutation hook to trigger threat analysis workflow
  * @returns Mutation object with trigger function and status
@@ -39,7 +135,7 @@ export const useTriggerAnalysis = (): UseMutationResult<TriggerResponse, Error,
         found: true,
         executionId: data.execution_id,
         status: 'processing',
-        progress: 0,
+        ...toStatusProgress(data.progress),
       };
       
       console.log('💾 [HOOK] Setting initial query data:', initialData);
@@ -54,7 +150,139 @@ export const useTriggerAnalysis = (): UseMutationResult<TriggerResponse, Error,
 };
 
 /**
- * Query hook to poll execution status with automatic refetching
+ * Subscribe to an execution's Server-Sent Events stream and merge each
+ * batch into the ['execution', id] query cache as it arrives
+ * @param executionId - Execution ID to stream
+ * @param enabled - Whether to open the stream
+ * @returns Connection state of the stream
+ */
+export const useExecutionStream = (
+  executionId: string | null,
+  enabled = true
+): { isConnected: boolean } => {
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !executionId) return;
+
+    const queryKey = ['execution', executionId];
+    const source = new EventSource(getExecutionEventsUrl(executionId));
+
+    source.onopen = () => {
+      console.log('📡 [STREAM] Connected:', executionId);
+      setIsConnected(true);
+    };
+
+    // EventSource reconnects on its own; fall back to polling meanwhile
+    source.onerror = () => {
+      console.warn('⚠️ [STREAM] Disconnected, falling back to polling:', executionId);
+      setIsConnected(false);
+    };
+
+    source.addEventListener('batch_completed', (message) => {
+      const event: BatchCompletedEvent = JSON.parse((message as MessageEvent).data);
+
+      // Server-side queries and chart aggregates now cover one more batch
+      queryClient.invalidateQueries({ queryKey: ['execution-query', executionId] });
+      queryClient.invalidateQueries({ queryKey: ['execution-aggregates', executionId] });
+      const current = queryClient.getQueryData<ExecutionStatus>(queryKey);
+      const received = current?.allResults?.length ?? 0;
+
+      // We missed something (e.g. a batch landed before we subscribed) - refetch from the cursor
+      if (!current?.found || event.results_offset > received) {
+        console.log('🔁 [STREAM] Gap detected, refetching:', { received, offset: event.results_offset });
+        queryClient.invalidateQueries({ queryKey });
+        return;
+      }
+
+      const newResults = event.results.slice(received - event.results_offset);
+      console.log(`📦 [STREAM] Batch ${event.batch_number}/${event.total_batches}: +${newResults.length} results`);
+
+      queryClient.setQueryData<ExecutionStatus>(queryKey, {
+        ...current,
+        allResults: [...(current.allResults || []), ...newResults],
+        batchesReceived: event.batches_received,
+        totalResultsCount: event.total_results_count,
+        resultsCursor: event.next_cursor,
+        ...toStatusProgress(event.progress),
+      });
+    });
+
+    // An alert rule fired (or a repeat folded in), or another analyst changed an alert's state
+    source.addEventListener('alert', (message) => {
+      const event: AlertEvent = JSON.parse((message as MessageEvent).data);
+      console.log(`🚨 [STREAM] Alert ${event.action ?? (event.folded ? 'repeated' : 'raised')}:`, event.alert.title);
+      queryClient.invalidateQueries({ queryKey: ['alerts'] });
+    });
+
+    // An analyst (maybe in another tab) overruled the AI on a result, or cleared that
+    source.addEventListener('verdict', (message) => {
+      const event: VerdictEvent = JSON.parse((message as MessageEvent).data);
+      console.log(`⚖️ [STREAM] Verdict on ${event.event_id}:`, event.verdict?.verdict ?? 'cleared');
+      applyVerdictChange(queryClient, executionId, event.event_id, event.verdict);
+    });
+
+    source.addEventListener('completed', (message) => {
+      const event: ExecutionCompletedEvent = JSON.parse((message as MessageEvent).data);
+      const current = queryClient.getQueryData<ExecutionStatus>(queryKey);
+      console.log('✅ [STREAM] Execution completed:', executionId);
+
+      if (current?.found) {
+        queryClient.setQueryData<ExecutionStatus>(queryKey, {
+          ...current,
+          status: event.status,
+          ...toStatusProgress(event.progress),
+          batchReport: event.batch_report,
+          completedTime: event.completed_time ?? undefined,
+          finalSummary: event.final_summary ?? undefined,
+          aiSummary: event.ai_final_summary ?? undefined,
+          verdictCount: event.verdict_count,
+          batchesReceived: event.batches_received,
+          totalResultsCount: event.total_results_count,
+        });
+      }
+
+      // Reconcile any results the stream didn't deliver, then stop streaming
+      queryClient.invalidateQueries({ queryKey });
+      source.close();
+      setIsConnected(false);
+    });
+
+    // Pause / resume requests and n8n's confirmations - refetch the execution record
+    ['control', 'paused', 'resumed'].forEach((type) => {
+      source.addEventListener(type, () => {
+        console.log(`🎛️ [STREAM] ${type}:`, executionId);
+        queryClient.invalidateQueries({ queryKey });
+      });
+    });
+
+    source.addEventListener('cancelled', () => {
+      console.log('🛑 [STREAM] Execution cancelled:', executionId);
+      queryClient.invalidateQueries({ queryKey });
+      source.close();
+      setIsConnected(false);
+    });
+
+    source.addEventListener('failed', () => {
+      console.log('❌ [STREAM] Execution failed:', executionId);
+      queryClient.invalidateQueries({ queryKey });
+      source.close();
+      setIsConnected(false);
+    });
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [executionId, enabled, queryClient]);
+
+  return { isConnected };
+};
+
+/**
+ * Query hook for execution status, kept live by the SSE stream
+ * Polling only runs as a fallback while the stream is disconnected
  * @param executionId - Execution ID to monitor
  * @param options - Query options
  * @returns Query object with execution status
@@ -65,58 +293,74 @@ export const useExecutionStatus = (
 ): UseQueryResult<ExecutionStatus, Error> => {
   const {
     enabled = true,
-    refetchInterval = 1000, // Poll every 1 second for faster updates
+    refetchInterval = 5000, // Fallback polling while the stream is down
   } = options;
 
-  console.log('🔄 [HOOK] useExecutionStatus called with:', { executionId, enabled });
+  const queryClient = useQueryClient();
+  const isEnabled = enabled && !!executionId;
+  const { isConnected } = useExecutionStream(executionId, isEnabled);
 
   return useQuery({
     queryKey: ['execution', executionId],
     queryFn: () => {
-      console.log('🔍 [HOOK] Fetching execution status...');
-      return getExecutionStatus(executionId!);
+      // Resume from the cached cursor so only new results are downloaded
+      const previous = queryClient.getQueryData<ExecutionStatus>(['execution', executionId]);
+      return getExecutionStatus(executionId!, previous);
     },
-    enabled: enabled && !!executionId,
+    enabled: isEnabled,
     
-    // Keep polling until completed - ALWAYS return the interval to keep updating
     refetchInterval: (query) => {
       const data = query.state.data;
-      console.log('⏱️ [HOOK] Refetch interval check:', {
-        hasData: !!data,
-        status: data?.status,
-        found: data?.found,
-        batchesReceived: data?.batchesReceived,
-        resultsCount: data?.allResults?.length || 0,
-        willContinuePolling: data && data.status !== 'completed' && data.found
-      });
       
-      // Stop polling if completed or not found
-      if (!data || data.status === 'completed' || !data.found) {
-        console.log('⏹️ [HOOK] Stopping polling');
+      // Stop polling if completed or not found, or while the stream delivers updates
+      if (!data || !data.found || isConnected || ['completed', 'incomplete', 'cancelled', 'failed'].includes(data.status)) {
         return false;
       }
-      console.log(`🔄 [HOOK] Continuing to poll every ${refetchInterval}ms`);
       return typeof refetchInterval === 'function' ? refetchInterval(data) : refetchInterval;
     },
     
-    // Force fresh data on every fetch - no caching while processing
-    refetchOnMount: true,
-    refetchOnWindowFocus: true,
+    refetchOnWindowFocus: !isConnected,
     refetchOnReconnect: true,
     
-    // Never consider data stale while processing
-    staleTime: 0, // Always consider stale to force updates
+    // The stream writes straight into the cache, so fetched data stays fresh
+    staleTime: 30 * 1000,
     gcTime: 5 * 60 * 1000, // Keep in cache for 5 minutes
     
     // Retry failed requests
     retry: 3,
     retryDelay: 1000,
-    
-    // CRITICAL: Force component re-render on every data change
-    notifyOnChangeProps: 'all', // Notify on all prop changes
-    
-    // Structural sharing disabled to ensure new data triggers re-renders
-    structuralSharing: false,
+  });
+};
+
+/**
+ * Mutation hook to pause, resume or cancel a running execution
+ * The cached status keeps the pending action until n8n confirms it
+ * @returns Mutation object taking { executionId, request }
+ */
+export const useExecutionControl = (): UseMutationResult<
+  ExecutionResponse,
+  Error,
+  { executionId: string; request: 'pause' | 'resume' | 'cancel' }
+> => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ executionId, request }) => requestExecutionControl(executionId, request),
+    onSuccess: (execution) => {
+      const queryKey = ['execution', execution.execution_id];
+      const current = queryClient.getQueryData<ExecutionStatus>(queryKey);
+
+      if (current?.found) {
+        queryClient.setQueryData<ExecutionStatus>(queryKey, {
+          ...current,
+          status: execution.status,
+          control: execution.control,
+        });
+      }
+    },
+    onError: (error) => {
+      console.error('❌ [HOOK] Execution control failed:', error);
+    },
   });
 };
 
@@ -142,6 +386,438 @@ export const useAllExecutions = (
   });
 };
 
+/**
+ * Query hook for an execution's severity mix and top attack types
+ * @param executionId - Execution ID to summarize (disabled when null)
+ * @returns Query object with the breakdown
+ */
+export const useExecutionBreakdown = (
+  executionId: string | null
+): UseQueryResult<ExecutionBreakdown, Error> => {
+  return useQuery({
+    queryKey: ['execution-breakdown', executionId],
+    queryFn: () => getExecutionBreakdown(executionId!),
+    enabled: !!executionId,
+    staleTime: 30 * 1000,
+  });
+};
+
+/**
+ * Query hook for a server-side filtered page of an execution's results
+ * @param executionId - Execution ID to query (disabled when null)
+ * @param params - Filter expression, sort, facets and paging
+ * @param options - enabled / refetchInterval; the SSE stream also refreshes it as batches land
+ * @returns Query object with the matching page and facet counts
+ */
+export const useExecutionQuery = (
+  executionId: string | null,
+  params: ThreatQueryParams,
+  options: QueryOptions = {}
+): UseQueryResult<ThreatQueryResponse, Error> => {
+  const { enabled = true, refetchInterval } = options;
+
+  return useQuery({
+    queryKey: ['execution-query', executionId, params],
+    queryFn: () => queryExecutionResults(executionId!, params),
+    enabled: enabled && !!executionId,
+    refetchInterval: typeof refetchInterval === 'number' ? refetchInterval : false,
+    // Keep showing the last matches while the next query loads
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+    // A malformed query won't parse on a retry either
+    retry: false,
+  });
+};
+
+/**
+ * Query hook for an execution's chart aggregates
+ * Refreshed by the SSE stream whenever a batch lands
+ * @param executionId - Execution ID to aggregate (disabled when null)
+ * @param params - Timeline bucket, number of buckets, top-N size and optional filter
+ * @returns Query object with the aggregates
+ */
+export const useExecutionAggregates = (
+  executionId: string | null,
+  params: AggregateParams = {},
+  options: QueryOptions = {}
+): UseQueryResult<ExecutionAggregates, Error> => {
+  const { enabled = true } = options;
+
+  return useQuery({
+    queryKey: ['execution-aggregates', executionId, params],
+    queryFn: () => getExecutionAggregates(executionId!, params),
+    enabled: enabled && !!executionId,
+    // Switching the time range keeps the previous charts on screen
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+};
+
+/**
+ * Query hook for the IOC watchlists the dashboard highlights
+ * @returns Query object with every watchlist and its IOCs
+ */
+export const useWatchlists = (): UseQueryResult<WatchlistsResponse, Error> => {
+  return useQuery({
+    queryKey: ['watchlists'],
+    queryFn: getWatchlists,
+    staleTime: 60 * 1000,
+  });
+};
+
+/**
+ * Mutation hook to import a MISP event as a watchlist
+ * @returns Mutation object taking the parsed MISP JSON
+ */
+export const useImportWatchlist = (): UseMutationResult<WatchlistImportResponse, Error, unknown> => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importMispWatchlist,
+    onSuccess: (watchlist) => {
+      console.log('✅ [HOOK] Watchlist imported:', watchlist.name, watchlist.ioc_count);
+      queryClient.invalidateQueries({ queryKey: ['watchlists'] });
+    },
+    onError: (error) => {
+      console.error('❌ [HOOK] Watchlist import failed:', error);
+    },
+  });
+};
+
+/**
+ * Mutation hook to delete a watchlist
+ * @returns Mutation object taking the watchlist id
+ */
+export const useDeleteWatchlist = (): UseMutationResult<void, Error, string> => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteWatchlist,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['watchlists'] });
+    },
+  });
+};
+
+/**
+ * Query hook for the notification channels and their delivery counters
+ * @returns Query object with channel status
+ */
+export const useNotifications = (): UseQueryResult<NotificationsResponse, Error> => {
+  return useQuery({
+    queryKey: ['notifications'],
+    queryFn: getNotifications,
+    refetchInterval: 30000,
+  });
+};
+
+/**
+ * Query hook for the most recent notification deliveries
+ * @param limit - Entries to fetch
+ * @returns Query object with the delivery log, newest first
+ */
+export const useNotificationDeliveries = (limit = 20): UseQueryResult<NotificationDeliveriesResponse, Error> => {
+  return useQuery({
+    queryKey: ['notifications', 'deliveries', limit],
+    queryFn: () => getNotificationDeliveries(limit),
+    refetchInterval: 30000,
+  });
+};
+
+/**
+ * Mutation hook to send a test notification
+ * @returns Mutation object taking the channel name
+ */
+export const useSendTestNotification = (): UseMutationResult<NotificationDelivery, Error, string> => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: sendTestNotification,
+    onSettled: () => {
+      // Failed tests are logged too
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+};
+
+/**
+ * Query hook for alerts raised by alert rules
+ * New alerts and state changes arrive through useExecutionStream while a run is live
+ * @param filters - Execution, status, severity, rule and time filters
+ * @param options - Query options
+ * @returns Query object with alerts, most recently seen first
+ */
+export const useAlerts = (
+  filters: AlertFilters = {},
+  options: QueryOptions = {}
+): UseQueryResult<AlertsResponse, Error> => {
+  return useQuery({
+    queryKey: ['alerts', filters],
+    queryFn: () => getAlerts(filters),
+    staleTime: 30 * 1000,
+    // Snoozes run out on their own
+    refetchInterval: 60 * 1000,
+    ...options,
+  });
+};
+
+/**
+ * Mutation hook to acknowledge, snooze, resolve or reopen an alert
+ * @returns Mutation object taking the alert id, action and request body
+ */
+export const useAlertAction = (): UseMutationResult<
+  ThreatAlert,
+  Error,
+  { alertId: string; action: AlertAction; request?: AlertActionRequest }
+> => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ alertId, action, request }) => updateAlertStatus(alertId, action, request),
+    onSuccess: (alert) => {
+      console.log(`✅ [HOOK] Alert ${alert.status}:`, alert.title);
+      queryClient.invalidateQueries({ queryKey: ['alerts'] });
+    },
+    onError: (error) => {
+      console.error('❌ [HOOK] Alert update failed:', error);
+    },
+  });
+};
+
+/**
+ * Query hook for the alert rules
+ * @returns Query object with every rule
+ */
+export const useAlertRules = (): UseQueryResult<AlertRulesResponse, Error> => {
+  return useQuery({
+    queryKey: ['alert-rules'],
+    queryFn: getAlertRules,
+    staleTime: 60 * 1000,
+  });
+};
+
+/**
+ * Mutation hook to create or replace an alert rule
+ * @returns Mutation object taking the rule and, when editing, its id
+ */
+export const useSaveAlertRule = (): UseMutationResult<AlertRule, Error, { rule: AlertRuleInput; ruleId?: string }> => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ rule, ruleId }) => saveAlertRule(rule, ruleId),
+    onSuccess: (rule) => {
+      console.log('✅ [HOOK] Alert rule saved:', rule.name);
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    },
+    onError: (error) => {
+      console.error('❌ [HOOK] Alert rule save failed:', error);
+    },
+  });
+};
+
+/**
+ * Mutation hook to delete an alert rule
+ * @returns Mutation object taking the rule id
+ */
+export const useDeleteAlertRule = (): UseMutationResult<void, Error, string> => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteAlertRule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    },
+  });
+};
+
+/**
+ * Mutation hook to try a draft rule against a stored execution
+ * @returns Mutation object taking the draft rule and execution id
+ */
+export const usePreviewAlertRule = (): UseMutationResult<AlertPreviewResponse, Error, { rule: AlertRuleInput; executionId: string }> => {
+  return useMutation({
+    mutationFn: ({ rule, executionId }) => previewAlertRule(rule, executionId),
+  });
+};
+
+/**
+ * Query hook for the case list
+ * @param filters - Status, priority, assignee, execution and source IP filters
+ * @param options - Additional query options
+ * @returns Query object with case summaries and per-status counts
+ */
+export const useCases = (
+  filters: CaseFilters = {},
+  options: QueryOptions = {}
+): UseQueryResult<CasesResponse, Error> => {
+  return useQuery({
+    queryKey: ['cases', filters],
+    queryFn: () => getCases(filters),
+    staleTime: 30 * 1000,
+    ...options,
+  });
+};
+
+/**
+ * Query hook for one case with its timeline and attached results
+ * @param caseId - Case to fetch
+ * @returns Query object with the case
+ */
+export const useCase = (caseId: string | null | undefined): UseQueryResult<ThreatCaseDetail, Error> => {
+  return useQuery({
+    queryKey: ['case', caseId],
+    queryFn: () => getCase(caseId!),
+    enabled: !!caseId,
+    staleTime: 30 * 1000,
+  });
+};
+
+// Every case mutation changes both the list and the case itself
+const useInvalidateCase = () => {
+  const queryClient = useQueryClient();
+  return (record: ThreatCase) => {
+    queryClient.invalidateQueries({ queryKey: ['cases'] });
+    queryClient.invalidateQueries({ queryKey: ['case', record.case_id] });
+  };
+};
+
+/**
+ * Mutation hook to open a case from results of a run
+ * @returns Mutation object taking the new case request
+ */
+export const useCreateCase = (): UseMutationResult<ThreatCase, Error, NewCaseRequest> => {
+  const invalidate = useInvalidateCase();
+
+  return useMutation({
+    mutationFn: createCase,
+    onSuccess: (record) => {
+      console.log('✅ [HOOK] Case opened:', record.title);
+      invalidate(record);
+    },
+    onError: (error) => {
+      console.error('❌ [HOOK] Opening case failed:', error);
+    },
+  });
+};
+
+/**
+ * Mutation hook to change a case's status, assignee, priority or title
+ * @returns Mutation object taking the case id and the changes
+ */
+export const useUpdateCase = (): UseMutationResult<ThreatCase, Error, { caseId: string; request: CaseUpdateRequest }> => {
+  const invalidate = useInvalidateCase();
+
+  return useMutation({
+    mutationFn: ({ caseId, request }) => updateCase(caseId, request),
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error('❌ [HOOK] Case update failed:', error);
+    },
+  });
+};
+
+/**
+ * Mutation hook to add a note to a case
+ * @returns Mutation object taking the case id, note text and analyst
+ */
+export const useAddCaseNote = (): UseMutationResult<ThreatCase, Error, { caseId: string; text: string; analyst?: string | null }> => {
+  const invalidate = useInvalidateCase();
+
+  return useMutation({
+    mutationFn: ({ caseId, text, analyst }) => addCaseNote(caseId, text, analyst),
+    onSuccess: invalidate,
+  });
+};
+
+/**
+ * Mutation hook to attach related results to a case
+ * @returns Mutation object taking the case id, result selector and analyst
+ */
+export const useAttachCaseEvents = (): UseMutationResult<
+  ThreatCase & { attached: number },
+  Error,
+  { caseId: string; selector: CaseEventSelector; analyst?: string | null }
+> => {
+  const invalidate = useInvalidateCase();
+
+  return useMutation({
+    mutationFn: ({ caseId, selector, analyst }) => attachCaseEvents(caseId, selector, analyst),
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error('❌ [HOOK] Attaching events failed:', error);
+    },
+  });
+};
+
+/**
+ * Mutation hook to detach a result from a case
+ * @returns Mutation object taking the case id, the result's run and id, and analyst
+ */
+export const useDetachCaseEvent = (): UseMutationResult<
+  ThreatCase,
+  Error,
+  { caseId: string; executionId: string; eventId: string; analyst?: string | null }
+> => {
+  const invalidate = useInvalidateCase();
+
+  return useMutation({
+    mutationFn: ({ caseId, executionId, eventId, analyst }) => detachCaseEvent(caseId, executionId, eventId, analyst),
+    onSuccess: invalidate,
+  });
+};
+
+/**
+ * Mutation hook to overrule the AI verdict on a result
+ * @returns Mutation object taking the run, the result's event id and the verdict
+ */
+export const useSetVerdict = (): UseMutationResult<
+  ThreatVerdict,
+  Error,
+  { executionId: string; eventId: string; request: VerdictRequest }
+> => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ executionId, eventId, request }) => setVerdict(executionId, eventId, request),
+    onSuccess: (verdict, { executionId, eventId }) => {
+      console.log(`✅ [HOOK] ${eventId} marked ${verdict.verdict}`);
+      applyVerdictChange(queryClient, executionId, eventId, verdict);
+    },
+    onError: (error) => {
+      console.error('❌ [HOOK] Saving verdict failed:', error);
+    },
+  });
+};
+
+/**
+ * Mutation hook to clear an analyst verdict, handing the result back to the AI
+ * @returns Mutation object taking the run and the result's event id
+ */
+export const useClearVerdict = (): UseMutationResult<void, Error, { executionId: string; eventId: string }> => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ executionId, eventId }) => clearVerdict(executionId, eventId),
+    onSuccess: (_, { executionId, eventId }) => {
+      applyVerdictChange(queryClient, executionId, eventId, null);
+    },
+  });
+};
+
+/**
+ * Query hook for detection quality - the AI scored against analyst verdicts
+ * @param executionIds - Runs to score (all runs when empty)
+ * @returns Query object with overall, per-breakdown and per-run scores
+ */
+export const useDetectionMetrics = (executionIds: string[] = []): UseQueryResult<DetectionMetricsResponse, Error> => {
+  return useQuery({
+    queryKey: ['detection-metrics', executionIds],
+    queryFn: () => getDetectionMetrics(executionIds),
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+};
+
 /**
  * Query hook to check callback server health
  * @returns Query object with health status
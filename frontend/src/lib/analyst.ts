@@ -0,0 +1,26 @@
+/**
+ * The analyst name stamped on alert state changes and case timelines
+ * There is no login yet, so each browser remembers the name it was given
+ */
+
+const STORAGE_KEY = 'deepsoul.analyst';
+
+export const getAnalystName = (): string => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const setAnalystName = (name: string): void => {
+  try {
+    if (name.trim()) {
+      localStorage.setItem(STORAGE_KEY, name.trim());
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Private mode / storage disabled - the name just isn't remembered
+  }
+};
@@ -0,0 +1,26 @@
+/**
+ * Shared case labels and styles for the case list, case detail and the
+ * results table's case menu
+ */
+
+import type { CasePriority, CaseStatus } from '../types/threat-analysis';
+
+export const CASE_STATUSES: CaseStatus[] = ['new', 'investigating', 'contained', 'closed'];
+export const CASE_PRIORITIES: CasePriority[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+export const CASE_STATUS_STYLES: Record<CaseStatus, string> = {
+  new: 'bg-blue-500/20 text-blue-300',
+  investigating: 'bg-purple-500/20 text-purple-300',
+  contained: 'bg-yellow-500/20 text-yellow-300',
+  closed: 'bg-green-500/20 text-green-300',
+};
+
+export const CASE_PRIORITY_STYLES: Record<CasePriority, string> = {
+  CRITICAL: 'text-red-400',
+  HIGH: 'text-orange-400',
+  MEDIUM: 'text-yellow-400',
+  LOW: 'text-purple-300',
+};
+
+export const shortExecutionId = (executionId: string): string =>
+  executionId.length > 12 ? `${executionId.slice(0, 12)}…` : executionId;
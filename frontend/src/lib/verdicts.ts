@@ -0,0 +1,35 @@
+/**
+ * Analyst verdict helpers shared by the results table and the execution cache
+ * Event ids follow the backend: _unique_id, or `<execution_id>:<index>`
+ */
+
+import type { ThreatData, ThreatVerdict, Verdict } from '../types/threat-analysis';
+
+export const VERDICT_LABELS: Record<Verdict, string> = {
+  TRUE_POSITIVE: 'True positive',
+  FALSE_POSITIVE: 'False positive',
+};
+
+export const VERDICT_STYLES: Record<Verdict, string> = {
+  TRUE_POSITIVE: 'border-red-500/30 text-red-300',
+  FALSE_POSITIVE: 'border-green-500/30 text-green-300',
+};
+
+export const eventIdOf = (result: ThreatData, executionId: string, index: number): string =>
+  result._unique_id || `${executionId}:${index}`;
+
+// What the API would now serve for a result - the verdict applied, or cleared
+export const withVerdict = (result: ThreatData, verdict: ThreatVerdict | null): ThreatData => {
+  if (!verdict) {
+    if (!result.analyst_verdict) return result;
+    const { ai_classification, analyst_verdict: _cleared, ...rest } = result;
+    return { ...rest, consensus_classification: ai_classification ?? undefined };
+  }
+
+  return {
+    ...result,
+    consensus_classification: verdict.verdict,
+    ai_classification: result.analyst_verdict ? result.ai_classification : result.consensus_classification ?? null,
+    analyst_verdict: { verdict: verdict.verdict, reason: verdict.reason, analyst: verdict.analyst, at: verdict.at },
+  };
+};
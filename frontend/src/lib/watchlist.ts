@@ -0,0 +1,60 @@
+import type { ThreatData, Watchlist, WatchlistIoc } from '../types/threat-analysis';
+
+export interface WatchlistMatch {
+  watchlist: string;
+  ioc: WatchlistIoc;
+}
+
+const parseIpv4 = (value: string): number | null => {
+  const parts = value.trim().split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((address, part) => address * 256 + Number(part), 0);
+};
+
+// IOC IPs may be single addresses or IPv4 CIDR ranges (10.0.0.0/8)
+const ipMatcher = (value: string): ((ip: string | undefined) => boolean) => {
+  const [address, bits] = value.split('/');
+  const network = bits !== undefined && /^\d{1,2}$/.test(bits) && address ? parseIpv4(address) : null;
+  if (network !== null && Number(bits) <= 32) {
+    const size = 2 ** (32 - Number(bits));
+    const base = Math.floor(network / size) * size;
+    return ip => {
+      const candidate = ip ? parseIpv4(ip) : null;
+      return candidate !== null && candidate >= base && candidate < base + size;
+    };
+  }
+  const needle = value.toLowerCase();
+  return ip => ip?.toLowerCase() === needle;
+};
+
+/**
+ * Build a function returning the watchlist IOCs a result matches.
+ * IPs match either end of the connection - a partner's source can be our
+ * destination - ports match either port, and traffic patterns match the
+ * attack signature or payload.
+ */
+export const buildWatchlistMatcher = (watchlists: Watchlist[]) => {
+  const checks = watchlists.flatMap(watchlist => watchlist.iocs.map(ioc => {
+    let test: (row: ThreatData) => boolean;
+    switch (ioc.type) {
+      case 'ip-src':
+      case 'ip-dst': {
+        const matches = ipMatcher(ioc.value);
+        test = row => matches(row['Source IP Address']) || matches(row['Destination IP Address']);
+        break;
+      }
+      case 'port':
+        test = row => row['Source Port'] === ioc.value || row['Destination Port'] === ioc.value;
+        break;
+      default: {
+        const needle = ioc.value.toLowerCase();
+        test = row => row['Attack Signature']?.toLowerCase() === needle
+          || !!row['Payload Data']?.toLowerCase().includes(needle);
+      }
+    }
+    return { watchlist: watchlist.name, ioc, test };
+  }));
+
+  return (row: ThreatData): WatchlistMatch[] =>
+    checks.filter(check => check.test(row)).map(({ watchlist, ioc }) => ({ watchlist, ioc }));
+};
@@ -1,40 +1,73 @@
 /**
  * Threat Analysis API Service
- * Handles communication with n8n webhook and callback server
+ * Handles communication with the callback server, which triggers n8n on our behalf
  */
 
 import type {
   WorkflowConfig,
   TriggerResponse,
   ExecutionStatus,
+  ExecutionProgress,
+  ExecutionResponse,
+  ExecutionBatchesResponse,
+  ExecutionResultsPage,
   AllExecutionsResponse,
+  ExecutionBreakdown,
+  ThreatQueryParams,
+  ThreatQueryResponse,
+  ExportFormat,
+  WatchlistsResponse,
+  WatchlistImportResponse,
+  NotificationsResponse,
+  NotificationDeliveriesResponse,
+  NotificationDelivery,
+  AlertRule,
+  AlertRuleInput,
+  AlertRulesResponse,
+  AlertsResponse,
+  AlertFilters,
+  AlertAction,
+  AlertActionRequest,
+  ThreatAlert,
+  AlertPreviewResponse,
+  CaseFilters,
+  CasesResponse,
+  ThreatCase,
+  ThreatCaseDetail,
+  NewCaseRequest,
+  CaseUpdateRequest,
+  CaseEventSelector,
+  ThreatVerdict,
+  VerdictsResponse,
+  VerdictRequest,
+  AggregateParams,
+  ExecutionAggregates,
+  DetectionMetricsResponse,
   HealthCheckResponse,
 } from '../types/threat-analysis';
 
-const N8N_WEBHOOK_URL = 'http://localhost:5678/webhook/analyze-threats';
 const CALLBACK_SERVER_URL = 'http://localhost:3001';
 
 /**
- * Trigger the n8n threat analysis workflow
+ * Trigger the n8n threat analysis workflow through the callback server
  * @param config - Workflow configuration
- * @returns Workflow execution response
+ * @returns Execution record for the new run
  */
 export const triggerThreatAnalysis = async (
   config: WorkflowConfig
 ): Promise<TriggerResponse> => {
   console.log('🚀 [API] Triggering n8n workflow with config:', config);
   
-  const requestBody = {
-    csv_path: config.csv_path || '/data/cybersecurity_attacks.csv',
-    callback_url: config.callback_url || `${CALLBACK_SERVER_URL}/callback`,
-    batch_size: config.batch_size || 50,
-    max_items: config.max_items || 200,
+  const requestBody: WorkflowConfig = {
+    batch_size: config.batch_size,
+    max_items: config.max_items,
+    ...(config.csv_path && { csv_path: config.csv_path }),
+    ...(config.callback_url && { callback_url: config.callback_url }),
   };
   
   console.log('📤 [API] Request body:', requestBody);
-  console.log('🔗 [API] Request URL:', N8N_WEBHOOK_URL);
   
-  const response = await fetch(N8N_WEBHOOK_URL, {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/executions`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -45,43 +78,137 @@ export const triggerThreatAnalysis = async (
   console.log('📥 [API] Response status:', response.status, response.statusText);
 
   if (!response.ok) {
-    console.error('❌ [API] Request failed:', response.status, response.statusText);
-    throw new Error(`Failed to trigger workflow: ${response.statusText}`);
+    const error = await response.json().catch(() => null);
+    console.error('❌ [API] Request failed:', response.status, error);
+    throw new Error(`Failed to trigger workflow: ${error?.message || response.statusText}`);
   }
 
-  const data = await response.json();
+  const data: TriggerResponse = await response.json();
   console.log('✅ [API] Workflow triggered successfully:', data);
   
   return data;
 };
 
+/**
+ * Get a single execution's metadata
+ * @param executionId - Execution ID to fetch
+ * @returns Execution record, or null if the server doesn't know it
+ */
+export const getExecution = async (
+  executionId: string
+): Promise<ExecutionResponse | null> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch execution: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get the batches received for an execution
+ * @param executionId - Execution ID to fetch
+ * @returns Batch records
+ */
+export const getExecutionBatches = async (
+  executionId: string
+): Promise<ExecutionBatchesResponse> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/batches`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch batches: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get one page of an execution's results
+ * @param executionId - Execution ID to fetch
+ * @param cursor - Cursor from a previous page (omit for the first page)
+ * @param limit - Page size
+ * @returns Results page with the cursor to resume from
+ */
+export const getExecutionResults = async (
+  executionId: string,
+  cursor?: string,
+  limit = 500
+): Promise<ExecutionResultsPage> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await fetch(
+    `${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/results?${params}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch results: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * URL of an execution's Server-Sent Events stream
+ * @param executionId - Execution ID to subscribe to
+ * @returns Stream URL for EventSource
+ */
+export const getExecutionEventsUrl = (executionId: string): string =>
+  `${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/events`;
+
+/**
+ * Download URL for an execution's results
+ * @param executionId - Execution ID to export
+ * @param format - csv, ndjson or stix (STIX 2.1 bundle)
+ * @param params - Optional filter expression and sort, as for queryExecutionResults
+ * @returns URL the browser can download directly
+ */
+export const getExecutionExportUrl = (
+  executionId: string,
+  format: ExportFormat,
+  params: Pick<ThreatQueryParams, 'q' | 'sort'> = {}
+): string => {
+  const search = new URLSearchParams({ format });
+  if (params.q) search.set('q', params.q);
+  if (params.sort) search.set('sort', params.sort);
+  return `${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/export?${search}`;
+};
+
+/**
+ * Map the backend's progress block onto ExecutionStatus fields
+ * @param progress - Progress from an execution response or stream event
+ * @returns Progress fields of ExecutionStatus
+ */
+export const toStatusProgress = (
+  progress: ExecutionProgress
+): Pick<ExecutionStatus, 'progress' | 'totalBatches' | 'totalItems' | 'etaSeconds' | 'itemsPerSecond'> => ({
+  progress: progress.percent,
+  totalBatches: progress.total_batches,
+  totalItems: progress.total_items,
+  etaSeconds: progress.eta_seconds,
+  itemsPerSecond: progress.items_per_second,
+});
+
 /**
  * Get execution status from callback server
+ * Only fetches results added since the previous status, using its cursor
  * @param executionId - Execution ID to check
+ * @param previous - Previously fetched status for the same execution
  * @returns Execution status
  */
 export const getExecutionStatus = async (
-  executionId: string
+  executionId: string,
+  previous?: ExecutionStatus
 ): Promise<ExecutionStatus> => {
   console.log('📊 [API] Fetching execution status for:', executionId);
-  
-  const response = await fetch(`${CALLBACK_SERVER_URL}/status`);
-  
-  if (!response.ok) {
-    console.error('❌ [API] Failed to fetch status:', response.status);
-    throw new Error(`Failed to fetch status: ${response.statusText}`);
-  }
 
-  const data: AllExecutionsResponse = await response.json();
-  console.log('📥 [API] Received status data:', {
-    total_executions: data.total_executions,
-    executions_count: data.executions.length,
-    timestamp: data.timestamp
-  });
-  
-  // Find the specific execution
-  const execution = data.executions.find(e => e.execution_id === executionId);
-  
+  const execution = await getExecution(executionId);
+
   if (!execution) {
     console.warn('⚠️ [API] Execution not found:', executionId);
     return {
@@ -92,51 +219,77 @@ export const getExecutionStatus = async (
     };
   }
 
-  console.log('✅ [API] Found execution:', {
-    execution_id: execution.execution_id,
-    batches_received: execution.batches_received,
-    results_count: execution.all_results?.length || 0,
-    has_final_summary: !!execution.final_summary,
-    completed: !!execution.completed_time
-  });
+  // Page through only the results we haven't seen yet
+  const allResults = [...(previous?.allResults || [])];
+  let cursor = previous?.resultsCursor;
+  let hasMore = allResults.length < execution.total_results_count;
 
-  // Calculate progress
-  const isCompleted = !!execution.completed_time;
-  const progress = isCompleted ? 100 : 0;
+  while (hasMore) {
+    const page = await getExecutionResults(executionId, cursor);
+    allResults.push(...page.results);
+    cursor = page.next_cursor;
+    hasMore = page.has_more;
+  }
 
   const result: ExecutionStatus = {
     found: true,
     executionId: execution.execution_id,
     startTime: execution.start_time,
-    completedTime: execution.completed_time,
+    completedTime: execution.completed_time ?? undefined,
     batchesReceived: execution.batches_received,
-    finalSummary: execution.final_summary,
-    allResults: execution.all_results || [], // Include full threat data
-    totalResultsCount: execution.total_results_count || 0,
-    progress,
-    status: isCompleted ? 'completed' : 'processing',
+    finalSummary: execution.final_summary ?? undefined,
+    aiSummary: execution.ai_final_summary ?? undefined,
+    verdictCount: execution.verdict_count,
+    allResults,
+    totalResultsCount: execution.total_results_count,
+    ...toStatusProgress(execution.progress),
+    status: execution.status,
+    control: execution.control,
+    batchReport: execution.batch_report,
+    resultsCursor: cursor,
   };
 
   console.log('📤 [API] Returning execution status:');
   console.log(`   🆔 Execution ID: ${result.executionId}`);
-  console.log(`   📊 Results count: ${result.allResults?.length || 0}`);
-  console.log(`   📦 Batches received: ${result.batchesReceived}`);
+  console.log(`   📊 Results count: ${allResults.length} (+${allResults.length - (previous?.allResults?.length || 0)} new)`);
+  console.log(`   📦 Batches received: ${result.batchesReceived}/${result.totalBatches ?? '?'} (${result.progress}%)`);
   console.log(`   ✅ Status: ${result.status}`);
-  console.log(`   🎯 Progress: ${result.progress}%`);
-  
-  if (result.allResults && result.allResults.length > 0) {
-    console.log(`   📝 Sample result:`, result.allResults[0]);
-  }
-  
+
   return result;
 };
 
 /**
- * Get all executions from callback server
- * @returns All executions
+ * Ask the workflow to pause, resume or cancel a run
+ * n8n acts on the request between batches and confirms via its callback
+ * @param executionId - Execution ID to control
+ * @param request - Control request
+ * @returns Execution record with the pending control action
+ */
+export const requestExecutionControl = async (
+  executionId: string,
+  request: 'pause' | 'resume' | 'cancel'
+): Promise<ExecutionResponse> => {
+  console.log(`🎛️ [API] Requesting ${request} for:`, executionId);
+
+  const response = await fetch(
+    `${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/${request}`,
+    { method: 'POST' }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.message || `Failed to ${request} execution: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get the run history from callback server
+ * @returns All executions (metadata only), newest first
  */
 export const getAllExecutions = async (): Promise<AllExecutionsResponse> => {
-  const response = await fetch(`${CALLBACK_SERVER_URL}/status`);
+  const response = await fetch(`${CALLBACK_SERVER_URL}/executions`);
   
   if (!response.ok) {
     throw new Error(`Failed to fetch executions: ${response.statusText}`);
@@ -145,6 +298,556 @@ export const getAllExecutions = async (): Promise<AllExecutionsResponse> => {
   return response.json();
 };
 
+/**
+ * Get an execution's severity mix and top attack types
+ * @param executionId - Execution ID to summarize
+ * @returns Breakdown of the execution's stored results
+ */
+export const getExecutionBreakdown = async (
+  executionId: string
+): Promise<ExecutionBreakdown> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/breakdown`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch breakdown: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Filter, sort and page through an execution's results on the server
+ * @param executionId - Execution ID to query
+ * @param params - Filter expression, sort, facets and paging
+ * @returns Matching page with total_matches and facet counts
+ */
+export const queryExecutionResults = async (
+  executionId: string,
+  params: ThreatQueryParams = {}
+): Promise<ThreatQueryResponse> => {
+  const search = new URLSearchParams();
+  if (params.q) search.set('q', params.q);
+  if (params.sort) search.set('sort', params.sort);
+  if (params.facets) search.set('facets', params.facets.join(','));
+  if (params.cursor) search.set('cursor', params.cursor);
+  if (params.limit) search.set('limit', String(params.limit));
+
+  console.log('🔎 [API] Querying results:', executionId, params.q || '(all)');
+
+  const response = await fetch(
+    `${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/query?${search}`
+  );
+
+  if (!response.ok) {
+    // Syntax errors come back as 400 with the parser's message
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.errors?.[0]?.message || error?.message || `Failed to query results: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get chart aggregates for an execution's results
+ * @param executionId - Execution ID to aggregate
+ * @param params - Timeline bucket, number of buckets, top-N size and optional filter
+ * @returns Compact aggregates (timeline, category counts, top lists)
+ */
+export const getExecutionAggregates = async (
+  executionId: string,
+  params: AggregateParams = {}
+): Promise<ExecutionAggregates> => {
+  const search = new URLSearchParams();
+  if (params.bucket) search.set('bucket', params.bucket);
+  if (params.last) search.set('last', String(params.last));
+  if (params.top) search.set('top', String(params.top));
+  if (params.q) search.set('q', params.q);
+
+  const response = await fetch(
+    `${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/aggregates?${search}`
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.errors?.[0]?.message || error?.message || `Failed to fetch aggregates: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get every IOC watchlist
+ * @returns Watchlists with their IOCs, newest import first
+ */
+export const getWatchlists = async (): Promise<WatchlistsResponse> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/watchlists`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get watchlists: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Import a MISP event as an IOC watchlist
+ * Re-importing the same event replaces its watchlist
+ * @param event - Parsed MISP event JSON
+ * @returns The stored watchlist
+ */
+export const importMispWatchlist = async (event: unknown): Promise<WatchlistImportResponse> => {
+  console.log('👁️ [API] Importing MISP watchlist');
+
+  const response = await fetch(`${CALLBACK_SERVER_URL}/watchlists`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(event),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.errors?.[0]?.message || error?.message || `Failed to import watchlist: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Delete an IOC watchlist
+ * @param watchlistId - Watchlist to remove
+ */
+export const deleteWatchlist = async (watchlistId: string): Promise<void> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/watchlists/${encodeURIComponent(watchlistId)}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete watchlist: ${response.statusText}`);
+  }
+};
+
+/**
+ * Get the notification channels and their delivery counters
+ * @returns Channel status
+ */
+export const getNotifications = async (): Promise<NotificationsResponse> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/notifications`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get notification channels: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get the notification delivery log, newest first
+ * @param limit - Entries to return (max 500)
+ * @returns Delivery log
+ */
+export const getNotificationDeliveries = async (limit = 20): Promise<NotificationDeliveriesResponse> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/notifications/deliveries?limit=${limit}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get notification deliveries: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Send a test notification to one channel, bypassing its throttle
+ * @param channel - Channel name
+ * @returns The delivery log entry
+ */
+export const sendTestNotification = async (channel: string): Promise<NotificationDelivery> => {
+  console.log('🔔 [API] Sending test notification:', channel);
+
+  const response = await fetch(`${CALLBACK_SERVER_URL}/notifications/test`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ channel }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.message || `Failed to send test notification: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get the alerts raised by alert rules, most recently seen first
+ * @param filters - Execution, status, severity, rule and time filters
+ * @returns Alerts plus per-status counts
+ */
+export const getAlerts = async (filters: AlertFilters = {}): Promise<AlertsResponse> => {
+  const params = new URLSearchParams();
+  if (filters.executionId) params.set('execution_id', filters.executionId);
+  if (filters.status?.length) params.set('status', filters.status.join(','));
+  if (filters.severity?.length) params.set('severity', filters.severity.join(','));
+  if (filters.ruleId) params.set('rule_id', filters.ruleId);
+  if (filters.since) params.set('since', filters.since);
+  if (filters.limit) params.set('limit', String(filters.limit));
+
+  const response = await fetch(`${CALLBACK_SERVER_URL}/alerts?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get alerts: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Acknowledge, snooze, resolve or reopen an alert - shared by every analyst
+ * @param alertId - Alert to update
+ * @param action - Lifecycle action
+ * @param request - Analyst, plus the snooze time or resolve reason
+ * @returns The updated alert
+ */
+export const updateAlertStatus = async (
+  alertId: string,
+  action: AlertAction,
+  request: AlertActionRequest = {}
+): Promise<ThreatAlert> => {
+  console.log(`🚨 [API] ${action} alert:`, alertId);
+
+  const response = await fetch(`${CALLBACK_SERVER_URL}/alerts/${encodeURIComponent(alertId)}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.errors?.[0]?.message || error?.message || `Failed to ${action} alert: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get every alert rule
+ * @returns Alert rules, oldest first
+ */
+export const getAlertRules = async (): Promise<AlertRulesResponse> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/alerts/rules`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get alert rules: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Create an alert rule, or replace one when a rule id is given
+ * @param rule - Rule fields
+ * @param ruleId - Existing rule to replace
+ * @returns The stored rule
+ */
+export const saveAlertRule = async (rule: AlertRuleInput, ruleId?: string): Promise<AlertRule> => {
+  console.log('🚨 [API] Saving alert rule:', rule.name);
+
+  const response = await fetch(
+    ruleId ? `${CALLBACK_SERVER_URL}/alerts/rules/${encodeURIComponent(ruleId)}` : `${CALLBACK_SERVER_URL}/alerts/rules`,
+    {
+      method: ruleId ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(rule),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    const detail = error?.errors?.[0];
+    throw new Error(detail ? `${detail.path.slice(1)} ${detail.message}` : error?.message || `Failed to save alert rule: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Delete an alert rule (alerts it already raised are kept)
+ * @param ruleId - Rule to remove
+ */
+export const deleteAlertRule = async (ruleId: string): Promise<void> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/alerts/rules/${encodeURIComponent(ruleId)}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete alert rule: ${response.statusText}`);
+  }
+};
+
+/**
+ * Replay a stored execution through a draft rule without saving anything
+ * @param rule - Draft rule fields
+ * @param executionId - Execution to replay
+ * @returns The alerts the rule would have raised
+ */
+export const previewAlertRule = async (rule: AlertRuleInput, executionId: string): Promise<AlertPreviewResponse> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/alerts/rules/preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rule, execution_id: executionId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    const detail = error?.errors?.[0];
+    throw new Error(detail ? `${detail.path.replace(/^\/rule\/?/, '')} ${detail.message}` : error?.message || `Failed to preview alert rule: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+// Validation errors carry the offending field as a JSON pointer
+const validationErrorMessage = (error: { message?: string; errors?: { path: string; message: string }[] } | null, fallback: string) => {
+  const detail = error?.errors?.[0];
+  if (!detail) return error?.message || fallback;
+  return detail.path === '/' ? detail.message : `${detail.path.slice(1)} ${detail.message}`;
+};
+
+/**
+ * Get analyst cases, most recently updated first
+ * @param filters - Status, priority, assignee, execution and source IP filters
+ * @returns Case summaries plus per-status counts
+ */
+export const getCases = async (filters: CaseFilters = {}): Promise<CasesResponse> => {
+  const params = new URLSearchParams();
+  if (filters.status?.length) params.set('status', filters.status.join(','));
+  if (filters.priority?.length) params.set('priority', filters.priority.join(','));
+  if (filters.assignee) params.set('assignee', filters.assignee);
+  if (filters.executionId) params.set('execution_id', filters.executionId);
+  if (filters.srcIp) params.set('src_ip', filters.srcIp);
+  if (filters.limit) params.set('limit', String(filters.limit));
+
+  const response = await fetch(`${CALLBACK_SERVER_URL}/cases?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get cases: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get a case with its timeline and the full results attached to it
+ * @param caseId - Case to fetch
+ */
+export const getCase = async (caseId: string): Promise<ThreatCaseDetail> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/cases/${encodeURIComponent(caseId)}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get case: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Open a case from results of a run, picked by _unique_id or source IP
+ * @param request - The results to attach plus optional title, assignee, priority and note
+ * @returns The new case
+ */
+export const createCase = async (request: NewCaseRequest): Promise<ThreatCase> => {
+  console.log('🗂️ [API] Opening case for execution:', request.execution_id);
+
+  const response = await fetch(`${CALLBACK_SERVER_URL}/cases`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(validationErrorMessage(error, `Failed to open case: ${response.statusText}`));
+  }
+
+  return response.json();
+};
+
+/**
+ * Change a case's status, assignee, priority or title
+ * @param caseId - Case to update
+ * @param request - Fields to change, plus the analyst making the change
+ * @returns The updated case
+ */
+export const updateCase = async (caseId: string, request: CaseUpdateRequest): Promise<ThreatCase> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/cases/${encodeURIComponent(caseId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(validationErrorMessage(error, `Failed to update case: ${response.statusText}`));
+  }
+
+  return response.json();
+};
+
+/**
+ * Add a note to a case's timeline
+ * @param caseId - Case to annotate
+ * @param text - Note text
+ * @param analyst - Analyst writing the note
+ * @returns The updated case
+ */
+export const addCaseNote = async (caseId: string, text: string, analyst?: string | null): Promise<ThreatCase> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/cases/${encodeURIComponent(caseId)}/notes`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, analyst }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(validationErrorMessage(error, `Failed to add note: ${response.statusText}`));
+  }
+
+  return response.json();
+};
+
+/**
+ * Attach related results - from any run - to a case; ones already on it are skipped
+ * @param caseId - Case to attach to
+ * @param selector - The results, by _unique_id or source IP
+ * @param analyst - Analyst attaching them
+ * @returns The updated case and how many results were new
+ */
+export const attachCaseEvents = async (
+  caseId: string,
+  selector: CaseEventSelector,
+  analyst?: string | null
+): Promise<ThreatCase & { attached: number }> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/cases/${encodeURIComponent(caseId)}/events`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...selector, analyst }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(validationErrorMessage(error, `Failed to attach events: ${response.statusText}`));
+  }
+
+  return response.json();
+};
+
+/**
+ * Detach a result from a case (the timeline keeps a record of it)
+ * @param caseId - Case to update
+ * @param executionId - Run the result belongs to
+ * @param eventId - The result's _unique_id
+ * @param analyst - Analyst detaching it
+ * @returns The updated case
+ */
+export const detachCaseEvent = async (
+  caseId: string,
+  executionId: string,
+  eventId: string,
+  analyst?: string | null
+): Promise<ThreatCase> => {
+  const params = new URLSearchParams();
+  if (analyst) params.set('analyst', analyst);
+
+  const response = await fetch(
+    `${CALLBACK_SERVER_URL}/cases/${encodeURIComponent(caseId)}/events/${encodeURIComponent(executionId)}/${encodeURIComponent(eventId)}?${params}`,
+    { method: 'DELETE' }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to detach event: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Score the AI consensus against analyst verdicts across runs
+ * @param executionIds - Runs to score (all runs when empty)
+ * @returns Precision / recall / F1, confusion matrix, breakdowns and per-run scores
+ */
+export const getDetectionMetrics = async (executionIds: string[] = []): Promise<DetectionMetricsResponse> => {
+  const search = new URLSearchParams();
+  if (executionIds.length > 0) search.set('execution_ids', executionIds.join(','));
+
+  const response = await fetch(`${CALLBACK_SERVER_URL}/executions/metrics?${search}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get detection metrics: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Get the analyst verdicts of a run, newest first
+ * @param executionId - Execution ID
+ */
+export const getVerdicts = async (executionId: string): Promise<VerdictsResponse> => {
+  const response = await fetch(`${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/verdicts`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get verdicts: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Overrule the AI on one result - replaces any earlier verdict on it
+ * @param executionId - Run the result belongs to
+ * @param eventId - The result's _unique_id (or `<execution_id>:<index>`)
+ * @param request - TRUE_POSITIVE / FALSE_POSITIVE, a reason and the analyst
+ * @returns The stored verdict
+ */
+export const setVerdict = async (
+  executionId: string,
+  eventId: string,
+  request: VerdictRequest
+): Promise<ThreatVerdict> => {
+  console.log(`⚖️ [API] Marking ${eventId} as ${request.verdict}`);
+
+  const response = await fetch(
+    `${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/verdicts/${encodeURIComponent(eventId)}`,
+    {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(validationErrorMessage(error, `Failed to save verdict: ${response.statusText}`));
+  }
+
+  return response.json();
+};
+
+/**
+ * Clear the analyst verdict on a result, handing it back to the AI
+ * @param executionId - Run the result belongs to
+ * @param eventId - The result's event id
+ */
+export const clearVerdict = async (executionId: string, eventId: string): Promise<void> => {
+  const response = await fetch(
+    `${CALLBACK_SERVER_URL}/executions/${encodeURIComponent(executionId)}/verdicts/${encodeURIComponent(eventId)}`,
+    { method: 'DELETE' }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to clear verdict: ${response.statusText}`);
+  }
+};
+
 /**
  * Health check for callback server
  * @returns Health status
@@ -161,8 +864,38 @@ export const checkCallbackServerHealth = async (): Promise<HealthCheckResponse>
 
 export default {
   triggerThreatAnalysis,
+  getExecution,
+  getExecutionBatches,
+  getExecutionResults,
   getExecutionStatus,
+  requestExecutionControl,
   getAllExecutions,
+  getExecutionBreakdown,
+  queryExecutionResults,
+  getExecutionAggregates,
+  getWatchlists,
+  importMispWatchlist,
+  deleteWatchlist,
+  getNotifications,
+  getNotificationDeliveries,
+  sendTestNotification,
+  getAlerts,
+  updateAlertStatus,
+  getAlertRules,
+  saveAlertRule,
+  deleteAlertRule,
+  previewAlertRule,
+  getCases,
+  getCase,
+  createCase,
+  updateCase,
+  addCaseNote,
+  attachCaseEvents,
+  detachCaseEvent,
+  getVerdicts,
+  setVerdict,
+  clearVerdict,
+  getDetectionMetrics,
   checkCallbackServerHealth,
 };
 
@@ -0,0 +1,148 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by json-schema-to-typescript.
+ * DO NOT MODIFY IT BY HAND. Instead, modify the source JSONSchema file,
+ * and run json-schema-to-typescript to regenerate this file.
+ */
+
+/**
+ * Contract for n8n -> backend POST /callback payloads and the POST /executions run config. Single source of truth for backend validation and frontend types (npm run gen:types in frontend/).
+ */
+export type CallbackEnvelope = {
+  [k: string]: unknown;
+} & {
+  execution_id: string;
+  status: string;
+};
+
+/**
+ * Run configuration accepted by POST /executions and forwarded to the n8n webhook.
+ *
+ * This interface was referenced by `undefined`'s JSON-Schema
+ * via the `definition` "WorkflowConfig".
+ */
+export interface WorkflowConfig {
+  csv_path?: string;
+  callback_url?: string;
+  batch_size: number;
+  max_items: number;
+}
+/**
+ * One analysed CSV row plus enrichment and batch metadata. Numeric and boolean fields are coerced from strings.
+ *
+ * This interface was referenced by `undefined`'s JSON-Schema
+ * via the `definition` "ThreatData".
+ */
+export interface ThreatData {
+  Timestamp: string;
+  'Source IP Address': string;
+  'Destination IP Address': string;
+  'Source Port'?: string;
+  'Destination Port'?: string;
+  Protocol?: string;
+  'Packet Length'?: string;
+  'Packet Type'?: string;
+  'Traffic Type'?: string;
+  'Payload Data'?: string;
+  'Malware Indicators'?: string;
+  'Anomaly Scores'?: string;
+  'Alerts/Warnings'?: string;
+  'Attack Type': string;
+  'Attack Signature'?: string;
+  'Action Taken'?: string;
+  'Severity Level': string;
+  'Log Source'?: string;
+  'User Information'?: string;
+  'Device Information'?: string;
+  'Network Segment'?: string;
+  'Geo-location Data'?: string;
+  'Proxy Information'?: string;
+  'Firewall Logs'?: string;
+  'IDS/IPS Alerts'?: string;
+  abuse_confidence_score?: number;
+  consensus_classification?: 'TRUE_POSITIVE' | 'FALSE_POSITIVE' | 'UNKNOWN';
+  consensus_confidence?: number;
+  enrichment_method?: 'API_ENRICHED' | 'LOCAL' | 'CACHED';
+  escalation_priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  final_risk_score?: number;
+  ip_reputation_score?: number;
+  is_malicious?: boolean;
+  vt_malicious?: number;
+  _batch_number?: number;
+  _batch_total?: number;
+  _global_index?: number;
+  _is_private_ip?: boolean;
+  _is_safe_ip?: boolean;
+  _item_in_batch?: number;
+  _needs_api_enrichment?: boolean;
+  _pre_filter_risk_score?: number;
+  _total_items?: number;
+  _unique_id?: string;
+}
+/**
+ * Per-batch or final counts. Counts n8n leaves out stay absent rather than reading as 0.
+ *
+ * This interface was referenced by `undefined`'s JSON-Schema
+ * via the `definition` "ThreatSummary".
+ */
+export interface ThreatSummary {
+  total_items?: number;
+  true_positives?: number;
+  false_positives?: number;
+  critical?: number;
+  high?: number;
+  medium?: number;
+  low?: number;
+}
+/**
+ * This interface was referenced by `undefined`'s JSON-Schema
+ * via the `definition` "BatchCompletedPayload".
+ */
+export interface BatchCompletedPayload {
+  execution_id: string;
+  workflow_id?: string;
+  status: 'batch_completed';
+  batch_number: number;
+  total_batches: number;
+  /**
+   * 1-based part of a batch split across several callbacks - parts are reassembled by batch_number before the batch is stored
+   */
+  part_number?: number;
+  /**
+   * How many parts the batch was split into
+   */
+  total_parts?: number;
+  progress_percent?: number;
+  timestamp?: string;
+  batch_results: ThreatData[];
+  summary?: ThreatSummary;
+}
+/**
+ * This interface was referenced by `undefined`'s JSON-Schema
+ * via the `definition` "CompletedPayload".
+ */
+export interface CompletedPayload {
+  execution_id: string;
+  workflow_id?: string;
+  status: 'completed';
+  progress_percent?: number;
+  timestamp?: string;
+  total_items?: number;
+  summary?: ThreatSummary;
+  message?: string;
+}
+/**
+ * Any other status update - paused / resumed / cancelled confirm a dashboard control request, failed marks the run failed (message says why), anything else is rebroadcast as-is.
+ *
+ * This interface was referenced by `undefined`'s JSON-Schema
+ * via the `definition` "StatusPayload".
+ */
+export interface StatusPayload {
+  execution_id: string;
+  workflow_id?: string;
+  status: string;
+  batch_number?: number;
+  total_batches?: number;
+  timestamp?: string;
+  message?: string;
+}
@@ -2,89 +2,75 @@
  * TypeScript Type Definitions for Threat Analysis
  */
 
-// Threat Data Types
-export interface ThreatData {
-  'Timestamp': string;
-  'Source IP Address': string;
-  'Destination IP Address': string;
-  'Source Port': string;
-  'Destination Port': string;
-  'Protocol': string;
-  'Packet Length': string;
-  'Packet Type': string;
-  'Traffic Type': string;
-  'Payload Data': string;
-  'Malware Indicators': string;
-  'Anomaly Scores': string;
-  'Attack Type': string;
-  'Attack Signature': string;
-  'Action Taken': string;
-  'Severity Level': string;
-  'Log Source': string;
-  'User Information': string;
-  'Device Information': string;
-  'Network Segment': string;
-  'Geo-location Data': string;
-  'Proxy Information': string;
-  'Firewall Logs': string;
-  
-  // Enrichment fields
-  abuse_confidence_score?: number;
-  consensus_classification?: 'TRUE_POSITIVE' | 'FALSE_POSITIVE' | 'UNKNOWN';
-  consensus_confidence?: number;
-  enrichment_method?: 'API_ENRICHED' | 'LOCAL' | 'CACHED';
-  escalation_priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  final_risk_score?: number;
-  ip_reputation_score?: number;
-  is_malicious?: boolean;
-  vt_malicious?: number;
-  
-  // Batch metadata
-  _batch_number?: number;
-  _batch_total?: number;
-  _global_index?: number;
-  _is_private_ip?: boolean;
-  _is_safe_ip?: boolean;
-  _item_in_batch?: number;
-  _needs_api_enrichment?: boolean;
-  _pre_filter_risk_score?: number;
-  _total_items?: number;
-  _unique_id?: string;
-}
-
-// Workflow Configuration
-export interface WorkflowConfig {
-  csv_path?: string;
-  callback_url?: string;
+// Callback contract types - generated from shared/callback.schema.json (npm run gen:types)
+import type {
+  WorkflowConfig,
+  ThreatData as GeneratedThreatData,
+  ThreatSummary,
+  BatchCompletedPayload,
+  CompletedPayload,
+  StatusPayload,
+} from './callback.generated';
+
+export type { WorkflowConfig, ThreatSummary, BatchCompletedPayload, CompletedPayload, StatusPayload };
+
+// Analyst Verdicts - an analyst overruling the Dual-AI consensus on one result
+export type Verdict = 'TRUE_POSITIVE' | 'FALSE_POSITIVE';
+
+export interface AnalystVerdict {
+  verdict: Verdict;
+  reason: string;
+  analyst: string | null;
+  at: string;
+}
+
+// A result as the API serves it - when overruled, consensus_classification is the
+// analyst's verdict and ai_classification keeps what the AI said
+export interface ThreatData extends GeneratedThreatData {
+  ai_classification?: GeneratedThreatData['consensus_classification'] | null;
+  analyst_verdict?: AnalystVerdict;
+}
+
+// Validated POST /callback payload, discriminated by `status`
+export type CallbackPayload = BatchCompletedPayload | CompletedPayload | StatusPayload;
+
+// Run Configuration recorded by the backend when it triggers n8n
+export interface ExecutionConfig {
   batch_size: number;
   max_items: number;
+  csv_path: string;
+  expected_total_batches: number;
 }
 
-// Trigger Response from n8n
-export interface TriggerResponse {
-  status: 'processing';
-  execution_id: string;
-  workflow_id: string;
-  message: string;
-  callback_url: string;
-  timestamp: string;
-  config: {
-    batch_size: number;
-    max_items: number;
-    csv_path: string;
-    total_items: number;
-  };
+// Lifecycle of a run - paused / cancelled are confirmed by n8n between batches,
+// incomplete means n8n reported completion but batches are missing
+export type ExecutionRunStatus = 'processing' | 'paused' | 'completed' | 'incomplete' | 'cancelled' | 'failed';
+
+// Control flag the workflow polls between batches
+export type ExecutionControlAction = 'run' | 'pause' | 'cancel';
+
+// Progress computed by the backend from total_batches / progress_percent and batch timing
+export interface ExecutionProgress {
+  percent: number;
+  batches_received: number;
+  total_batches: number | null;
+  items_processed: number;
+  total_items: number | null;
+  avg_batch_seconds: number | null;
+  items_per_second: number | null;
+  eta_seconds: number | null;
 }
 
-// Summary Statistics
-export interface ThreatSummary {
-  total_items: number;
-  true_positives: number;
-  false_positives: number;
-  critical: number;
-  high: number;
-  medium: number;
-  low: number;
+// Gap Report - batches keyed on batch_number against total_batches
+export interface BatchReport {
+  total_batches: number | null;
+  received_batches: number[];
+  missing_batches: number[];
+  late_batches: number[];
+  truncated_batches: number[];
+  missing_items: number;
+  duplicate_deliveries: number;
+  is_complete: boolean;
 }
 
 // Execution Status from Callback Server
@@ -95,24 +81,537 @@ export interface ExecutionStatus {
   completedTime?: string;
   batchesReceived?: number;
   finalSummary?: ThreatSummary;
+  aiSummary?: ThreatSummary; // n8n's counts before analyst verdicts
+  verdictCount?: number;
   allResults?: ThreatData[];
   totalResultsCount?: number;
   progress: number;
-  status: 'not_found' | 'processing' | 'completed';
+  totalBatches?: number | null;
+  totalItems?: number | null;
+  etaSeconds?: number | null;
+  itemsPerSecond?: number | null;
+  status: 'not_found' | ExecutionRunStatus;
+  control?: ExecutionControlAction;
+  batchReport?: BatchReport;
+  resultsCursor?: string;
+}
+
+// Single Execution Response (GET /executions/:id)
+export interface ExecutionResponse {
+  execution_id: string;
+  workflow_id: string | null;
+  status: ExecutionRunStatus;
+  start_time: string;
+  completed_time: string | null;
+  batches_received: number;
+  final_summary: ThreatSummary | null; // recomputed with analyst verdicts
+  ai_final_summary: ThreatSummary | null; // as n8n sent it
+  verdict_count: number;
+  total_items: number;
+  total_results_count: number;
+  error: string | null; // n8n's message when the run failed
+  config: ExecutionConfig | null;
+  control: ExecutionControlAction;
+  progress: ExecutionProgress;
+  batch_report: BatchReport;
+  timestamp: string;
+}
+
+// Trigger Response (POST /executions)
+export interface TriggerResponse extends ExecutionResponse {
+  message: string;
+}
+
+// Batch Record (GET /executions/:id/batches)
+export interface ExecutionBatch {
+  batch_number: number;
+  total_batches: number;
+  progress_percent: number;
+  summary: ThreatSummary | null;
+  results_count: number;
+  timestamp?: string;
+  received_at: string;
+}
+
+export interface ExecutionBatchesResponse {
+  execution_id: string;
+  batches: ExecutionBatch[];
+  total_batches_received: number;
+  timestamp: string;
+}
+
+// Cursor-paginated Results (GET /executions/:id/results)
+export interface ExecutionResultsPage {
+  execution_id: string;
+  results: ThreatData[];
+  next_cursor: string;
+  has_more: boolean;
+  total_results_count: number;
+  timestamp: string;
+}
+
+// Server-side Query (GET /executions/:id/query) - q uses the backend's filter
+// language, e.g. `severity:high AND src_ip:10.0.0.0/8 AND risk>=70`
+export interface ThreatQueryParams {
+  q?: string;
+  sort?: string;
+  facets?: string[];
+  cursor?: string;
+  limit?: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ThreatQueryResponse {
+  execution_id: string;
+  query: string;
+  sort: string | null;
+  results: ThreatData[];
+  next_cursor: string;
+  has_more: boolean;
+  total_matches: number;
+  total_results_count: number;
+  facets: Record<string, FacetCount[]>;
+  timestamp: string;
+}
+
+// Result Export (GET /executions/:id/export) - takes the same q / sort as the query
+export type ExportFormat = 'csv' | 'ndjson' | 'stix' | 'misp' | 'ecs';
+
+// IOC Watchlists (/watchlists) - imported from MISP events
+export interface WatchlistIoc {
+  type: 'ip-src' | 'ip-dst' | 'port' | 'pattern-in-traffic';
+  value: string;
+  port?: string;
+  category: string | null;
+  comment: string;
+  to_ids: boolean;
+}
+
+export interface Watchlist {
+  watchlist_id: string;
+  name: string;
+  source: 'misp';
+  misp_event_uuid: string | null;
+  imported_at: string;
+  ioc_count: number;
+  skipped_attributes: number;
+  iocs: WatchlistIoc[];
+}
+
+export interface WatchlistsResponse {
+  total_watchlists: number;
+  watchlists: Watchlist[];
+  timestamp: string;
+}
+
+export interface WatchlistImportResponse extends Watchlist {
+  replaced: boolean;
+  timestamp: string;
+}
+
+// Notifications (/notifications) - webhook and email channels configured on the backend
+export type NotificationEventType = 'critical_findings' | 'run_completed' | 'run_failed';
+
+export interface NotificationChannel {
+  name: string;
+  type: 'webhook' | 'email';
+  template: 'slack' | 'teams' | 'mattermost' | 'generic' | 'email';
+  events: NotificationEventType[];
+  throttle_seconds: number;
+  pending_events: number;
+  next_send_at: string | null;
+  delivered: number;
+  failed: number;
+  last_delivery_at: string | null;
+  last_error: string | null;
+}
+
+export interface NotificationsResponse {
+  enabled: boolean;
+  channels: NotificationChannel[];
+  timestamp: string;
+}
+
+export interface NotificationDelivery {
+  delivery_id: string;
+  channel: string;
+  channel_type: 'webhook' | 'email';
+  status: 'pending' | 'delivered' | 'failed';
+  event_types: Array<NotificationEventType | 'test'>;
+  events: number;
+  execution_ids: string[];
+  digest: boolean;
+  attempts: number;
+  http_status: number | null;
+  error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface NotificationDeliveriesResponse {
+  total_deliveries: number;
+  deliveries: NotificationDelivery[];
+  timestamp: string;
+}
+
+// Alert Rules (/alerts/rules) - evaluated against every batch as it arrives
+export type AlertRuleType = 'conditions' | 'threshold' | 'conflict';
+export type AlertSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface AlertRuleInput {
+  name: string;
+  description?: string;
+  enabled?: boolean;
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  query: string;
+  threshold?: number;
+  window?: 'batch' | 'execution';
+  group_by?: string | null;
+  prefix?: number | null;
+  suppress_minutes?: number;
+}
+
+export interface AlertRule extends Required<AlertRuleInput> {
+  rule_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertRulesResponse {
+  total_rules: number;
+  rules: AlertRule[];
+  timestamp: string;
+}
+
+// Alerts (/alerts) - raised by alert rules, also streamed as `alert` events
+export type AlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+export type AlertAction = 'acknowledge' | 'snooze' | 'resolve' | 'reopen';
+
+export interface AlertHistoryEntry {
+  action: AlertAction | 'raised';
+  status: AlertStatus;
+  analyst: string | null;
+  reason?: string | null;
+  until?: string | null;
+  at: string;
+}
+
+export interface ThreatAlert {
+  alert_id: string;
+  key: string;
+  rule_id: string | null;
+  rule_name: string;
+  rule_type: AlertRuleType;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  details: string | null;
+  execution_id: string;
+  batch_number: number;
+  group_by: string | null;
+  group: string | null;
+  match_count: number;
+  sample_ids: string[];
+  execution_ids: string[];
+  occurrences: number;
+  status: AlertStatus;
+  snoozed_until: string | null;
+  resolution: { reason: string; analyst: string | null; at: string } | null;
+  history: AlertHistoryEntry[];
+  created_at: string;
+  last_seen_at: string;
+}
+
+export interface AlertFilters {
+  executionId?: string | null;
+  status?: AlertStatus[];
+  severity?: AlertSeverity[];
+  ruleId?: string;
+  since?: string;
+  limit?: number;
 }
 
-// All Executions Response
+export interface AlertsResponse {
+  total_alerts: number;
+  status_counts: Record<AlertStatus, number>;
+  alerts: ThreatAlert[];
+  timestamp: string;
+}
+
+// Body of POST /alerts/:id/<action> - snooze takes until or minutes, resolve needs a reason
+export interface AlertActionRequest {
+  analyst?: string | null;
+  reason?: string;
+  minutes?: number;
+  until?: string;
+}
+
+export interface AlertPreviewResponse {
+  execution_id: string;
+  total_alerts: number;
+  alerts: ThreatAlert[];
+  timestamp: string;
+}
+
+// Cases (/cases) - analyst cases grouping related results
+export type CaseStatus = 'new' | 'investigating' | 'contained' | 'closed';
+export type CasePriority = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+// A result attached to a case - the summary kept on the case itself
+export interface CaseEvent {
+  event_id: string;
+  execution_id: string;
+  timestamp: string | null;
+  src_ip: string | null;
+  dst_ip: string | null;
+  attack_type: string | null;
+  escalation_priority: string | null;
+  final_risk_score: number | null;
+  consensus_classification: string | null;
+  attached_at: string;
+  attached_by: string | null;
+}
+
+export interface CaseTimelineEntry {
+  entry_id: string;
+  type: 'created' | 'note' | 'attached' | 'detached' | 'status' | 'assignee' | 'priority' | 'title';
+  analyst: string | null;
+  at: string;
+  text?: string;
+  execution_id?: string;
+  event_ids?: string[];
+  src_ip?: string | null;
+  from?: string | null;
+  to?: string | null;
+}
+
+interface CaseFields {
+  case_id: string;
+  title: string;
+  status: CaseStatus;
+  priority: CasePriority;
+  assignee: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CaseSummary extends CaseFields {
+  event_count: number;
+  note_count: number;
+  source_ips: string[];
+  attack_types: string[];
+  execution_ids: string[];
+}
+
+export interface ThreatCase extends CaseFields {
+  events: CaseEvent[];
+  timeline: CaseTimelineEntry[];
+}
+
+// GET /cases/:id joins each event's full result back in
+export interface ThreatCaseDetail extends ThreatCase {
+  events: (CaseEvent & { result: ThreatData | null })[];
+}
+
+export interface CaseFilters {
+  status?: CaseStatus[];
+  priority?: CasePriority[];
+  assignee?: string;
+  executionId?: string | null;
+  srcIp?: string;
+  limit?: number;
+}
+
+export interface CasesResponse {
+  total_cases: number;
+  status_counts: Record<CaseStatus, number>;
+  cases: CaseSummary[];
+  timestamp: string;
+}
+
+// Which results of a run to attach - by _unique_id or by source IP
+export type CaseEventSelector =
+  | { execution_id: string; unique_ids: string[] }
+  | { execution_id: string; src_ip: string };
+
+export type NewCaseRequest = CaseEventSelector & {
+  title?: string;
+  assignee?: string | null;
+  priority?: CasePriority;
+  note?: string;
+  analyst?: string | null;
+};
+
+export interface CaseUpdateRequest {
+  status?: CaseStatus;
+  assignee?: string | null;
+  priority?: CasePriority;
+  title?: string;
+  analyst?: string | null;
+}
+
+// Stored Verdict (GET /executions/:id/verdicts, PUT /executions/:id/verdicts/:eventId)
+export interface ThreatVerdict extends AnalystVerdict {
+  event_id: string;
+  ai_classification: GeneratedThreatData['consensus_classification'] | null;
+}
+
+export interface VerdictsResponse {
+  execution_id: string;
+  verdicts: ThreatVerdict[];
+  total_verdicts: number;
+  timestamp: string;
+}
+
+export interface VerdictRequest {
+  verdict: Verdict;
+  reason: string;
+  analyst?: string | null;
+}
+
+// Detection Quality (GET /executions/:id/metrics, GET /executions/metrics) - the AI
+// consensus scored against analyst verdicts; ratios are 0-1, null with no samples
+export type AiPrediction = Verdict | 'UNKNOWN';
+
+export interface DetectionScores {
+  labeled: number;
+  true_positives: number;
+  false_positives: number;
+  true_negatives: number;
+  false_negatives: number;
+  unclassified: number;
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface ConfusionScores extends DetectionScores {
+  confusion: Record<Verdict, Record<AiPrediction, number>>; // analyst truth -> AI prediction
+}
+
+export interface DetectionMetrics extends ConfusionScores {
+  total_results: number;
+  coverage: number | null; // labeled share of all results
+  by_attack_type: Array<ConfusionScores & { value: string }>;
+  by_enrichment_method: Array<ConfusionScores & { value: string }>;
+  by_pre_filter_band: Array<ConfusionScores & { value: string }>;
+}
+
+export interface ExecutionDetectionScores extends DetectionScores {
+  execution_id: string;
+  start_time: string;
+  total_results: number;
+}
+
+export interface DetectionMetricsResponse extends DetectionMetrics {
+  execution_ids: string[];
+  executions: ExecutionDetectionScores[]; // oldest first
+  timestamp: string;
+}
+
+// Chart Aggregates (GET /executions/:id/aggregates, GET /executions/aggregates)
+export type TimeBucket = 'hour' | 'day' | 'week' | 'month';
+
+export interface AggregateParams {
+  bucket?: TimeBucket;
+  last?: number;
+  top?: number;
+  q?: string;
+}
+
+export interface TimelineBucket {
+  bucket: string;
+  count: number;
+  high: number;
+  medium: number;
+  low: number;
+}
+
+export interface ExecutionAggregates {
+  execution_id?: string;
+  execution_ids?: string[];
+  query: string;
+  total_results: number;
+  blocked: number;
+  average_risk_score: number;
+  bucket: TimeBucket;
+  timeline: TimelineBucket[];
+  undated: number;
+  hour_of_day: Array<{ hour: string; count: number }>;
+  severity: FacetCount[];
+  attack_types: FacetCount[];
+  protocols: FacetCount[];
+  segments: FacetCount[];
+  actions: FacetCount[];
+  ports: Array<FacetCount & { average_risk_score: number }>;
+  top_source_ips: FacetCount[];
+  countries: FacetCount[];
+  risk_distribution: Array<{ range: string; count: number }>;
+  timestamp: string;
+}
+
+// Server-Sent Events (GET /executions/:id/events)
+export interface BatchCompletedEvent {
+  type: 'batch_completed';
+  execution_id: string;
+  timestamp: string;
+  batch_number: number;
+  total_batches: number;
+  progress_percent: number;
+  summary: ThreatSummary | null;
+  results: ThreatData[];
+  results_offset: number;
+  batches_received: number;
+  total_results_count: number;
+  next_cursor: string;
+  progress: ExecutionProgress;
+}
+
+export interface AlertEvent {
+  type: 'alert';
+  execution_id: string;
+  timestamp: string;
+  alert: ThreatAlert;
+  folded?: boolean;
+  action?: AlertAction;
+}
+
+// verdict is null when an analyst cleared it
+export interface VerdictEvent {
+  type: 'verdict';
+  execution_id: string;
+  timestamp: string;
+  event_id: string;
+  verdict: ThreatVerdict | null;
+}
+
+export interface ExecutionCompletedEvent extends Omit<ExecutionResponse, 'timestamp'> {
+  type: 'completed';
+  timestamp: string;
+  next_cursor: string;
+}
+
+// Run History (GET /executions), newest first
 export interface AllExecutionsResponse {
   total_executions: number;
-  executions: Array<{
-    execution_id: string;
-    start_time: string;
-    completed_time?: string;
-    batches_received: number;
-    final_summary?: ThreatSummary;
-    all_results?: ThreatData[];
-    total_results_count?: number;
-  }>;
+  executions: ExecutionResponse[];
+  timestamp: string;
+}
+
+// Severity Mix and Top Attack Types (GET /executions/:id/breakdown)
+export interface ExecutionBreakdown {
+  execution_id: string;
+  total_results: number;
+  severity: Record<string, number>;
+  classification: Record<string, number>;
+  top_attack_types: Array<{ value: string; count: number }>;
   timestamp: string;
 }
 